@@ -0,0 +1,36 @@
+import { createSessionToken, sessionCookie } from '@/lib/auth/session'
+import { getUserStore, normalizeEmail, toSessionUser } from '@/lib/auth/users'
+import { AppError, QuotaExceededError, ValidationError } from '@/lib/errors'
+import { errorResponse } from '@/lib/errors/server'
+import { consumeEmailLimits } from '@/lib/rate-limit'
+
+export const runtime = 'nodejs'
+
+const ROUTE = 'POST /api/auth/login'
+
+//* Sign in with email and password
+export async function POST(req: Request) {
+  try {
+    const body = await req.json()
+    const email = normalizeEmail(body?.email)
+    const password = body?.password
+
+    if (!email || typeof password !== 'string' || !password) {
+      throw new ValidationError('Email and password are required.', { field: email ? 'password' : 'email' })
+    }
+
+    //* Per-address limit on top of the middleware's per-IP one, so one account can't be targeted from many IPs
+    const limited = await consumeEmailLimits('/api/auth/login', email)
+    if (!limited.allowed) throw new QuotaExceededError({ retryAfter: limited.retryAfter })
+
+    const user = await getUserStore().authenticate(email, password)
+    //* Same message for unknown emails and wrong passwords
+    if (!user) throw new AppError('unauthenticated', { message: 'Invalid email or password.' })
+
+    const sessionUser = toSessionUser(user)
+    const token = await createSessionToken(sessionUser)
+    return Response.json({ user: sessionUser }, { headers: { 'Set-Cookie': sessionCookie(token) } })
+  } catch (error) {
+    return errorResponse(error, { route: ROUTE })
+  }
+}
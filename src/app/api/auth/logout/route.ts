@@ -0,0 +1,6 @@
+import { clearedSessionCookie } from '@/lib/auth/session'
+
+//* Sessions are stateless, so signing out just clears the cookie
+export async function POST() {
+  return new Response(null, { status: 204, headers: { 'Set-Cookie': clearedSessionCookie() } })
+}
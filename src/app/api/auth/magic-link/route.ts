@@ -0,0 +1,38 @@
+import { sendMail } from '@/lib/auth/mailer'
+import { getUserStore, normalizeEmail } from '@/lib/auth/users'
+import { QuotaExceededError, ValidationError } from '@/lib/errors'
+import { errorResponse } from '@/lib/errors/server'
+import { consumeEmailLimits } from '@/lib/rate-limit'
+
+export const runtime = 'nodejs'
+
+const ROUTE = 'POST /api/auth/magic-link'
+
+//* Email a single-use sign-in link; the account is created when the link is first used
+export async function POST(req: Request) {
+  try {
+    const body = await req.json()
+    const email = normalizeEmail(body?.email)
+    if (!email) throw new ValidationError('A valid email is required.', { field: 'email' })
+
+    //* Per-address limit on top of the middleware's per-IP one, so one inbox can't be flooded from many IPs
+    const limited = await consumeEmailLimits('/api/auth/magic-link', email)
+    if (!limited.allowed) throw new QuotaExceededError({ retryAfter: limited.retryAfter })
+
+    const token = await getUserStore().createMagicLink(email)
+
+    //* Prefer the configured origin so a spoofed Host header can't redirect the link elsewhere
+    const link = new URL('/api/auth/magic-link/verify', process.env.APP_URL || req.url)
+    link.searchParams.set('token', token)
+
+    await sendMail({
+      to: email,
+      subject: 'Your NIC sign-in link',
+      text: `Sign in to NIC by opening this link within 15 minutes:\n\n${link}\n\nIf you didn't ask for this, you can ignore this email.`,
+    })
+
+    return new Response(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error, { route: ROUTE })
+  }
+}
@@ -0,0 +1,25 @@
+import { createSessionToken, sessionCookie } from '@/lib/auth/session'
+import { getUserStore, toSessionUser } from '@/lib/auth/users'
+
+export const runtime = 'nodejs'
+
+function redirect(url: URL, headers?: HeadersInit) {
+  return new Response(null, { status: 303, headers: { Location: url.toString(), ...headers } })
+}
+
+//* Landing point for emailed links: start a session and go to the chat
+export async function GET(req: Request) {
+  const token = new URL(req.url).searchParams.get('token')
+  const origin = process.env.APP_URL || req.url
+
+  try {
+    const user = token ? await getUserStore().redeemMagicLink(token) : null
+    if (!user) return redirect(new URL('/login?error=invalid-link', origin))
+
+    const sessionToken = await createSessionToken(toSessionUser(user))
+    return redirect(new URL('/', origin), { 'Set-Cookie': sessionCookie(sessionToken) })
+  } catch (error) {
+    console.error('Error verifying sign-in link:', error)
+    return redirect(new URL('/login?error=invalid-link', origin))
+  }
+}
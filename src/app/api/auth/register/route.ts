@@ -0,0 +1,31 @@
+import { createSessionToken, sessionCookie } from '@/lib/auth/session'
+import { MIN_PASSWORD_LENGTH, getUserStore, normalizeEmail, toSessionUser } from '@/lib/auth/users'
+import { AppError, ValidationError } from '@/lib/errors'
+import { errorResponse } from '@/lib/errors/server'
+
+export const runtime = 'nodejs'
+
+const ROUTE = 'POST /api/auth/register'
+
+//* Create an account with email and password and sign it in
+export async function POST(req: Request) {
+  try {
+    const body = await req.json()
+    const email = normalizeEmail(body?.email)
+    const password = body?.password
+
+    if (!email) throw new ValidationError('A valid email is required.', { field: 'email' })
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      throw new ValidationError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`, { field: 'password' })
+    }
+
+    const user = await getUserStore().register(email, password)
+    if (!user) throw new AppError('conflict', { message: 'An account with that email already exists.' })
+
+    const sessionUser = toSessionUser(user)
+    const token = await createSessionToken(sessionUser)
+    return Response.json({ user: sessionUser }, { status: 201, headers: { 'Set-Cookie': sessionCookie(token) } })
+  } catch (error) {
+    return errorResponse(error, { route: ROUTE })
+  }
+}
@@ -0,0 +1,12 @@
+import { getSessionUser } from '@/lib/auth/session'
+import { AppError } from '@/lib/errors'
+import { errorResponse } from '@/lib/errors/server'
+
+const ROUTE = 'GET /api/auth/session'
+
+//* Who is signed in, or 401
+export async function GET(req: Request) {
+  const user = await getSessionUser(req)
+  if (!user) return errorResponse(new AppError('unauthenticated', { message: 'Not signed in' }), { route: ROUTE })
+  return Response.json({ user })
+}
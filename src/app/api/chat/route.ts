@@ -1,111 +1,138 @@
-import { OpenAI } from 'openai'
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY!,
-})
-
-//* Connect to FDA Database
+import { StreamingTextResponse, createStreamDataTransformer, experimental_StreamData } from 'ai'
+import { getSessionUser } from '@/lib/auth/session'
+import {
+  describeKnownFoods,
+  describeRememberedFoods,
+  emptyConversationContext,
+  parseChatRequest,
+  prepareHistory,
+  rememberFoods,
+  resolveFoodReferences,
+} from '@/lib/chat'
+import { getServerConversationContextStore } from '@/lib/chat/server-store'
+import { AppError, FoodDataError, ValidationError } from '@/lib/errors'
+import { errorResponse, logError, logEvent, toAppError } from '@/lib/errors/server'
+import { getLLMProvider, isLLMConfigured, type LLMMessage } from '@/lib/llm'
+import { estimateMessageTokens } from '@/lib/llm/tokens'
+import { buildNutritionPayload, formatPanel, lookupFoods, type FoodQuantity } from '@/lib/nutrition'
+import { extractFoods } from '@/lib/nutrition/extraction'
+import { getFoodSource } from '@/lib/nutrition/server'
+import { computeDailyTargets, describeProfile } from '@/lib/profile'
+import { getServerProfileStore } from '@/lib/profile/server-store'
+import { checkFoods, checkResponse, rulesForProfile, withheldNotice } from '@/lib/safety'
+
+//* Connect to FDA Database (or the local dataset named by FDC_DATASET_PATH)
 const FDC_API_KEY = process.env.FDC_API_KEY
+const FDC_DATASET_PATH = process.env.FDC_DATASET_PATH
 
-export const runtime = 'edge'
+//* Node runtime so the FDC cache and offline dataset can use the filesystem
+export const runtime = 'nodejs'
 export const maxDuration = 60
 
-interface ChatMessage {
-  role: 'user' | 'assistant' | 'system'
-  content: string
+const ROUTE = 'POST /api/chat'
+
+//* Helper: Fetch nutrition info from FDA API (or the local dataset)
+//* Lookups run in parallel; the FDC client bounds concurrency and rate-limits per key
+//* Individual failed lookups come back as unresolved; only an unusable source fails the request
+async function fetchFDAInfo(foodItems: FoodQuantity[]) {
+  const source = await getFoodSource().catch((error) => {
+    throw new FoodDataError({ cause: error })
+  })
+  return source ? lookupFoods(foodItems, source) : { results: [], unresolved: [] }
 }
 
-//* Helper: Fetch nutrition info from FDA API
-async function fetchFDAInfo(foodItems: string[]) {
-  const results = []
-
-  for (const item of foodItems) {
-    const res = await fetch(
-      `https://api.nal.usda.gov/fdc/v1/foods/search?query=${encodeURIComponent(
-        item
-      )}&api_key=${FDC_API_KEY}`
-    )
-    const data = await res.json()
-
-    if (data.foods?.length > 0) {
-      results.push({
-        item,
-        nutrients: data.foods[0].foodNutrients?.slice(0, 5) || [],
-      })
-    }
-  }
+interface TextStreamOptions {
+  //* Send nothing until the whole reply is in, then send what onFinal returns instead of the tokens
+  hold?: boolean
+  onFinal?: (response: string) => string
+  onError?: (error: unknown) => void
+}
 
-  return results
+//* Helper: Convert the provider's text deltas into the plain text stream useChat reads
+//* Headers are already sent by the time a mid-stream failure happens, so it's logged and the stream is cut
+function toTextStream(completion: AsyncIterable<string>, { hold = false, onFinal, onError }: TextStreamOptions) {
+  const encoder = new TextEncoder()
+  let response = ''
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for await (const token of completion) {
+          response += token
+          if (!hold) controller.enqueue(encoder.encode(token))
+        }
+        const final = onFinal ? onFinal(response) : response
+        if (hold) controller.enqueue(encoder.encode(final))
+        controller.close()
+      } catch (error) {
+        onError?.(error)
+        controller.error(error)
+      }
+    },
+  })
 }
 
 export async function POST(req: Request) {
-  try {
-    const body = await req.json()
-    const { messages } = body
+  //* Middleware already rejects anonymous requests; checked again so the route never runs unauthenticated
+  const user = await getSessionUser(req)
+  if (!user) return errorResponse(new AppError('unauthenticated'), { route: ROUTE })
 
-    if (!process.env.OPENAI_API_KEY || !FDC_API_KEY) {
-      return new Response(JSON.stringify({ error: 'Missing API keys' }), {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' },
+  try {
+    //* Roles, lengths and the token budget are checked here; client system messages are dropped
+    const parsed = parseChatRequest(await req.json())
+    if (!parsed.ok) throw new ValidationError(parsed.error, { field: parsed.field })
+
+    const { messages, omittedMessages, conversationId, strippedSystemMessages } = parsed.value
+    if (strippedSystemMessages > 0) {
+      logEvent('warn', 'Dropped client-supplied system messages', {
+        route: ROUTE,
+        userId: user.id,
+        count: strippedSystemMessages,
       })
     }
+    //* The saved profile, never one from the request body: it ends up in the system prompt
+    const profile = await getServerProfileStore(user.id).get()
+    const targets = computeDailyTargets(profile)
+    const restrictions = profile ? rulesForProfile(profile.allergies, profile.dietType) : []
 
-    if (!Array.isArray(messages)) {
-      return new Response(
-        JSON.stringify({ error: "'messages' must be an array." }),
-        {
-          status: 400,
-          headers: { 'Content-Type': 'application/json' },
-        }
-      )
+    if (!isLLMConfigured() || (!FDC_API_KEY && !FDC_DATASET_PATH)) {
+      throw new AppError('not_configured', { cause: new Error('Missing LLM or FDC API keys') })
     }
 
-    if (messages.length > 50) {
-      return new Response(
-        JSON.stringify({ error: 'Too many messages provided. Limit to 50.' }),
-        {
-          status: 400,
-          headers: { 'Content-Type': 'application/json' },
-        }
-      )
-    }
+    const llm = getLLMProvider()
 
-    //* Step 1: Extract food items from the latest user message
-    const extraction = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: [
-        {
-          role: 'system',
-          content:
-            'Extract individual food items from the user\'s message. Only return a comma-separated list.',
-        },
-        messages[messages.length - 1],
-      ],
-    })
+    //* Per-conversation summary and food memory; requests without a conversation id start fresh each time
+    const contextStore = getServerConversationContextStore(user.id)
+    const context = (conversationId && (await contextStore.get(conversationId))) || emptyConversationContext()
 
-    const foodList = extraction.choices[0].message.content ?? ''
-    const foodItems = foodList
-      .split(',')
-      .map((item) => item.trim())
-      .filter(Boolean)
-
-    //* Step 2: Fetch nutrition info
-    const nutritionData = await fetchFDAInfo(foodItems)
-
-    const nutritionSummary = nutritionData
-      .map((entry) => {
-        const nutrients = entry.nutrients
-        .map((n: { nutrientName: string; value: number; unitName: string }) => 
-          `${n.nutrientName}: ${n.value} ${n.unitName}`
-        )
-        .join(', ')
-
-        return `${entry.item} → ${nutrients}`
-      })
-      .join('\n')
+    //* Step 1: Extract food items (with amounts) from the latest user message
+    //* "that", "those" and "the rice" are resolved against foods from earlier turns
+    const previousReply = messages.findLast((message) => message.role === 'assistant')?.content
+    const extracted = await extractFoods(llm, messages[messages.length - 1].content, {
+      knownFoods: describeKnownFoods(context.foods),
+      previousReply,
+    })
+    const { reused, pending } = resolveFoodReferences(extracted, context.foods)
+    const foodItems = [...reused.map((entry) => entry.quantity), ...pending]
+
+    //* Step 2: Fetch nutrition info; referenced foods reuse their earlier FDC match
+    const lookup = await fetchFDAInfo(pending)
+    const nutritionData = [...reused, ...lookup.results]
+    const { unresolved } = lookup
+
+    const nutritionSummary = [
+      ...nutritionData.map(
+        (entry) =>
+          `${entry.item} (${entry.food.description}, ${Math.round(entry.grams)} g) → ${formatPanel(entry.nutrients)}`
+      ),
+      ...unresolved.map(
+        (entry) =>
+          `${entry.item} → ${entry.reason === 'not_found' ? 'no match in FDA data' : 'FDA lookup failed, data unavailable'}`
+      ),
+    ].join('\n')
 
     //* Step 3: Inject system message with FDA data
-    const enhancedMessages: ChatMessage[] = [
+    const systemMessages: LLMMessage[] = [
       {
         role: 'system',
         content:
@@ -118,40 +145,99 @@ export async function POST(req: Request) {
           - If data is missing, explain that and offer general advice.
           Ensure that your response is clear, concise, and informative.
           Use the data to support your recommendations and provide actionable advice.
-          Make sure to not use quotes in your response. Please only make use of periods, commas, dashes, and new lines.
-          When using new lines make sure that at least two are used in a row to separate paragraphs.
-          Make sure to not use any markdown or code blocks in your response.
+          Format your response in Markdown, which the chat renders:
+          - Use short paragraphs for explanations and bullet lists for tips or options.
+          - Use a table when comparing foods or listing macros, with units in the column headers.
+          - Use numbered lists for recipe steps and ### headings to separate days or meals in a plan.
+          - Use bold sparingly for key numbers. Do not use images, HTML or code blocks.
           `,
       },
       {
         role: 'system',
         content: `FDA Nutrition Data:\n${nutritionSummary || 'No data found for input foods.'}`,
       },
-      ...messages,
+      ...(profile
+        ? [
+            {
+              role: 'system' as const,
+              content: `User profile. Tailor portions, suggestions and warnings to it:\n${describeProfile(profile, targets)}`,
+            },
+          ]
+        : []),
     ]
 
-    // 🔄 Step 4: Stream GPT response
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: enhancedMessages,
-    })
+    //* Foods from earlier turns stay available after those turns are summarized or trimmed away
+    const earlierFoods = describeRememberedFoods(context.foods, nutritionData)
+    if (earlierFoods) {
+      systemMessages.push({
+        role: 'system',
+        content: `FDA data for foods discussed earlier in this conversation:\n${earlierFoods}`,
+      })
+    }
 
-    const response = completion.choices[0].message.content
-    console.log('ChatGPT response:', response)
-    return new Response(JSON.stringify(response), {
-      headers: { 'Content-Type': 'application/json' },
+    //* Step 3b: Fit the conversation into the model's context window, summarizing older turns
+    const history = await prepareHistory({
+      llm,
+      messages,
+      context,
+      reservedTokens: estimateMessageTokens(systemMessages),
+      summarize: conversationId !== null,
+      offset: omittedMessages,
+      signal: req.signal,
     })
-    
+    //* Positions count from the start of the conversation, including messages the request limits dropped
+    const conversationLength = omittedMessages + messages.length
+
+    if (conversationId) {
+      await contextStore.save(conversationId, {
+        ...history.context,
+        foods: rememberFoods(history.context.foods, nutritionData, conversationLength - 1),
+        updatedAt: new Date().toISOString(),
+      })
+    }
+
+    const enhancedMessages = [...systemMessages, ...history.messages]
+
+    // 🔄 Step 4: Stream the model's response (provider and model come from LLM_PROVIDER / LLM_MODEL)
+    //* req.signal is aborted when the client calls stop(), which cancels the upstream completion
+    const completion = await llm.streamChat(enhancedMessages, { signal: req.signal })
+
+    //* Attach the per-item and meal nutrition totals to the assistant message
+    const data = new experimental_StreamData()
+    if (nutritionData.length > 0 || unresolved.length > 0) {
+      data.appendMessageAnnotation(buildNutritionPayload(nutritionData, unresolved, targets))
+    }
+
+    //* Warn when the foods asked about conflict with the user's allergies or diet
+    const requestSafety = checkFoods(foodItems, restrictions)
+    if (requestSafety.violations.length > 0) {
+      data.appendMessageAnnotation(requestSafety)
+    }
+
+    const stream = toTextStream(completion, {
+      //* An answer that trips an allergy rule must never reach the client (or its conversation store),
+      //* so with allergies on file the reply is checked in full before anything is sent
+      hold: restrictions.some((rule) => rule.kind === 'allergy'),
+      onFinal: (response) => {
+        console.log(`${llm.name} response:`, response)
+
+        //* Flag (or block, for allergies) suggestions that violate the user's restrictions
+        const responseSafety = checkResponse(response, restrictions)
+        if (responseSafety.violations.length > 0) {
+          data.appendMessageAnnotation(responseSafety)
+        }
+        data.close()
+        return responseSafety.blocked ? withheldNotice(responseSafety) : response
+      },
+      onError: (error) => {
+        if (!req.signal.aborted) logError(toAppError(error), { route: ROUTE, userId: user.id })
+        data.close()
+      },
+    }).pipeThrough(createStreamDataTransformer(true))
+
+    return new StreamingTextResponse(stream, {}, data)
   } catch (error) {
-    const err = error as Error & { code?: string }
-    console.error('Error in chat route:', err)
-    return new Response(
-      JSON.stringify({
-        error: err.message || 'Unexpected error',
-        stack: err.stack,
-        code: err.code || 'unknown_error',
-      }),
-      { status: 500, headers: { 'Content-Type': 'application/json' } }
-    )
+    //* Sanitized body with a stable code; the full error only goes to the server log
+    return errorResponse(error, { route: ROUTE, userId: user.id })
   }
 }
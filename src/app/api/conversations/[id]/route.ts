@@ -0,0 +1,90 @@
+import { getSessionUser } from '@/lib/auth/session'
+import { getServerConversationContextStore } from '@/lib/chat/server-store'
+import { parseMessages, parseTitle } from '@/lib/conversations/import'
+import { getServerConversationStore } from '@/lib/conversations/server-store'
+import { deserializeMessage, serializeConversation } from '@/lib/conversations/serialize'
+import type { ConversationUpdate } from '@/lib/conversations/types'
+import { AppError, ValidationError } from '@/lib/errors'
+import { errorResponse } from '@/lib/errors/server'
+
+export const runtime = 'nodejs'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+//* Fetch a single conversation with its messages
+export async function GET(req: Request, { params }: RouteContext) {
+  const route = 'GET /api/conversations/[id]'
+  const user = await getSessionUser(req)
+  if (!user) return errorResponse(new AppError('unauthenticated'), { route })
+
+  const { id } = await params
+
+  try {
+    const conversation = await getServerConversationStore(user.id).get(id)
+    if (!conversation) throw new AppError('not_found', { message: 'Conversation not found' })
+
+    return Response.json(serializeConversation(conversation))
+  } catch (error) {
+    return errorResponse(error, { route, userId: user.id })
+  }
+}
+
+//* Rename a conversation and/or replace its messages
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const route = 'PATCH /api/conversations/[id]'
+  const user = await getSessionUser(req)
+  if (!user) return errorResponse(new AppError('unauthenticated'), { route })
+
+  const { id } = await params
+
+  try {
+    const body = ((await req.json()) ?? {}) as Record<string, unknown>
+    const changes: ConversationUpdate = {}
+
+    if (body.title !== undefined) {
+      const title = parseTitle(body.title, 'title')
+      if (!title.ok) throw new ValidationError(title.error, { field: title.field })
+      changes.title = title.value
+    }
+
+    if (body.messages !== undefined) {
+      const messages = parseMessages(body.messages, 'messages')
+      if (!messages.ok) throw new ValidationError(messages.error, { field: messages.field })
+      changes.messages = messages.value.map(deserializeMessage)
+    }
+
+    if (body.titleGenerated !== undefined) {
+      if (typeof body.titleGenerated !== 'boolean') {
+        throw new ValidationError("'titleGenerated' must be a boolean.", { field: 'titleGenerated' })
+      }
+      changes.titleGenerated = body.titleGenerated
+    }
+
+    const conversation = await getServerConversationStore(user.id).update(id, changes)
+    if (!conversation) throw new AppError('not_found', { message: 'Conversation not found' })
+
+    return Response.json(serializeConversation(conversation))
+  } catch (error) {
+    return errorResponse(error, { route, userId: user.id })
+  }
+}
+
+//* Delete a conversation
+export async function DELETE(req: Request, { params }: RouteContext) {
+  const route = 'DELETE /api/conversations/[id]'
+  const user = await getSessionUser(req)
+  if (!user) return errorResponse(new AppError('unauthenticated'), { route })
+
+  const { id } = await params
+
+  try {
+    await getServerConversationStore(user.id).delete(id)
+    //* Drop the chat route's summary and food memory for it too
+    await getServerConversationContextStore(user.id).delete(id)
+    return new Response(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error, { route, userId: user.id })
+  }
+}
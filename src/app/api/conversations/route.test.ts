@@ -0,0 +1,81 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createSessionToken, SESSION_COOKIE } from '@/lib/auth/session'
+
+//* Stores write to a scratch directory, read from DATA_DIR when the routes are imported
+const dataDir = mkdtempSync(path.join(tmpdir(), 'nic-conversations-'))
+
+async function loadRoutes() {
+  vi.resetModules()
+  vi.stubEnv('DATA_DIR', dataDir)
+  return { list: await import('./route'), single: await import('./[id]/route') }
+}
+
+async function request(method: string, url: string, body: unknown) {
+  const token = await createSessionToken({ id: 'test-user', email: 'test@example.com' })
+  return new Request(`http://localhost${url}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', Cookie: `${SESSION_COOKIE}=${token}` },
+    body: JSON.stringify(body),
+  })
+}
+
+const message = { id: 'm1', role: 'user', content: 'Hi', timestamp: '2025-01-31T12:00:00.000Z' }
+const manyMessages = Array.from({ length: 1001 }, (_, i) => ({ ...message, id: `m${i}` }))
+
+beforeEach(() => {
+  rmSync(path.join(dataDir, 'users'), { recursive: true, force: true })
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterAll(() => {
+  vi.unstubAllEnvs()
+  rmSync(dataDir, { recursive: true, force: true })
+})
+
+describe('POST /api/conversations', () => {
+  it.each([
+    ['a null message', { messages: [null] }, 'messages[0].id'],
+    ['a message without content', { messages: [{ ...message, content: undefined }] }, 'messages[0].content'],
+    ['a bad timestamp', { messages: [{ ...message, timestamp: 'yesterday' }] }, 'messages[0].timestamp'],
+    ['too many messages', { messages: manyMessages }, 'messages'],
+    ['an overlong title', { title: 'x'.repeat(201) }, 'title'],
+  ])('rejects %s with a 400', async (_, changes, field) => {
+    const { list } = await loadRoutes()
+    const res = await list.POST(await request('POST', '/api/conversations', { id: 'c1', title: 'Lunch', ...changes }))
+
+    expect(res.status).toBe(400)
+    expect(await res.json()).toMatchObject({ field })
+  })
+
+  it('creates a conversation with defaults for messages and createdAt', async () => {
+    const { list } = await loadRoutes()
+    const res = await list.POST(await request('POST', '/api/conversations', { id: 'c1', title: '  Lunch  ' }))
+
+    expect(res.status).toBe(201)
+    expect(await res.json()).toMatchObject({ id: 'c1', title: 'Lunch', messages: [] })
+  })
+})
+
+describe('PATCH /api/conversations/[id]', () => {
+  it('validates replaced messages before saving them', async () => {
+    const { list, single } = await loadRoutes()
+    await list.POST(await request('POST', '/api/conversations', { id: 'c1', title: 'Lunch' }))
+    const params = Promise.resolve({ id: 'c1' })
+
+    const bad = await single.PATCH(await request('PATCH', '/api/conversations/c1', { messages: [{ id: 'm1' }] }), {
+      params,
+    })
+    expect(bad.status).toBe(400)
+    expect(await bad.json()).toMatchObject({ field: 'messages[0].role' })
+
+    const good = await single.PATCH(await request('PATCH', '/api/conversations/c1', { messages: [message] }), {
+      params,
+    })
+    expect(good.status).toBe(200)
+    expect(await good.json()).toMatchObject({ messages: [message] })
+  })
+})
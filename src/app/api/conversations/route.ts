@@ -0,0 +1,46 @@
+import { getSessionUser } from '@/lib/auth/session'
+import { parseStoredConversation } from '@/lib/conversations/import'
+import { getServerConversationStore } from '@/lib/conversations/server-store'
+import { deserializeConversation, serializeConversation } from '@/lib/conversations/serialize'
+import { AppError, ValidationError } from '@/lib/errors'
+import { errorResponse } from '@/lib/errors/server'
+
+export const runtime = 'nodejs'
+
+//* List all stored conversations, newest first
+export async function GET(req: Request) {
+  const route = 'GET /api/conversations'
+  const user = await getSessionUser(req)
+  if (!user) return errorResponse(new AppError('unauthenticated'), { route })
+
+  try {
+    const conversations = await getServerConversationStore(user.id).list()
+    return Response.json(conversations.map(serializeConversation))
+  } catch (error) {
+    return errorResponse(error, { route, userId: user.id })
+  }
+}
+
+//* Create a conversation
+export async function POST(req: Request) {
+  const route = 'POST /api/conversations'
+  const user = await getSessionUser(req)
+  if (!user) return errorResponse(new AppError('unauthenticated'), { route })
+
+  try {
+    const body = await req.json()
+    //* Same checks as an imported file; messages and createdAt may be left out of a new conversation
+    const parsed = parseStoredConversation({
+      messages: [],
+      createdAt: new Date().toISOString(),
+      ...(typeof body === 'object' && body !== null ? body : {}),
+    })
+    if (!parsed.ok) throw new ValidationError(parsed.error, { field: parsed.field })
+
+    const conversation = await getServerConversationStore(user.id).create(deserializeConversation(parsed.value))
+
+    return Response.json(serializeConversation(conversation), { status: 201 })
+  } catch (error) {
+    return errorResponse(error, { route, userId: user.id })
+  }
+}
@@ -0,0 +1,50 @@
+import { getSessionUser } from '@/lib/auth/session'
+import { AppError, ValidationError } from '@/lib/errors'
+import { errorResponse } from '@/lib/errors/server'
+import { parseGroceryList } from '@/lib/grocery'
+import { getServerGroceryListStore } from '@/lib/grocery/server-store'
+
+export const runtime = 'nodejs'
+
+//* The user's grocery list as raw entries per source; the browser merges them for display
+export async function GET(req: Request) {
+  const route = 'GET /api/grocery-list'
+  const user = await getSessionUser(req)
+  if (!user) return errorResponse(new AppError('unauthenticated'), { route })
+
+  try {
+    return Response.json(await getServerGroceryListStore(user.id).get())
+  } catch (error) {
+    return errorResponse(error, { route, userId: user.id })
+  }
+}
+
+//* Replace the list, e.g. after adding a source or checking an item off
+export async function PUT(req: Request) {
+  const route = 'PUT /api/grocery-list'
+  const user = await getSessionUser(req)
+  if (!user) return errorResponse(new AppError('unauthenticated'), { route })
+
+  try {
+    const parsed = parseGroceryList(await req.json())
+    if (!parsed.ok) throw new ValidationError(parsed.error, { field: parsed.field })
+
+    return Response.json(await getServerGroceryListStore(user.id).save(parsed.value))
+  } catch (error) {
+    return errorResponse(error, { route, userId: user.id })
+  }
+}
+
+//* Start over with an empty list
+export async function DELETE(req: Request) {
+  const route = 'DELETE /api/grocery-list'
+  const user = await getSessionUser(req)
+  if (!user) return errorResponse(new AppError('unauthenticated'), { route })
+
+  try {
+    await getServerGroceryListStore(user.id).clear()
+    return new Response(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error, { route, userId: user.id })
+  }
+}
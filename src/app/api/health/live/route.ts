@@ -0,0 +1,9 @@
+export const dynamic = 'force-dynamic'
+
+//* Liveness: the process is up and serving requests. Checks no dependencies, so a flaky upstream
+//* never gets the app restarted.
+export async function GET() {
+  return new Response(JSON.stringify({ status: 'ok' }), {
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+  })
+}
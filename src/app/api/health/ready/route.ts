@@ -0,0 +1,18 @@
+import { getHealthReport } from '@/lib/health/server'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+//* Readiness: 503 until the LLM provider, FDC and storage all respond. Public, so it only reports statuses.
+export async function GET() {
+  const report = await getHealthReport()
+  const body = {
+    status: report.status,
+    checks: report.checks.map(({ name, status }) => ({ name, status })),
+  }
+
+  return new Response(JSON.stringify(body), {
+    status: report.status === 'down' ? 503 : 200,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+  })
+}
@@ -0,0 +1,14 @@
+import { getHealthReport } from '@/lib/health/server'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+//* Full diagnostics for signed-in users: every dependency check with latency, plus version info.
+//* Responds 503 when a dependency is down so monitors can alert on status alone.
+export async function GET() {
+  const report = await getHealthReport()
+  return new Response(JSON.stringify(report), {
+    status: report.status === 'down' ? 503 : 200,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+  })
+}
@@ -0,0 +1,50 @@
+import { getSessionUser } from '@/lib/auth/session'
+import { AppError, ValidationError } from '@/lib/errors'
+import { errorResponse } from '@/lib/errors/server'
+import { parseLogEntryUpdate } from '@/lib/log'
+import { getServerFoodLogStore } from '@/lib/log/server-store'
+
+export const runtime = 'nodejs'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+//* Move an entry to another date or meal, rename it, or change the amount
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const route = 'PATCH /api/log/[id]'
+  const user = await getSessionUser(req)
+  if (!user) return errorResponse(new AppError('unauthenticated'), { route })
+
+  const { id } = await params
+
+  try {
+    const parsed = parseLogEntryUpdate(await req.json())
+    if (!parsed.ok) throw new ValidationError(parsed.error)
+
+    const entry = await getServerFoodLogStore(user.id).update(id, parsed.value)
+    if (!entry) throw new AppError('not_found', { message: 'Log entry not found' })
+
+    return Response.json(entry)
+  } catch (error) {
+    return errorResponse(error, { route, userId: user.id })
+  }
+}
+
+//* Delete an entry
+export async function DELETE(req: Request, { params }: RouteContext) {
+  const route = 'DELETE /api/log/[id]'
+  const user = await getSessionUser(req)
+  if (!user) return errorResponse(new AppError('unauthenticated'), { route })
+
+  const { id } = await params
+
+  try {
+    if (!(await getServerFoodLogStore(user.id).delete(id))) {
+      throw new AppError('not_found', { message: 'Log entry not found' })
+    }
+    return new Response(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error, { route, userId: user.id })
+  }
+}
@@ -0,0 +1,45 @@
+import { getSessionUser } from '@/lib/auth/session'
+import { AppError, ValidationError } from '@/lib/errors'
+import { errorResponse } from '@/lib/errors/server'
+import { isLogDate, parseNewLogEntry } from '@/lib/log'
+import { getServerFoodLogStore } from '@/lib/log/server-store'
+
+export const runtime = 'nodejs'
+
+//* List log entries for ?date=YYYY-MM-DD or an inclusive ?from=&to= range
+export async function GET(req: Request) {
+  const route = 'GET /api/log'
+  const user = await getSessionUser(req)
+  if (!user) return errorResponse(new AppError('unauthenticated'), { route })
+
+  const { searchParams } = new URL(req.url)
+  const date = searchParams.get('date')
+  const from = date ?? searchParams.get('from')
+  const to = date ?? searchParams.get('to')
+
+  try {
+    if (!isLogDate(from) || !isLogDate(to)) {
+      throw new ValidationError("Provide 'date' or 'from' and 'to' as YYYY-MM-DD.", { field: date ? 'date' : 'from' })
+    }
+
+    return Response.json(await getServerFoodLogStore(user.id).list({ from, to }))
+  } catch (error) {
+    return errorResponse(error, { route, userId: user.id })
+  }
+}
+
+//* Log a food, usually one the chat already looked up in FDC
+export async function POST(req: Request) {
+  const route = 'POST /api/log'
+  const user = await getSessionUser(req)
+  if (!user) return errorResponse(new AppError('unauthenticated'), { route })
+
+  try {
+    const parsed = parseNewLogEntry(await req.json())
+    if (!parsed.ok) throw new ValidationError(parsed.error)
+
+    return Response.json(await getServerFoodLogStore(user.id).add(parsed.value), { status: 201 })
+  } catch (error) {
+    return errorResponse(error, { route, userId: user.id })
+  }
+}
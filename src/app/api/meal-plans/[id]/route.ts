@@ -0,0 +1,45 @@
+import { getSessionUser } from '@/lib/auth/session'
+import { AppError } from '@/lib/errors'
+import { errorResponse } from '@/lib/errors/server'
+import { getServerMealPlanStore } from '@/lib/meal-plans/server-store'
+
+export const runtime = 'nodejs'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+//* Fetch one saved plan
+export async function GET(req: Request, { params }: RouteContext) {
+  const route = 'GET /api/meal-plans/[id]'
+  const user = await getSessionUser(req)
+  if (!user) return errorResponse(new AppError('unauthenticated'), { route })
+
+  const { id } = await params
+
+  try {
+    const plan = await getServerMealPlanStore(user.id).get(id)
+    if (!plan) throw new AppError('not_found', { message: 'Meal plan not found' })
+    return Response.json(plan)
+  } catch (error) {
+    return errorResponse(error, { route, userId: user.id })
+  }
+}
+
+//* Delete a saved plan
+export async function DELETE(req: Request, { params }: RouteContext) {
+  const route = 'DELETE /api/meal-plans/[id]'
+  const user = await getSessionUser(req)
+  if (!user) return errorResponse(new AppError('unauthenticated'), { route })
+
+  const { id } = await params
+
+  try {
+    if (!(await getServerMealPlanStore(user.id).delete(id))) {
+      throw new AppError('not_found', { message: 'Meal plan not found' })
+    }
+    return new Response(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error, { route, userId: user.id })
+  }
+}
@@ -0,0 +1,58 @@
+import { getSessionUser } from '@/lib/auth/session'
+import { AppError, FoodDataError, ValidationError } from '@/lib/errors'
+import { errorResponse } from '@/lib/errors/server'
+import { getLLMProvider, isLLMConfigured } from '@/lib/llm'
+import { parseMealPlanRequest, resolvePlanTargets } from '@/lib/meal-plans'
+import { exclusionRules, generateMealPlan } from '@/lib/meal-plans/generate'
+import { getServerMealPlanStore } from '@/lib/meal-plans/server-store'
+import { getFoodSource } from '@/lib/nutrition/server'
+import { computeDailyTargets, describeProfile } from '@/lib/profile'
+import { getServerProfileStore } from '@/lib/profile/server-store'
+import { rulesForProfile } from '@/lib/safety'
+
+//* Node runtime so the FDC cache and offline dataset can use the filesystem
+export const runtime = 'nodejs'
+//* Up to three model rounds plus FDC lookups for every meal
+export const maxDuration = 120
+
+const ROUTE = 'POST /api/meal-plans/generate'
+
+//* Generate an N-day plan against the saved profile's targets and restrictions, verify it with FDC data, and save it
+export async function POST(req: Request) {
+  const user = await getSessionUser(req)
+  if (!user) return errorResponse(new AppError('unauthenticated'), { route: ROUTE })
+
+  try {
+    const parsed = parseMealPlanRequest(await req.json())
+    if (!parsed.ok) throw new ValidationError(parsed.error, { field: parsed.field })
+    const request = parsed.value
+
+    if (!isLLMConfigured()) throw new AppError('not_configured', { cause: new Error('Missing LLM API key') })
+    const source = await getFoodSource().catch((error) => {
+      throw new FoodDataError({ cause: error })
+    })
+    if (!source) throw new AppError('not_configured', { cause: new Error('Missing FDC API key or dataset') })
+
+    const profile = await getServerProfileStore(user.id).get()
+    const dailyTargets = computeDailyTargets(profile)
+    const targets = resolvePlanTargets(dailyTargets, request.targets)
+    const restrictions = [
+      ...(profile ? rulesForProfile(profile.allergies, profile.dietType) : []),
+      ...exclusionRules(request.exclude),
+    ]
+
+    const plan = await generateMealPlan({
+      llm: getLLMProvider(),
+      source,
+      request,
+      targets,
+      restrictions,
+      profile: profile ? describeProfile(profile, { ...dailyTargets, ...targets }) : undefined,
+      signal: req.signal,
+    })
+
+    return Response.json(await getServerMealPlanStore(user.id).add(plan), { status: 201 })
+  } catch (error) {
+    return errorResponse(error, { route: ROUTE, userId: user.id })
+  }
+}
@@ -0,0 +1,20 @@
+import { getSessionUser } from '@/lib/auth/session'
+import { AppError } from '@/lib/errors'
+import { errorResponse } from '@/lib/errors/server'
+import { getServerMealPlanStore } from '@/lib/meal-plans/server-store'
+
+export const runtime = 'nodejs'
+
+const ROUTE = 'GET /api/meal-plans'
+
+//* List the user's saved meal plans, newest first
+export async function GET(req: Request) {
+  const user = await getSessionUser(req)
+  if (!user) return errorResponse(new AppError('unauthenticated'), { route: ROUTE })
+
+  try {
+    return Response.json(await getServerMealPlanStore(user.id).list())
+  } catch (error) {
+    return errorResponse(error, { route: ROUTE, userId: user.id })
+  }
+}
@@ -0,0 +1,50 @@
+import { getSessionUser } from '@/lib/auth/session'
+import { AppError, ValidationError } from '@/lib/errors'
+import { errorResponse } from '@/lib/errors/server'
+import { parseProfileUpdate } from '@/lib/profile'
+import { getServerProfileStore } from '@/lib/profile/server-store'
+
+export const runtime = 'nodejs'
+
+//* The signed-in user's dietary profile, or null if they haven't saved one
+export async function GET(req: Request) {
+  const route = 'GET /api/profile'
+  const user = await getSessionUser(req)
+  if (!user) return errorResponse(new AppError('unauthenticated'), { route })
+
+  try {
+    return Response.json({ profile: await getServerProfileStore(user.id).get() })
+  } catch (error) {
+    return errorResponse(error, { route, userId: user.id })
+  }
+}
+
+//* Replace the profile
+export async function PUT(req: Request) {
+  const route = 'PUT /api/profile'
+  const user = await getSessionUser(req)
+  if (!user) return errorResponse(new AppError('unauthenticated'), { route })
+
+  try {
+    const parsed = parseProfileUpdate(await req.json())
+    if (!parsed.ok) throw new ValidationError(parsed.error, { field: parsed.field })
+
+    return Response.json({ profile: await getServerProfileStore(user.id).save(parsed.value) })
+  } catch (error) {
+    return errorResponse(error, { route, userId: user.id })
+  }
+}
+
+//* Forget the profile
+export async function DELETE(req: Request) {
+  const route = 'DELETE /api/profile'
+  const user = await getSessionUser(req)
+  if (!user) return errorResponse(new AppError('unauthenticated'), { route })
+
+  try {
+    await getServerProfileStore(user.id).clear()
+    return new Response(null, { status: 204 })
+  } catch (error) {
+    return errorResponse(error, { route, userId: user.id })
+  }
+}
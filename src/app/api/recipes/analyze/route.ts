@@ -0,0 +1,35 @@
+import { getSessionUser } from '@/lib/auth/session'
+import { AppError, FoodDataError, ValidationError } from '@/lib/errors'
+import { errorResponse } from '@/lib/errors/server'
+import { getFoodSource } from '@/lib/nutrition/server'
+import { computeDailyTargets } from '@/lib/profile'
+import { getServerProfileStore } from '@/lib/profile/server-store'
+import { analyzeRecipe, parseRecipeRequest } from '@/lib/recipes'
+
+//* Node runtime so the FDC cache and offline dataset can use the filesystem
+export const runtime = 'nodejs'
+export const maxDuration = 60
+
+const ROUTE = 'POST /api/recipes/analyze'
+
+//* Analyze a pasted recipe ({ text }) or a corrected one ({ recipe }) into total and per-serving nutrition
+//* Percent daily values follow the user's saved profile, like the food log
+export async function POST(req: Request) {
+  const user = await getSessionUser(req)
+  if (!user) return errorResponse(new AppError('unauthenticated'), { route: ROUTE })
+
+  try {
+    const parsed = parseRecipeRequest(await req.json())
+    if (!parsed.ok) throw new ValidationError(parsed.error, { field: parsed.field })
+
+    const source = await getFoodSource().catch((error) => {
+      throw new FoodDataError({ cause: error })
+    })
+    if (!source) throw new AppError('not_configured', { cause: new Error('Missing FDC API key or dataset') })
+
+    const profile = await getServerProfileStore(user.id).get()
+    return Response.json(await analyzeRecipe(parsed.value, source, computeDailyTargets(profile)))
+  } catch (error) {
+    return errorResponse(error, { route: ROUTE, userId: user.id })
+  }
+}
@@ -0,0 +1,240 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { AlertCircle, ArrowLeft, Download, Trash2, X } from "lucide-react"
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { cn } from "@/lib/utils"
+import { downloadFile } from "@/lib/download"
+import { presentError, type ErrorPresentation } from "@/lib/errors"
+import {
+  AISLES,
+  GROCERY_DRAFT_KEY,
+  addToGroceryList,
+  draftFromPlan,
+  emptyGroceryList,
+  formatGroceryAmounts,
+  groceryClient,
+  groceryItems,
+  groceryListToCSV,
+  groceryListToText,
+  removeGroceryItem,
+  removeGrocerySource,
+  toggleGroceryItem,
+  type GroceryDraft,
+  type GroceryList,
+} from "@/lib/grocery"
+import { mealPlanClient, type MealPlan } from "@/lib/meal-plans"
+
+function toPresentation(err: unknown) {
+  return presentError(err instanceof Error ? err : new Error(String(err)))
+}
+
+function readDraft(): GroceryDraft | null {
+  const raw = sessionStorage.getItem(GROCERY_DRAFT_KEY)
+  if (!raw) return null
+  sessionStorage.removeItem(GROCERY_DRAFT_KEY)
+  try {
+    return JSON.parse(raw) as GroceryDraft
+  } catch {
+    return null
+  }
+}
+
+export default function GroceryListPage() {
+  const [list, setList] = useState<GroceryList>(() => emptyGroceryList())
+  const [plans, setPlans] = useState<MealPlan[]>([])
+  const [isLoading, setIsLoading] = useState<boolean>(true)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [error, setError] = useState<ErrorPresentation | null>(null)
+
+  // Changes show immediately and are saved whole; a failed save reloads the server's copy
+  const save = async (next: GroceryList) => {
+    setList(next)
+    setError(null)
+    try {
+      setList(await groceryClient.save(next))
+    } catch (err) {
+      setError(toPresentation(err))
+      groceryClient.get().then(setList).catch(() => {})
+    }
+  }
+
+  useEffect(() => {
+    // Ingredients handed over by the chat or the meal plans page are added once on arrival
+    const draft = readDraft()
+
+    groceryClient
+      .get()
+      .then(async (saved) => {
+        if (!draft || draft.entries.length === 0) {
+          setList(saved)
+          if (draft) setNotice("No ingredient amounts were found in the selected messages.")
+          return
+        }
+        setNotice(`Added ${draft.entries.length} ingredients from ${draft.sources.map((source) => source.label).join(", ")}.`)
+        setList(await groceryClient.save(addToGroceryList(saved, draft)))
+      })
+      .catch((err) => setError(toPresentation(err)))
+      .finally(() => setIsLoading(false))
+
+    mealPlanClient
+      .list()
+      .then(setPlans)
+      .catch((err) => console.error("Failed to load meal plans:", err))
+  }, [])
+
+  const items = useMemo(() => groceryItems(list), [list])
+  const remaining = items.filter((item) => !item.checked).length
+
+  const addPlan = (id: string) => {
+    const plan = plans.find((entry) => entry.id === id)
+    if (plan) save(addToGroceryList(list, draftFromPlan(plan)))
+  }
+
+  const clear = async () => {
+    try {
+      await groceryClient.clear()
+      setList(emptyGroceryList())
+      setNotice(null)
+    } catch (err) {
+      setError(toPresentation(err))
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="flex items-center gap-4 px-4 h-14 border-b">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/">
+            <ArrowLeft size={20} />
+            <span className="sr-only">Back to chat</span>
+          </Link>
+        </Button>
+        <h1 className="text-xl font-bold">Grocery list</h1>
+      </header>
+
+      <div className="max-w-3xl mx-auto p-4 space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {plans.length > 0 && (
+            <Select value="" onValueChange={addPlan}>
+              <SelectTrigger className="w-56" aria-label="Add a meal plan">
+                <SelectValue placeholder="Add a meal plan" />
+              </SelectTrigger>
+              <SelectContent>
+                {plans.map((plan) => (
+                  <SelectItem key={plan.id} value={plan.id}>
+                    {draftFromPlan(plan).sources[0].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button
+            variant="outline"
+            disabled={items.length === 0}
+            onClick={() => downloadFile("grocery-list.txt", groceryListToText(items), "text/plain")}
+          >
+            <Download className="h-4 w-4" />
+            Text
+          </Button>
+          <Button
+            variant="outline"
+            disabled={items.length === 0}
+            onClick={() => downloadFile("grocery-list.csv", groceryListToCSV(items), "text/csv")}
+          >
+            <Download className="h-4 w-4" />
+            CSV
+          </Button>
+          <Button variant="ghost" className="ml-auto" disabled={list.sources.length === 0} onClick={clear}>
+            <Trash2 className="h-4 w-4" />
+            Clear list
+          </Button>
+        </div>
+
+        {notice && <p className="text-sm text-muted-foreground">{notice}</p>}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>{error.title}</AlertTitle>
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {list.sources.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {list.sources.map((source) => (
+              <span key={source.id} className="flex items-center gap-1 rounded-full border px-3 py-1 text-xs">
+                {source.label}
+                <button
+                  type="button"
+                  className="text-muted-foreground hover:text-foreground"
+                  onClick={() => save(removeGrocerySource(list, source.id))}
+                >
+                  <X className="h-3 w-3" />
+                  <span className="sr-only">Remove {source.label}</span>
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
+        {items.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {remaining} of {items.length} items left
+          </p>
+        )}
+
+        {AISLES.map((aisle) => {
+          const inAisle = items.filter((item) => item.aisle === aisle)
+          if (inAisle.length === 0) return null
+
+          return (
+            <Card key={aisle}>
+              <CardHeader>
+                <CardTitle>{aisle}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1">
+                {inAisle.map((item) => (
+                  <div key={item.key} className="flex items-center gap-3 border-b py-1 last:border-b-0">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-primary"
+                      checked={item.checked}
+                      onChange={() => save(toggleGroceryItem(list, item.key))}
+                      aria-label={`Got ${item.name}`}
+                    />
+                    <div className={cn("flex-1 min-w-0", item.checked && "line-through text-muted-foreground")}>
+                      <div className="text-sm">
+                        {item.name}
+                        {item.amounts.length > 0 && (
+                          <span className="text-muted-foreground"> · {formatGroceryAmounts(item.amounts)}</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-muted-foreground truncate">{item.sources.join(", ")}</div>
+                    </div>
+                    <Button variant="ghost" size="icon" onClick={() => save(removeGroceryItem(list, item.key))}>
+                      <X className="h-4 w-4" />
+                      <span className="sr-only">Remove {item.name}</span>
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )
+        })}
+
+        {!isLoading && items.length === 0 && (
+          <p className="text-center text-sm text-muted-foreground py-6">
+            The list is empty. Select answers with recipes in the chat, or add a meal plan.
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
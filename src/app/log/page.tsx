@@ -0,0 +1,266 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { AlertCircle, ArrowLeft, ChevronLeft, ChevronRight, Trash2 } from "lucide-react"
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { TargetProgress } from "@/components/target-progress"
+import { cn } from "@/lib/utils"
+import {
+  MEALS,
+  addDays,
+  dailyTotals,
+  foodLogClient,
+  startOfWeek,
+  targetProgress,
+  toLogDate,
+  weeklyTotals,
+  type LogEntry,
+  type Meal,
+} from "@/lib/log"
+import { NUTRIENT_DEFINITIONS, type NutrientKey } from "@/lib/nutrition"
+import { computeDailyTargets, loadProfile, type DailyTargets } from "@/lib/profile"
+
+const TRACKED: NutrientKey[] = ["calories", "protein", "carbohydrate", "fat", "fiber", "sodium"]
+
+const DEFINITIONS = Object.fromEntries(NUTRIENT_DEFINITIONS.map((definition) => [definition.key, definition]))
+
+function formatDate(logDate: string) {
+  const [year, month, day] = logDate.split("-").map(Number)
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  })
+}
+
+export default function FoodLogPage() {
+  const [date, setDate] = useState<string>(() => toLogDate(new Date()))
+  const [entries, setEntries] = useState<LogEntry[]>([])
+  const [targets, setTargets] = useState<DailyTargets>(() => computeDailyTargets(null))
+  const [isLoading, setIsLoading] = useState<boolean>(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const weekStart = startOfWeek(date)
+
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      setEntries(await foodLogClient.list(weekStart, addDays(weekStart, 6)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load food log")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [weekStart])
+
+  useEffect(() => {
+    loadProfile()
+      .then((profile) => setTargets(computeDailyTargets(profile)))
+      .catch((err) => console.error("Failed to load profile:", err))
+  }, [])
+
+  useEffect(() => {
+    loadEntries()
+  }, [loadEntries])
+
+  const updateEntry = async (id: string, changes: { meal?: Meal; grams?: number }) => {
+    try {
+      const updated = await foodLogClient.update(id, changes)
+      setEntries((prev) => prev.map((entry) => (entry.id === id ? updated : entry)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update entry")
+    }
+  }
+
+  const deleteEntry = async (id: string) => {
+    try {
+      await foodLogClient.delete(id)
+      setEntries((prev) => prev.filter((entry) => entry.id !== id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete entry")
+    }
+  }
+
+  const today = dailyTotals(entries, date)
+  const week = weeklyTotals(entries, weekStart)
+  const todayProgress = targetProgress(today.totals, targets)
+  const dayEntries = entries.filter((entry) => entry.date === date)
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="flex items-center gap-4 px-4 h-14 border-b">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/">
+            <ArrowLeft size={20} />
+            <span className="sr-only">Back to chat</span>
+          </Link>
+        </Button>
+        <h1 className="text-xl font-bold">Food log</h1>
+      </header>
+
+      <div className="max-w-3xl mx-auto p-4 space-y-4">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => setDate(addDays(date, -1))}>
+            <ChevronLeft className="h-4 w-4" />
+            <span className="sr-only">Previous day</span>
+          </Button>
+          <Input
+            type="date"
+            className="w-auto"
+            value={date}
+            onChange={(e) => e.target.value && setDate(e.target.value)}
+          />
+          <Button variant="outline" size="icon" onClick={() => setDate(addDays(date, 1))}>
+            <ChevronRight className="h-4 w-4" />
+            <span className="sr-only">Next day</span>
+          </Button>
+          <Button variant="ghost" onClick={() => setDate(toLogDate(new Date()))}>
+            Today
+          </Button>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{formatDate(date)}</CardTitle>
+            <CardDescription>
+              {today.entries} {today.entries === 1 ? "entry" : "entries"}
+              {todayProgress.calories !== undefined && ` · ${Math.round(todayProgress.calories * 100)}% of calorie target`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {TRACKED.map((nutrient) => (
+              <TargetProgress
+                key={nutrient}
+                nutrient={nutrient}
+                value={today.totals[nutrient] ?? 0}
+                target={targets[nutrient]}
+              />
+            ))}
+          </CardContent>
+        </Card>
+
+        {MEALS.map((meal) => {
+          const mealEntries = dayEntries.filter((entry) => entry.meal === meal)
+          if (mealEntries.length === 0) return null
+
+          return (
+            <Card key={meal}>
+              <CardHeader>
+                <CardTitle className="capitalize">{meal}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {mealEntries.map((entry) => (
+                  <div key={entry.id} className="flex flex-wrap items-center gap-2 border-b pb-2 last:border-b-0">
+                    <div className="flex-1 min-w-40">
+                      <div className="text-sm font-medium">{entry.item}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {entry.food.description} · {Math.round(entry.nutrients.calories ?? 0)} kcal
+                      </div>
+                    </div>
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-24"
+                      defaultValue={Math.round(entry.grams)}
+                      aria-label="Grams"
+                      onBlur={(e) => {
+                        const grams = Number(e.target.value)
+                        if (grams > 0 && grams !== Math.round(entry.grams)) updateEntry(entry.id, { grams })
+                      }}
+                    />
+                    <span className="text-sm text-muted-foreground">g</span>
+                    <Select value={entry.meal} onValueChange={(value) => updateEntry(entry.id, { meal: value as Meal })}>
+                      <SelectTrigger className="w-32 capitalize">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {MEALS.map((option) => (
+                          <SelectItem key={option} value={option} className="capitalize">
+                            {option}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="ghost" size="icon" onClick={() => deleteEntry(entry.id)}>
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Delete</span>
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )
+        })}
+
+        {!isLoading && dayEntries.length === 0 && (
+          <p className="text-center text-sm text-muted-foreground py-6">
+            Nothing logged for this day. Use &quot;Log this&quot; on a nutrition label in the chat to add foods.
+          </p>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Week of {formatDate(weekStart)}</CardTitle>
+            <CardDescription>
+              Daily average on logged days: {Math.round(week.dailyAverage.calories ?? 0)} kcal,{" "}
+              {Math.round(week.dailyAverage.protein ?? 0)} g protein
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-1 font-medium">Day</th>
+                  {TRACKED.map((nutrient) => (
+                    <th key={nutrient} className="py-1 font-medium text-right">
+                      {DEFINITIONS[nutrient].label.replace("Total ", "")}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {week.days.map((day) => (
+                  <tr
+                    key={day.date}
+                    className={cn("border-t cursor-pointer hover:bg-muted/50", day.date === date && "font-medium")}
+                    onClick={() => setDate(day.date)}
+                  >
+                    <td className="py-1">{formatDate(day.date)}</td>
+                    {TRACKED.map((nutrient) => (
+                      <td key={nutrient} className="py-1 text-right">
+                        {day.entries > 0 ? Math.round(day.totals[nutrient] ?? 0) : "-"}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+                <tr className="border-t font-medium">
+                  <td className="py-1">Target</td>
+                  {TRACKED.map((nutrient) => (
+                    <td key={nutrient} className="py-1 text-right">
+                      {targets[nutrient] !== undefined ? Math.round(targets[nutrient]!) : "-"}
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { AlertCircle, Mail } from "lucide-react"
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { authClient } from "@/lib/auth"
+
+type Mode = "signin" | "register" | "link"
+
+const MODES: { value: Mode; label: string }[] = [
+  { value: "signin", label: "Sign in" },
+  { value: "register", label: "Create account" },
+  { value: "link", label: "Email link" },
+]
+
+const ERRORS: Record<string, string> = {
+  "invalid-link": "That sign-in link is invalid or has expired. Request a new one.",
+}
+
+// Only follow same-site paths after signing in
+function safeNext(value: string | null) {
+  return value && value.startsWith("/") && !value.startsWith("//") ? value : "/"
+}
+
+export default function LoginPage() {
+  const [mode, setMode] = useState<Mode>("signin")
+  const [email, setEmail] = useState<string>("")
+  const [password, setPassword] = useState<string>("")
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false)
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null)
+  const router = useRouter()
+
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get("error")
+    if (code) setError(ERRORS[code] ?? "Sign-in failed")
+  }, [])
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setError(null)
+    setIsSubmitting(true)
+
+    try {
+      if (mode === "link") {
+        await authClient.requestMagicLink(email)
+        setLinkSentTo(email)
+        return
+      }
+
+      if (mode === "register") await authClient.register(email, password)
+      else await authClient.login(email, password)
+
+      router.replace(safeNext(new URLSearchParams(window.location.search).get("next")))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sign-in failed")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-foreground flex items-center justify-center p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>NIC - Nutritional Information Chatbot</CardTitle>
+          <CardDescription>Sign in to keep your conversations, profile and food log private.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-3 gap-1 rounded-md bg-muted p-1">
+            {MODES.map((option) => (
+              <Button
+                key={option.value}
+                type="button"
+                size="sm"
+                variant={mode === option.value ? "secondary" : "ghost"}
+                onClick={() => {
+                  setMode(option.value)
+                  setError(null)
+                  setLinkSentTo(null)
+                }}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Error</AlertTitle>
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {linkSentTo ? (
+            <Alert>
+              <Mail className="h-4 w-4" />
+              <AlertTitle>Check your email</AlertTitle>
+              <AlertDescription>We sent a sign-in link to {linkSentTo}. It expires in 15 minutes.</AlertDescription>
+            </Alert>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-3">
+              <label className="flex flex-col gap-1.5 text-sm font-medium">
+                Email
+                <Input
+                  type="email"
+                  autoComplete="email"
+                  required
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+              </label>
+              {mode !== "link" && (
+                <label className="flex flex-col gap-1.5 text-sm font-medium">
+                  Password
+                  <Input
+                    type="password"
+                    autoComplete={mode === "register" ? "new-password" : "current-password"}
+                    required
+                    minLength={mode === "register" ? 8 : undefined}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                </label>
+              )}
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                {mode === "register" ? "Create account" : mode === "link" ? "Send sign-in link" : "Sign in"}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
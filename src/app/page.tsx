@@ -1,7 +1,8 @@
 "use client"
 
 import type React from "react"
-import { useState, useRef, useEffect } from "react"
+import { useState, useRef, useEffect, useMemo } from "react"
+import { useRouter } from "next/navigation"
 import {
   Send,
   User,
@@ -13,8 +14,19 @@ import {
   RefreshCw,
   Settings,
   LogOut,
+  Square,
+  Pencil,
+  NotebookPen,
+  ChefHat,
+  CalendarDays,
+  ShoppingCart,
+  Download,
+  Upload,
+  FileJson,
+  FileText,
+  Printer,
 } from "lucide-react"
-import { useChat, type Message as AIMessage } from "ai/react"
+import { useChat } from "ai/react"
 
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
@@ -26,60 +38,104 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import { cn } from "@/lib/utils"
-
-// Extend the AI SDK Message type with our additional properties
-interface Message extends AIMessage {
-  timestamp: Date
-}
-
-interface Conversation {
-  id: string
-  title: string
-  messages: Message[]
-  createdAt: Date
-  titleGenerated?: boolean
-}
-
-// Helper function to parse/clean the incoming message string
-function parseMessage(message: string): string {
-  try {
-    // Attempt to parse if the message was JSON-stringified on the server
-    return JSON.parse(message)
-  } catch {
-    // Fallback: Remove wrapping quotes (if any) and replace escaped newlines with real newlines
-    if (message.startsWith('"') && message.endsWith('"')) {
-      message = message.substring(1, message.length - 1)
-    }
-    return message.replace(/\\n/g, "\n")
-  }
-}
+import { authClient, type SessionUser } from "@/lib/auth"
+import {
+  addConversation,
+  cleanTitle,
+  CONVERSATION_PRINT_KEY,
+  conversationsToJSON,
+  conversationsToMarkdown,
+  dedupeConversationIds,
+  exportFileName,
+  findConversation,
+  getConversationStore,
+  isConversationFull,
+  newConversation,
+  parseConversationImport,
+  removeConversation,
+  setConversationTitle,
+  sortByNewest,
+  syncMessages,
+  toChatMessages,
+  toConversationExport,
+  updateConversation,
+  type Conversation,
+} from "@/lib/conversations"
+import { downloadFile } from "@/lib/download"
+import { stashForPage } from "@/lib/handoff"
+import { getNutritionPayload, type NutritionPayloadItem } from "@/lib/nutrition"
+import { foodLogClient, toLogDate, type Meal } from "@/lib/log"
+import { Markdown } from "@/components/markdown"
+import { NutritionFacts } from "@/components/nutrition-facts"
+import { SafetyWarning } from "@/components/safety-warning"
+import { StatusPanel } from "@/components/status-panel"
+import { getSafetyReports } from "@/lib/safety"
+import { fetchUsage, type LimitStatus } from "@/lib/rate-limit"
+import { parseApiError, presentError } from "@/lib/errors"
+import { MAX_USER_MESSAGE_CHARS } from "@/lib/chat"
+import { RECIPE_DRAFT_KEY, looksLikeRecipe } from "@/lib/recipes"
+import { GROCERY_DRAFT_KEY, combineDrafts, draftFromMessage } from "@/lib/grocery"
 
 export default function ChatInterface() {
   const [conversations, setConversations] = useState<Conversation[]>([])
   const [activeConversation, setActiveConversation] = useState<string | null>(null)
   const [isSidebarOpen, setIsSidebarOpen] = useState<boolean>(true)
   const [isConversationSwitching, setIsConversationSwitching] = useState<boolean>(false)
+  const [isHydrated, setIsHydrated] = useState<boolean>(false)
+  const [user, setUser] = useState<SessionUser | null>(null)
+  const [dailyUsage, setDailyUsage] = useState<LimitStatus | null>(null)
+  // Assistant answers picked for the grocery list
+  const [groceryMessages, setGroceryMessages] = useState<string[]>([])
+  // Result of the last conversation import, or why an export couldn't open, shown under the sidebar's buttons
+  const [importNotice, setImportNotice] = useState<string | null>(null)
+  // Why the grocery list or recipe analyzer couldn't be opened from the chat
+  const [handoffError, setHandoffError] = useState<string | null>(null)
+  // Seconds until Retry is enabled again after a rate-limited request
+  const [retryDelay, setRetryDelay] = useState<number>(0)
+  const router = useRouter()
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const scrollAreaRef = useRef<HTMLDivElement>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+
+  // Conversations are scoped to the signed-in user, so the store waits for the session
+  const conversationStore = useMemo(() => (user ? getConversationStore(user.id) : null), [user])
 
   // Get the active conversation
   const getActiveConversation = () => {
-    return conversations.find((conv) => conv.id === activeConversation) || null
+    return findConversation(conversations, activeConversation)
+  }
+
+  const refreshUsage = () => {
+    fetchUsage()
+      .then(({ limits }) => setDailyUsage(limits.find((limit) => limit.name === "user-daily") ?? null))
+      .catch((error) => {
+        console.error("Failed to load usage:", error)
+      })
   }
 
   // Initialize AI chat for the current conversation
-  const { messages, input, handleInputChange, handleSubmit, isLoading, setMessages, error, reload } = useChat({
+  const { messages, input, handleInputChange, handleSubmit, isLoading, setMessages, error, reload, stop } = useChat({
     api: "/api/chat",
     id: activeConversation || undefined,
+    body: { conversationId: activeConversation },
     onError: (error) => {
       console.error("Chat error:", error)
+      const presentation = presentError(error)
+      if (presentation.requiresSignIn) {
+        router.replace("/login")
+        return
+      }
+      setRetryDelay(presentation.retryAfter ?? 0)
+      refreshUsage()
     },
     onFinish: () => {
+      refreshUsage()
       if (activeConversation) {
         setConversations((prevConversations) =>
           prevConversations.map((conv) => {
@@ -90,6 +146,16 @@ export default function ChatInterface() {
     },
   })
 
+  const errorPresentation = useMemo(() => (error ? presentError(error) : null), [error])
+  const errorReference = useMemo(() => (error ? parseApiError(error)?.requestId : undefined), [error])
+
+  // Count down to when a rate-limited request may be retried
+  useEffect(() => {
+    if (retryDelay <= 0) return
+    const timer = setTimeout(() => setRetryDelay((seconds) => seconds - 1), 1000)
+    return () => clearTimeout(timer)
+  }, [retryDelay])
+
   useEffect(() => {
     const handleResize = () => {
       if (window.innerWidth < 768) {
@@ -105,21 +171,55 @@ export default function ChatInterface() {
     }
   }, [])
 
+  useEffect(() => {
+    authClient
+      .session()
+      .then((session) => {
+        if (session) {
+          setUser(session)
+          refreshUsage()
+        } else {
+          router.replace("/login")
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to load session:", error)
+      })
+  }, [router])
+
+  // Hydrate the sidebar from the conversation store
+  useEffect(() => {
+    if (!conversationStore) return
+
+    conversationStore
+      .list()
+      .then((stored) => {
+        setConversations(stored)
+        if (stored.length > 0) {
+          setActiveConversation(stored[0].id)
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to load conversations:", error)
+      })
+      .finally(() => {
+        setIsHydrated(true)
+      })
+  }, [conversationStore])
+
   // Scroll to bottom of messages
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
   }, [messages])
 
   const createNewConversation = () => {
-    const newConversation: Conversation = {
-      id: Date.now().toString(),
-      title: "New conversation",
-      messages: [],
-      createdAt: new Date(),
-    }
+    const conversation = newConversation()
 
-    setConversations((prev) => [newConversation, ...prev])
-    setActiveConversation(newConversation.id)
+    setConversations((prev) => addConversation(prev, conversation))
+    setActiveConversation(conversation.id)
+    conversationStore?.create(conversation).catch((error) => {
+      console.error("Failed to save conversation:", error)
+    })
 
     if (activeConversation) {
       setMessages([])
@@ -127,10 +227,10 @@ export default function ChatInterface() {
   }
 
   useEffect(() => {
-    if (conversations.length === 0 && !activeConversation) {
+    if (isHydrated && conversations.length === 0 && !activeConversation) {
       createNewConversation()
     }
-  }, [conversations.length, activeConversation])
+  }, [isHydrated, conversations.length, activeConversation])
 
   useEffect(() => {
     if (activeConversation && !isConversationSwitching) {
@@ -138,13 +238,7 @@ export default function ChatInterface() {
 
       const currentConv = getActiveConversation()
       if (currentConv) {
-        const chatMessages = currentConv.messages.map(({ id, role, content }) => ({
-          id,
-          role,
-          content,
-        }))
-
-        setMessages(chatMessages)
+        setMessages(toChatMessages(currentConv))
 
         setTimeout(() => {
           setIsConversationSwitching(false)
@@ -158,37 +252,36 @@ export default function ChatInterface() {
   useEffect(() => {
     if (activeConversation && !isConversationSwitching && messages.length > 0) {
       setConversations((prevConversations) =>
-        prevConversations.map((conv) => {
-          if (conv.id === activeConversation) {
-            const updatedMessages = messages.map((msg) => ({
-              ...msg,
-              timestamp: new Date(),
-            }))
-
-            let title = conv.title
-            const titleGenerated = conv.titleGenerated || false
-
-            if (conv.messages.length === 0 && messages.length > 0 && messages[0].role === "user" && !titleGenerated) {
-              title = messages[0].content.substring(0, 30) + (messages[0].content.length > 30 ? "..." : "")
-            }
-
-            return {
-              ...conv,
-              title,
-              titleGenerated,
-              messages: updatedMessages,
-            }
-          }
-          return conv
-        }),
+        updateConversation(prevConversations, activeConversation, (conv) => syncMessages(conv, messages)),
       )
     }
   }, [messages, activeConversation, isConversationSwitching])
 
+  // Persist the active conversation once a response has finished streaming
+  useEffect(() => {
+    if (!isHydrated || isLoading || isConversationSwitching) return
+
+    const currentConv = findConversation(conversations, activeConversation)
+    if (conversationStore && currentConv && currentConv.messages.length > 0) {
+      conversationStore
+        .update(currentConv.id, {
+          title: currentConv.title,
+          titleGenerated: currentConv.titleGenerated,
+          messages: currentConv.messages,
+        })
+        .catch((error) => {
+          console.error("Failed to save conversation:", error)
+        })
+    }
+  }, [conversations, activeConversation, isHydrated, isLoading, isConversationSwitching, conversationStore])
+
+  // Full conversations can still be read and exported, but new questions go to a new conversation
+  const conversationFull = isConversationFull(messages.length)
+
   const handleMessageSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault()
 
-    if (!input.trim() || !activeConversation) {
+    if (!input.trim() || !activeConversation || conversationFull) {
       return
     }
 
@@ -219,29 +312,163 @@ export default function ChatInterface() {
   const deleteConversation = (id: string, e: React.MouseEvent) => {
     e.stopPropagation()
 
-    const updatedConversations = conversations.filter((conv) => conv.id !== id)
-    setConversations(updatedConversations)
+    const next = removeConversation(conversations, id, activeConversation)
+    setConversations(next.conversations)
+    conversationStore?.delete(id).catch((error) => {
+      console.error("Failed to delete conversation:", error)
+    })
 
     if (id === activeConversation) {
-      setActiveConversation(updatedConversations.length > 0 ? updatedConversations[0].id : null)
-      if (updatedConversations.length === 0) {
+      setActiveConversation(next.activeId)
+      if (next.activeId === null) {
         createNewConversation()
       }
     }
   }
 
+  const renameConversation = (id: string, e: React.MouseEvent) => {
+    e.stopPropagation()
+
+    const current = findConversation(conversations, id)
+    const title = cleanTitle(window.prompt("Rename conversation", current?.title ?? ""))
+    if (!title) return
+
+    setConversations((prev) => setConversationTitle(prev, id, title))
+    conversationStore?.rename(id, title).catch((error) => {
+      console.error("Failed to rename conversation:", error)
+    })
+  }
+
+  const exportConversations = (targets: Conversation[], format: "json" | "markdown") => {
+    if (format === "json") {
+      downloadFile(exportFileName(targets, "json"), conversationsToJSON(targets), "application/json")
+    } else {
+      downloadFile(exportFileName(targets, "md"), conversationsToMarkdown(targets), "text/markdown")
+    }
+  }
+
+  // Hands the conversations to the print view, where the browser can save them as a PDF
+  const printConversations = (targets: Conversation[]) => {
+    if (!stashForPage(CONVERSATION_PRINT_KEY, JSON.stringify(toConversationExport(targets)))) {
+      setImportNotice("Couldn't open the print view: the browser has no room to pass these conversations to it.")
+      return
+    }
+    router.push("/print")
+  }
+
+  const importConversations = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Clear the input so picking the same file again still fires a change
+    e.target.value = ""
+    if (!file || !conversationStore) return
+
+    let body: unknown
+    try {
+      body = JSON.parse(await file.text())
+    } catch {
+      setImportNotice(`${file.name} isn't a JSON file.`)
+      return
+    }
+
+    const parsed = parseConversationImport(body)
+    if (!parsed.ok) {
+      setImportNotice(`Couldn't import ${file.name}: ${parsed.error}`)
+      return
+    }
+
+    const saved: Conversation[] = []
+    for (const conversation of dedupeConversationIds(parsed.value, conversations)) {
+      try {
+        saved.push(await conversationStore.create(conversation))
+      } catch (error) {
+        console.error("Failed to save imported conversation:", error)
+      }
+    }
+
+    setImportNotice(
+      saved.length === parsed.value.length
+        ? `Imported ${saved.length} ${saved.length === 1 ? "conversation" : "conversations"}.`
+        : `Imported ${saved.length} of ${parsed.value.length} conversations; the rest couldn't be saved.`,
+    )
+    if (saved.length === 0) return
+    setConversations((prev) => sortByNewest([...saved, ...prev]))
+    setActiveConversation(saved[0].id)
+  }
+
+  // Reuse the FDC data already attached to the answer instead of looking the foods up again
+  const logFoods = async (items: NutritionPayloadItem[], meal: Meal) => {
+    const date = toLogDate(new Date())
+    await Promise.all(
+      items.map(({ item, food, grams, nutrients }) => foodLogClient.add({ date, meal, item, food, grams, nutrients })),
+    )
+  }
+
   const navigateToSettings = () => {
-    console.log("Navigate to settings")
-    alert("Settings page would open here")
+    router.push("/settings")
+  }
+
+  // Selections belong to one conversation
+  useEffect(() => {
+    setGroceryMessages([])
+    setHandoffError(null)
+  }, [activeConversation])
+
+  const toggleGroceryMessage = (id: string) => {
+    setGroceryMessages((prev) => (prev.includes(id) ? prev.filter((entry) => entry !== id) : [...prev, id]))
   }
 
-  const handleLogout = () => {
-    console.log("Logout")
-    alert("Logout would happen here")
+  // Hands the selected answers' ingredients to the grocery page, labeled by the question each one answered
+  const buildGroceryList = () => {
+    const drafts = messages.flatMap((msg, index) => {
+      if (!groceryMessages.includes(msg.id)) return []
+      const question = messages.slice(0, index).findLast((entry) => entry.role === "user")?.content ?? "Answer"
+      const label = question.length > 50 ? `${question.slice(0, 50).trim()}…` : question
+      return [draftFromMessage(msg, getNutritionPayload(msg.annotations), label)]
+    })
+    if (!stashForPage(GROCERY_DRAFT_KEY, JSON.stringify(combineDrafts(drafts)))) {
+      setHandoffError("Couldn't open the grocery list: the browser has no room to pass these answers to it.")
+      return
+    }
+    router.push("/grocery")
   }
 
+  // Hands a recipe pasted into the chat to the analyzer page
+  const analyzeRecipe = (content: string) => {
+    if (!stashForPage(RECIPE_DRAFT_KEY, content)) {
+      setHandoffError("Couldn't open the recipe analyzer: the browser has no room to pass this recipe to it.")
+      return
+    }
+    router.push("/recipes")
+  }
+
+  const handleLogout = async () => {
+    try {
+      await authClient.logout()
+    } catch (error) {
+      console.error("Failed to sign out:", error)
+    }
+    router.replace("/login")
+  }
+
+  const exportMenuItems = (targets: Conversation[]) => (
+    <>
+      <DropdownMenuItem onClick={() => exportConversations(targets, "json")} className="cursor-pointer">
+        <FileJson className="h-4 w-4" />
+        JSON
+      </DropdownMenuItem>
+      <DropdownMenuItem onClick={() => exportConversations(targets, "markdown")} className="cursor-pointer">
+        <FileText className="h-4 w-4" />
+        Markdown
+      </DropdownMenuItem>
+      <DropdownMenuItem onClick={() => printConversations(targets)} className="cursor-pointer">
+        <Printer className="h-4 w-4" />
+        Print or PDF
+      </DropdownMenuItem>
+    </>
+  )
+
   const SidebarContent = () => (
-    <div className="flex flex-col h-full">
+    <div className="flex flex-col flex-1 min-h-0">
       <div className="p-4 border-b">
         <Button className="w-full justify-start gap-2" onClick={createNewConversation}>
           <Plus size={16} />
@@ -260,6 +487,32 @@ export default function ChatInterface() {
             >
               <div className="flex items-center justify-between w-full">
                 <span className="truncate">{conversation.title}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 ml-auto opacity-0 group-hover:opacity-100 hover:opacity-100 focus:opacity-100"
+                  onClick={(e) => renameConversation(conversation.id, e)}
+                >
+                  <span className="sr-only">Rename</span>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 opacity-0 group-hover:opacity-100 hover:opacity-100 focus:opacity-100"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      <span className="sr-only">Export</span>
+                      <Download className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  {/* Menu clicks bubble through the portal to the row, which would switch conversations */}
+                  <DropdownMenuContent align="start" onClick={(e) => e.stopPropagation()}>
+                    {exportMenuItems([conversation])}
+                  </DropdownMenuContent>
+                </DropdownMenu>
                 <Button
                   variant="ghost"
                   size="icon"
@@ -286,11 +539,44 @@ export default function ChatInterface() {
           ))}
         </div>
       </div>
+
+      <div className="p-2 border-t space-y-1">
+        <div className="flex gap-1">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" className="flex-1 justify-start" disabled={conversations.length === 0}>
+                <Download className="h-4 w-4" />
+                Export all
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">{exportMenuItems(conversations)}</DropdownMenuContent>
+          </DropdownMenu>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="flex-1 justify-start"
+            onClick={() => importInputRef.current?.click()}
+          >
+            <Upload className="h-4 w-4" />
+            Import
+          </Button>
+        </div>
+        {importNotice && <p className="px-2 text-xs text-muted-foreground">{importNotice}</p>}
+      </div>
     </div>
   )
 
   return (
     <div className="flex h-screen bg-background text-foreground">
+      {/* Shared by the desktop and mobile sidebars' Import buttons */}
+      <input
+        ref={importInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={importConversations}
+      />
+
       {/* Desktop Sidebar */}
       <div
         className={cn(
@@ -299,6 +585,7 @@ export default function ChatInterface() {
         )}
       >
         <SidebarContent />
+        <StatusPanel />
       </div>
 
       {/* Main content */}
@@ -313,8 +600,9 @@ export default function ChatInterface() {
                   <span className="sr-only">Toggle sidebar</span>
                 </Button>
               </SheetTrigger>
-              <SheetContent side="left" className="p-0 w-80">
+              <SheetContent side="left" className="p-0 w-80 gap-0">
                 <SidebarContent />
+                <StatusPanel />
               </SheetContent>
             </Sheet>
 
@@ -345,6 +633,28 @@ export default function ChatInterface() {
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
+                {user && (
+                  <>
+                    <DropdownMenuLabel className="font-normal text-muted-foreground">{user.email}</DropdownMenuLabel>
+                    <DropdownMenuSeparator />
+                  </>
+                )}
+                <DropdownMenuItem onClick={() => router.push("/log")} className="cursor-pointer">
+                  <NotebookPen className="mr-2 h-4 w-4" />
+                  <span>Food log</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => router.push("/recipes")} className="cursor-pointer">
+                  <ChefHat className="mr-2 h-4 w-4" />
+                  <span>Recipe analyzer</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => router.push("/plans")} className="cursor-pointer">
+                  <CalendarDays className="mr-2 h-4 w-4" />
+                  <span>Meal plans</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => router.push("/grocery")} className="cursor-pointer">
+                  <ShoppingCart className="mr-2 h-4 w-4" />
+                  <span>Grocery list</span>
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={navigateToSettings} className="cursor-pointer">
                   <Settings className="mr-2 h-4 w-4" />
                   <span>Settings</span>
@@ -384,49 +694,107 @@ export default function ChatInterface() {
 
             <div className="p-2 sm:p-4">
               <div className="max-w-3xl mx-auto space-y-4 sm:space-y-6">
-                {error && (
+                {errorPresentation && (
                   <Alert variant="destructive" className="mb-4">
                     <AlertCircle className="h-4 w-4" />
-                    <AlertTitle>Error</AlertTitle>
+                    <AlertTitle>{errorPresentation.title}</AlertTitle>
                     <AlertDescription className="flex flex-col gap-2">
-                      <p>{error.message || "Failed to load response"}</p>
-                      <Button variant="outline" size="sm" className="w-fit" onClick={() => reload()}>
-                        <RefreshCw className="mr-2 h-4 w-4" />
-                        Retry
-                      </Button>
+                      <p>{errorPresentation.message}</p>
+                      {errorReference && <p className="text-xs">Reference: {errorReference}</p>}
+                      {errorPresentation.canRetry && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="w-fit"
+                          onClick={() => reload()}
+                          disabled={retryDelay > 0}
+                        >
+                          <RefreshCw className="mr-2 h-4 w-4" />
+                          {retryDelay > 0 ? `Retry in ${retryDelay}s` : "Retry"}
+                        </Button>
+                      )}
                     </AlertDescription>
                   </Alert>
                 )}
 
-                {messages.map((msg) => (
-                  <Card
-                    key={msg.id}
-                    className={cn("border shadow-sm", msg.role === "user" ? "bg-muted/50" : "bg-background")}
-                  >
-                    <CardContent className="p-3 sm:p-4">
-                      <div className="flex items-start gap-3 sm:gap-4">
-                        <Avatar
-                          className={cn(
-                            "h-8 w-8 flex items-center justify-center",
-                            msg.role === "user" ? "bg-primary/10 text-primary" : "bg-muted text-muted-foreground",
-                          )}
-                        >
-                          {msg.role === "user" ? <User className="h-4 w-4" /> : <Bot className="h-4 w-4" />}
-                        </Avatar>
-                        <div className="flex-1 min-w-0">
-                          <div className="text-sm font-medium mb-1">
-                            {msg.role === "user" ? "You" : "Assistant"}
-                          </div>
-                          <div className="whitespace-pre-wrap break-words text-sm sm:text-base">
-                            {parseMessage(msg.content)}
-                          </div>
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
+                {handoffError && (
+                  <Alert variant="destructive" className="mb-4">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertTitle>Couldn&apos;t open that page</AlertTitle>
+                    <AlertDescription>{handoffError}</AlertDescription>
+                  </Alert>
+                )}
 
-                {isLoading && (
+                {messages.map((msg) => {
+                  const nutrition = msg.role === "assistant" ? getNutritionPayload(msg.annotations) : null
+                  const safety = msg.role === "assistant" ? getSafetyReports(msg.annotations) : []
+                  // The server sends a notice in place of a blocked answer; the warning explains it
+                  const isBlocked = safety.some((report) => report.blocked)
+
+                  return (
+                    <div key={msg.id} className="space-y-2">
+                      <Card
+                        className={cn("border shadow-sm", msg.role === "user" ? "bg-muted/50" : "bg-background")}
+                      >
+                        <CardContent className="p-3 sm:p-4">
+                          <div className="flex items-start gap-3 sm:gap-4">
+                            <Avatar
+                              className={cn(
+                                "h-8 w-8 flex items-center justify-center",
+                                msg.role === "user" ? "bg-primary/10 text-primary" : "bg-muted text-muted-foreground",
+                              )}
+                            >
+                              {msg.role === "user" ? <User className="h-4 w-4" /> : <Bot className="h-4 w-4" />}
+                            </Avatar>
+                            <div className="flex-1 min-w-0">
+                              <div className="text-sm font-medium mb-1">
+                                {msg.role === "user" ? "You" : "Assistant"}
+                              </div>
+                              {safety.length > 0 && <SafetyWarning reports={safety} />}
+                              {!isBlocked &&
+                                (msg.role === "assistant" ? (
+                                  <Markdown content={msg.content} className="text-sm sm:text-base" />
+                                ) : (
+                                  <div className="whitespace-pre-wrap break-words text-sm sm:text-base">
+                                    {msg.content}
+                                  </div>
+                                ))}
+                            </div>
+                          </div>
+                        </CardContent>
+                      </Card>
+
+                      {msg.role === "user" && looksLikeRecipe(msg.content) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="sm:ml-12"
+                          onClick={() => analyzeRecipe(msg.content)}
+                        >
+                          <ChefHat className="h-4 w-4" />
+                          Analyze recipe
+                        </Button>
+                      )}
+                      {nutrition && (nutrition.items.length > 0 || nutrition.unresolved?.length > 0) && (
+                        <NutritionFacts payload={nutrition} className="sm:ml-12" onLog={logFoods} />
+                      )}
+                      {msg.role === "assistant" && !isBlocked && !(isLoading && msg === messages.at(-1)) && (
+                        <Button
+                          variant={groceryMessages.includes(msg.id) ? "secondary" : "ghost"}
+                          size="sm"
+                          className="sm:ml-12 text-muted-foreground"
+                          aria-pressed={groceryMessages.includes(msg.id)}
+                          onClick={() => toggleGroceryMessage(msg.id)}
+                        >
+                          <ShoppingCart className="h-4 w-4" />
+                          {groceryMessages.includes(msg.id) ? "Selected for grocery list" : "Select for grocery list"}
+                        </Button>
+                      )}
+                    </div>
+                  )
+                })}
+
+                {isLoading && messages[messages.length - 1]?.role !== "assistant" && (
                   <Card>
                     <CardContent className="p-3 sm:p-4">
                       <div className="flex items-start gap-3 sm:gap-4">
@@ -453,29 +821,65 @@ export default function ChatInterface() {
 
           <div className="p-2 sm:p-4 border-t bg-background shrink-0">
             <div className="max-w-3xl mx-auto">
+              {groceryMessages.length > 0 && (
+                <div className="flex items-center gap-2 pb-2 text-sm">
+                  <span className="flex-1 text-muted-foreground">
+                    {groceryMessages.length} {groceryMessages.length === 1 ? "answer" : "answers"} selected
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={() => setGroceryMessages([])}>
+                    Cancel
+                  </Button>
+                  <Button size="sm" onClick={buildGroceryList}>
+                    <ShoppingCart className="h-4 w-4" />
+                    Build grocery list
+                  </Button>
+                </div>
+              )}
               <form onSubmit={handleMessageSubmit} className="flex flex-col gap-2">
                 <div className="flex items-end gap-2">
                   <Textarea
                     ref={textareaRef}
-                    placeholder="Message..."
+                    placeholder={conversationFull ? "This conversation is full" : "Message..."}
                     className="flex-1 min-h-[60px] max-h-[200px] resize-none text-base sm:text-sm"
                     value={input}
+                    maxLength={MAX_USER_MESSAGE_CHARS}
                     onChange={handleTextareaChange}
                     onKeyDown={handleKeyPress}
-                    disabled={isLoading}
+                    disabled={isLoading || conversationFull}
                   />
-                  <Button
-                    type="submit"
-                    size="icon"
-                    className="h-10 w-10 sm:h-9 sm:w-9"
-                    disabled={!input.trim() || isLoading}
-                  >
-                    <Send className="h-4 w-4" />
-                    <span className="sr-only">Send</span>
-                  </Button>
+                  {isLoading ? (
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="outline"
+                      className="h-10 w-10 sm:h-9 sm:w-9"
+                      onClick={stop}
+                    >
+                      <Square className="h-4 w-4" />
+                      <span className="sr-only">Stop generating</span>
+                    </Button>
+                  ) : (
+                    <Button
+                      type="submit"
+                      size="icon"
+                      className="h-10 w-10 sm:h-9 sm:w-9"
+                      disabled={!input.trim() || conversationFull}
+                    >
+                      <Send className="h-4 w-4" />
+                      <span className="sr-only">Send</span>
+                    </Button>
+                  )}
                 </div>
                 <div className="text-xs text-muted-foreground text-center">
-                  Press Enter to send, Shift+Enter for a new line
+                  {conversationFull
+                    ? "This conversation has reached its message limit. Start a new one to keep chatting."
+                    : "Press Enter to send, Shift+Enter for a new line"}
+                  {dailyUsage && (
+                    <span className={cn(dailyUsage.remaining === 0 && "text-destructive")}>
+                      {" "}
+                      · {dailyUsage.remaining} of {dailyUsage.limit} messages left today
+                    </span>
+                  )}
                 </div>
               </form>
             </div>
@@ -0,0 +1,371 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import {
+  AlertCircle,
+  AlertTriangle,
+  ArrowLeft,
+  CalendarDays,
+  CheckCircle2,
+  Loader2,
+  ShoppingCart,
+  Trash2,
+} from "lucide-react"
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { TargetProgress } from "@/components/target-progress"
+import { presentError, type ErrorPresentation } from "@/lib/errors"
+import { GROCERY_DRAFT_KEY, draftFromPlan } from "@/lib/grocery"
+import { stashForPage } from "@/lib/handoff"
+import { MEALS, type Meal } from "@/lib/log"
+import {
+  MAX_PLAN_DAYS,
+  PLAN_NUTRIENTS,
+  isDayOnTarget,
+  mealPlanClient,
+  resolvePlanTargets,
+  type MealPlan,
+  type PlanDay,
+  type PlanTargets,
+} from "@/lib/meal-plans"
+import { NUTRIENT_DEFINITIONS } from "@/lib/nutrition"
+import { computeDailyTargets, loadProfile } from "@/lib/profile"
+
+const DEFINITIONS = Object.fromEntries(NUTRIENT_DEFINITIONS.map((definition) => [definition.key, definition]))
+
+function toPresentation(err: unknown) {
+  return presentError(err instanceof Error ? err : new Error(String(err)))
+}
+
+function describePlan(plan: MealPlan) {
+  const onTarget = plan.days.filter(isDayOnTarget).length
+  const created = new Date(plan.createdAt).toLocaleDateString(undefined, { month: "short", day: "numeric" })
+  return `${created} · ${plan.days.length}-day plan · ${onTarget}/${plan.days.length} on target`
+}
+
+// Optional positive number from a text field; empty means "use the profile's target"
+function optionalNumber(value: string) {
+  const number = Number(value)
+  return value.trim() && Number.isFinite(number) && number > 0 ? number : undefined
+}
+
+function PlanDayCard({ day, targets }: { day: PlanDay; targets: PlanTargets }) {
+  const onTarget = isDayOnTarget(day)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {onTarget ? (
+            <CheckCircle2 className="h-5 w-5 text-primary" aria-label="On target" />
+          ) : (
+            <AlertTriangle className="h-5 w-5 text-destructive" aria-label="Off target" />
+          )}
+          Day {day.day}
+        </CardTitle>
+        <CardDescription>
+          {Math.round(day.totals.calories ?? 0)} kcal
+          {day.adjusted && " · portions scaled to the calorie target"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {day.meals.map((meal) => (
+          <div key={meal.meal} className="space-y-1">
+            <div className="text-sm">
+              <span className="font-medium capitalize">{meal.meal}</span>
+              <span className="text-muted-foreground"> · {meal.name}</span>
+              <span className="float-right text-muted-foreground">{Math.round(meal.totals.calories ?? 0)} kcal</span>
+            </div>
+            <ul className="text-xs text-muted-foreground space-y-0.5 pl-4 list-disc">
+              {meal.foods.map((food, index) => (
+                <li key={`${food.food.fdcId}-${index}`}>
+                  <span className="text-foreground">{food.item}</span> · {food.food.description} ·{" "}
+                  {Math.round(food.grams)}g
+                </li>
+              ))}
+              {meal.unresolved.map((item) => (
+                <li key={item}>{item} · not found in FDC, not counted</li>
+              ))}
+            </ul>
+          </div>
+        ))}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 border-t pt-4">
+          {PLAN_NUTRIENTS.map((nutrient) => (
+            <TargetProgress
+              key={nutrient}
+              nutrient={nutrient}
+              value={day.totals[nutrient] ?? 0}
+              target={targets[nutrient]}
+              over={day.misses.some((miss) => miss.nutrient === nutrient)}
+            />
+          ))}
+        </div>
+
+        {(day.misses.length > 0 || day.violations.length > 0) && (
+          <ul className="text-xs text-destructive space-y-0.5">
+            {day.misses.map((miss) => (
+              <li key={`${miss.nutrient}-${miss.direction}`}>
+                {DEFINITIONS[miss.nutrient].label} {miss.direction === "low" ? "below" : "above"} target:{" "}
+                {Math.round(miss.actual)} of {Math.round(miss.target)} {DEFINITIONS[miss.nutrient].unit}
+              </li>
+            ))}
+            {day.violations.map((violation, index) => (
+              <li key={`${violation.ruleId}-${index}`}>
+                {violation.context} conflicts with {violation.label}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function MealPlansPage() {
+  const [plans, setPlans] = useState<MealPlan[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [defaults, setDefaults] = useState<PlanTargets>(() => resolvePlanTargets(computeDailyTargets(null)))
+  const [days, setDays] = useState<number>(3)
+  const [meals, setMeals] = useState<Meal[]>(["breakfast", "lunch", "dinner"])
+  const [calories, setCalories] = useState<string>("")
+  const [protein, setProtein] = useState<string>("")
+  const [exclude, setExclude] = useState<string>("")
+  const [notes, setNotes] = useState<string>("")
+  const [isGenerating, setIsGenerating] = useState<boolean>(false)
+  const [error, setError] = useState<ErrorPresentation | null>(null)
+  const router = useRouter()
+
+  useEffect(() => {
+    mealPlanClient
+      .list()
+      .then((saved) => {
+        setPlans(saved)
+        setSelectedId(saved[0]?.id ?? null)
+      })
+      .catch((err) => setError(toPresentation(err)))
+
+    loadProfile()
+      .then((profile) => setDefaults(resolvePlanTargets(computeDailyTargets(profile))))
+      .catch((err) => console.error("Failed to load profile:", err))
+  }, [])
+
+  const toggleMeal = (meal: Meal) => {
+    setMeals((prev) => (prev.includes(meal) ? prev.filter((entry) => entry !== meal) : [...prev, meal]))
+  }
+
+  const generate = async () => {
+    setIsGenerating(true)
+    setError(null)
+    try {
+      const plan = await mealPlanClient.generate({
+        days,
+        meals,
+        targets: { calories: optionalNumber(calories), protein: optionalNumber(protein) },
+        exclude: exclude
+          .split(",")
+          .map((food) => food.trim())
+          .filter(Boolean),
+        notes,
+      })
+      setPlans((prev) => [plan, ...prev])
+      setSelectedId(plan.id)
+    } catch (err) {
+      setError(toPresentation(err))
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  const deletePlan = async (id: string) => {
+    try {
+      await mealPlanClient.delete(id)
+      const remaining = plans.filter((plan) => plan.id !== id)
+      setPlans(remaining)
+      setSelectedId(remaining[0]?.id ?? null)
+    } catch (err) {
+      setError(toPresentation(err))
+    }
+  }
+
+  const selected = plans.find((plan) => plan.id === selectedId) ?? null
+  const onTarget = selected ? selected.days.filter(isDayOnTarget).length : 0
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="flex items-center gap-4 px-4 h-14 border-b">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/">
+            <ArrowLeft size={20} />
+            <span className="sr-only">Back to chat</span>
+          </Link>
+        </Button>
+        <h1 className="text-xl font-bold">Meal plans</h1>
+      </header>
+
+      <div className="max-w-3xl mx-auto p-4 space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>New plan</CardTitle>
+            <CardDescription>
+              Every meal is checked against FoodData Central, and days that miss your targets are revised. Targets
+              and restrictions come from your profile unless you set them here.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <label className="space-y-1 text-sm">
+                <span>Days</span>
+                <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: MAX_PLAN_DAYS }, (_, index) => index + 1).map((count) => (
+                      <SelectItem key={count} value={String(count)}>
+                        {count} {count === 1 ? "day" : "days"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </label>
+              <label className="space-y-1 text-sm">
+                <span>Calories per day</span>
+                <Input
+                  type="number"
+                  min={800}
+                  max={6000}
+                  placeholder={String(defaults.calories)}
+                  value={calories}
+                  onChange={(e) => setCalories(e.target.value)}
+                />
+              </label>
+              <label className="space-y-1 text-sm">
+                <span>Protein per day (g)</span>
+                <Input
+                  type="number"
+                  min={10}
+                  max={400}
+                  placeholder={String(defaults.protein)}
+                  value={protein}
+                  onChange={(e) => setProtein(e.target.value)}
+                />
+              </label>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {MEALS.map((meal) => (
+                <Button
+                  key={meal}
+                  type="button"
+                  size="sm"
+                  variant={meals.includes(meal) ? "default" : "outline"}
+                  className="capitalize"
+                  aria-pressed={meals.includes(meal)}
+                  onClick={() => toggleMeal(meal)}
+                >
+                  {meal}
+                </Button>
+              ))}
+            </div>
+
+            <Input
+              placeholder="Leave out (comma-separated), e.g. mushrooms, tuna"
+              value={exclude}
+              onChange={(e) => setExclude(e.target.value)}
+            />
+            <Textarea
+              placeholder="Anything else? e.g. quick breakfasts, batch-cooked lunches"
+              maxLength={500}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+
+            <Button onClick={generate} disabled={isGenerating || meals.length === 0}>
+              {isGenerating ? <Loader2 className="h-4 w-4 animate-spin" /> : <CalendarDays className="h-4 w-4" />}
+              {isGenerating ? "Generating… this can take a minute" : "Generate plan"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>{error.title}</AlertTitle>
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {plans.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Select value={selectedId ?? undefined} onValueChange={setSelectedId}>
+              <SelectTrigger className="flex-1" aria-label="Saved plan">
+                <SelectValue placeholder="Choose a saved plan" />
+              </SelectTrigger>
+              <SelectContent>
+                {plans.map((plan) => (
+                  <SelectItem key={plan.id} value={plan.id}>
+                    {describePlan(plan)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selected && (
+              <Button
+                variant="outline"
+                onClick={() => {
+                  if (stashForPage(GROCERY_DRAFT_KEY, JSON.stringify(draftFromPlan(selected)))) {
+                    router.push("/grocery")
+                    return
+                  }
+                  setError({
+                    title: "Couldn't open the grocery list",
+                    message: "The browser has no room to pass this plan to the grocery page.",
+                    canRetry: false,
+                    requiresSignIn: false,
+                  })
+                }}
+              >
+                <ShoppingCart className="h-4 w-4" />
+                Grocery list
+              </Button>
+            )}
+            {selected && (
+              <Button variant="ghost" size="icon" onClick={() => deletePlan(selected.id)}>
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Delete plan</span>
+              </Button>
+            )}
+          </div>
+        )}
+
+        {selected && (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {onTarget} of {selected.days.length} days on target after {selected.attempts}{" "}
+              {selected.attempts === 1 ? "round" : "rounds"}. Targets: {selected.targets.calories} kcal,{" "}
+              {selected.targets.protein} g protein, {selected.targets.carbohydrate} g carbohydrate,{" "}
+              {selected.targets.fat} g fat.
+              {selected.days.length < selected.request.days &&
+                ` ${selected.request.days - selected.days.length} requested days couldn't be planned.`}
+            </p>
+            {selected.days.map((day) => (
+              <PlanDayCard key={day.day} day={day} targets={selected.targets} />
+            ))}
+          </>
+        )}
+
+        {!selected && plans.length === 0 && !isGenerating && (
+          <p className="text-center text-sm text-muted-foreground py-6">No saved plans yet.</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, Printer } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Markdown } from "@/components/markdown"
+import { NutritionFacts } from "@/components/nutrition-facts"
+import { SafetyWarning } from "@/components/safety-warning"
+import { cn } from "@/lib/utils"
+import { CONVERSATION_PRINT_KEY, parseConversationImport, type Conversation } from "@/lib/conversations"
+import { getNutritionPayload } from "@/lib/nutrition"
+import { getSafetyReports } from "@/lib/safety"
+
+// Kept in sessionStorage rather than removed on read so reloading the print view still works
+function readConversations(): Conversation[] {
+  const raw = sessionStorage.getItem(CONVERSATION_PRINT_KEY)
+  if (!raw) return []
+  try {
+    const parsed = parseConversationImport(JSON.parse(raw))
+    return parsed.ok ? parsed.value : []
+  } catch {
+    return []
+  }
+}
+
+export default function PrintConversationsPage() {
+  const [conversations, setConversations] = useState<Conversation[]>([])
+  const [isLoaded, setIsLoaded] = useState<boolean>(false)
+
+  useEffect(() => {
+    setConversations(readConversations())
+    setIsLoaded(true)
+  }, [])
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="flex items-center gap-4 px-4 h-14 border-b print:hidden">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/">
+            <ArrowLeft size={20} />
+            <span className="sr-only">Back to chat</span>
+          </Link>
+        </Button>
+        <h1 className="text-xl font-bold">Print conversations</h1>
+        <Button className="ml-auto" disabled={conversations.length === 0} onClick={() => window.print()}>
+          <Printer className="h-4 w-4" />
+          Print or save as PDF
+        </Button>
+      </header>
+
+      <div className="max-w-3xl mx-auto p-4 space-y-4 print:max-w-none print:p-0">
+        {isLoaded && conversations.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            Nothing to print. Choose Print from a conversation&apos;s export menu in the chat sidebar.
+          </p>
+        )}
+
+        {conversations.map((conversation, index) => (
+          <article key={conversation.id} className={cn("space-y-4", index > 0 && "break-before-page pt-4")}>
+            <div>
+              <h2 className="text-2xl font-bold">{conversation.title}</h2>
+              <p className="text-sm text-muted-foreground">Started {conversation.createdAt.toLocaleString()}</p>
+            </div>
+
+            {conversation.messages.map((msg) => {
+              const nutrition = msg.role === "assistant" ? getNutritionPayload(msg.annotations) : null
+              const safety = msg.role === "assistant" ? getSafetyReports(msg.annotations) : []
+              const isBlocked = safety.some((report) => report.blocked)
+
+              return (
+                <section key={msg.id} className="space-y-2 border-t pt-3">
+                  <div className="text-sm font-medium">
+                    {msg.role === "user" ? "You" : "Assistant"}
+                    <span className="ml-2 font-normal text-muted-foreground">{msg.timestamp.toLocaleString()}</span>
+                  </div>
+                  {safety.length > 0 && <SafetyWarning reports={safety} />}
+                  {!isBlocked &&
+                    (msg.role === "assistant" ? (
+                      <Markdown content={msg.content} className="text-sm" />
+                    ) : (
+                      <div className="whitespace-pre-wrap break-words text-sm">{msg.content}</div>
+                    ))}
+                  {nutrition && (nutrition.items.length > 0 || nutrition.unresolved?.length > 0) && (
+                    <NutritionFacts payload={nutrition} className="break-inside-avoid" />
+                  )}
+                </section>
+              )
+            })}
+          </article>
+        ))}
+      </div>
+    </div>
+  )
+}
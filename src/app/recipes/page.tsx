@@ -0,0 +1,260 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { AlertCircle, ArrowLeft, Calculator, Loader2, Search } from "lucide-react"
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { NutritionFacts } from "@/components/nutrition-facts"
+import { presentError, type ErrorPresentation } from "@/lib/errors"
+import { formatQuantity, type NutritionPayload } from "@/lib/nutrition"
+import { computeDailyTargets, loadProfile, type DailyTargets } from "@/lib/profile"
+import {
+  MAX_RECIPE_CHARS,
+  RECIPE_DRAFT_KEY,
+  recipeClient,
+  summarizeRecipe,
+  type IngredientAnalysis,
+  type Recipe,
+  type RecipeAnalysis,
+} from "@/lib/recipes"
+
+const STATUS_LABELS: Record<IngredientAnalysis["status"], string> = {
+  matched: "",
+  not_found: "No FDC match; try another search term",
+  lookup_failed: "Lookup failed; search again to retry",
+}
+
+// Whole-recipe ingredients with per-serving totals, in the shape the Nutrition Facts label reads
+function toPayload(analysis: RecipeAnalysis): NutritionPayload {
+  return {
+    type: "nutrition",
+    items: analysis.ingredients.flatMap(({ match }) =>
+      match ? [{ item: match.item, food: match.food, grams: match.grams, nutrients: match.nutrients }] : [],
+    ),
+    totals: analysis.perServing,
+    dailyValues: analysis.dailyValues,
+    calorieTarget: analysis.calorieTarget,
+    unresolved: analysis.ingredients.flatMap(({ ingredient, status }) =>
+      status === "matched" ? [] : [{ item: ingredient.line, reason: status }],
+    ),
+  }
+}
+
+function IngredientRow({
+  entry,
+  disabled,
+  onCorrect,
+}: {
+  entry: IngredientAnalysis
+  disabled: boolean
+  onCorrect: (changes: { query?: string; fdcId?: number }) => void
+}) {
+  const [query, setQuery] = useState(entry.query)
+
+  useEffect(() => setQuery(entry.query), [entry.query])
+
+  return (
+    <div className="space-y-2 border-b pb-3 last:border-b-0">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <span className="text-sm font-medium">{entry.ingredient.line}</span>
+        <span className="text-xs text-muted-foreground">
+          {formatQuantity(entry.ingredient.quantity)}
+          {entry.match && ` · ${Math.round(entry.match.grams)}g · ${Math.round(entry.match.nutrients.calories ?? 0)} kcal`}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <form
+          className="flex flex-1 min-w-48 gap-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            if (query.trim() && query.trim() !== entry.query) onCorrect({ query: query.trim() })
+          }}
+        >
+          <Input value={query} onChange={(e) => setQuery(e.target.value)} aria-label="FDC search term" maxLength={100} />
+          <Button type="submit" variant="outline" size="icon" disabled={disabled}>
+            <Search className="h-4 w-4" />
+            <span className="sr-only">Search FDC</span>
+          </Button>
+        </form>
+
+        {entry.candidates.length > 0 && (
+          <Select
+            value={entry.match ? String(entry.match.food.fdcId) : undefined}
+            onValueChange={(value) => onCorrect({ fdcId: Number(value) })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="flex-1 min-w-48" aria-label="FDC match">
+              <SelectValue placeholder="Choose a food" />
+            </SelectTrigger>
+            <SelectContent>
+              {entry.candidates.map((candidate) => (
+                <SelectItem key={candidate.fdcId} value={String(candidate.fdcId)}>
+                  {candidate.description}
+                  {candidate.dataType && <span className="text-muted-foreground"> · {candidate.dataType}</span>}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {entry.status !== "matched" && <p className="text-xs text-destructive">{STATUS_LABELS[entry.status]}</p>}
+    </div>
+  )
+}
+
+export default function RecipeAnalyzerPage() {
+  const [text, setText] = useState<string>("")
+  const [analysis, setAnalysis] = useState<RecipeAnalysis | null>(null)
+  const [targets, setTargets] = useState<DailyTargets>(() => computeDailyTargets(null))
+  const [isLoading, setIsLoading] = useState<boolean>(false)
+  const [error, setError] = useState<ErrorPresentation | null>(null)
+
+  useEffect(() => {
+    // The chat hands over recipes pasted into a message
+    const draft = sessionStorage.getItem(RECIPE_DRAFT_KEY)
+    if (draft) {
+      sessionStorage.removeItem(RECIPE_DRAFT_KEY)
+      setText(draft.slice(0, MAX_RECIPE_CHARS))
+    }
+
+    loadProfile()
+      .then((profile) => setTargets(computeDailyTargets(profile)))
+      .catch((err) => console.error("Failed to load profile:", err))
+  }, [])
+
+  const run = async (request: () => Promise<RecipeAnalysis>) => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      setAnalysis(await request())
+    } catch (err) {
+      setError(presentError(err instanceof Error ? err : new Error(String(err))))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const reanalyze = (recipe: Recipe) => run(() => recipeClient.analyzeRecipe(recipe))
+
+  // A new search term drops the chosen candidate, since it may not be among the new results
+  const correctIngredient = (index: number, changes: { query?: string; fdcId?: number }) => {
+    if (!analysis) return
+    const ingredients = analysis.recipe.ingredients.map((ingredient, i) => {
+      if (i !== index) return ingredient
+      return changes.query !== undefined
+        ? { ...ingredient, query: changes.query, fdcId: undefined }
+        : { ...ingredient, query: analysis.ingredients[i].query, fdcId: changes.fdcId }
+    })
+    reanalyze({ ...analysis.recipe, ingredients })
+  }
+
+  // Servings only rescale the totals, so there's no need to ask the server again
+  const setServings = (servings: number) => {
+    if (!analysis || !Number.isInteger(servings) || servings < 1 || servings > 100) return
+    setAnalysis({
+      ...analysis,
+      recipe: { ...analysis.recipe, servings },
+      ...summarizeRecipe(analysis.ingredients, servings, targets),
+    })
+  }
+
+  const payload = useMemo(() => (analysis ? toPayload(analysis) : null), [analysis])
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="flex items-center gap-4 px-4 h-14 border-b">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/">
+            <ArrowLeft size={20} />
+            <span className="sr-only">Back to chat</span>
+          </Link>
+        </Button>
+        <h1 className="text-xl font-bold">Recipe analyzer</h1>
+      </header>
+
+      <div className="max-w-5xl mx-auto p-4 space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>Paste a recipe</CardTitle>
+            <CardDescription>
+              Include the ingredient list with amounts and, if you have it, the number of servings.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Textarea
+              className="min-h-[200px] font-mono text-sm"
+              placeholder={"Banana oat pancakes\nServes 2\n\nIngredients\n2 bananas\n1 cup rolled oats\n2 eggs\n1/2 cup milk"}
+              value={text}
+              maxLength={MAX_RECIPE_CHARS}
+              onChange={(e) => setText(e.target.value)}
+            />
+            <Button onClick={() => run(() => recipeClient.analyzeText(text))} disabled={isLoading || !text.trim()}>
+              {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Calculator className="h-4 w-4" />}
+              Analyze
+            </Button>
+          </CardContent>
+        </Card>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>Couldn&apos;t analyze the recipe</AlertTitle>
+            <AlertDescription>{error.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {analysis && payload && (
+          <div className="flex flex-col md:flex-row gap-4 items-start">
+            <Card className="flex-1 w-full">
+              <CardHeader>
+                <CardTitle>{analysis.recipe.title ?? "Ingredients"}</CardTitle>
+                <CardDescription>
+                  {analysis.ingredients.filter((entry) => entry.match).length} of {analysis.ingredients.length}{" "}
+                  ingredients matched in FoodData Central
+                  {analysis.recipe.method && ` · ${analysis.recipe.method}`}. Change a search term or pick another
+                  match to recompute.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <label className="flex items-center gap-2 text-sm">
+                  Servings
+                  <Input
+                    type="number"
+                    min={1}
+                    max={100}
+                    className="w-20"
+                    value={analysis.recipe.servings}
+                    onChange={(e) => setServings(Number(e.target.value))}
+                  />
+                </label>
+
+                {analysis.ingredients.map((entry, index) => (
+                  <IngredientRow
+                    key={`${index}-${entry.ingredient.line}`}
+                    entry={entry}
+                    disabled={isLoading}
+                    onCorrect={(changes) => correctIngredient(index, changes)}
+                  />
+                ))}
+
+                {analysis.recipe.skipped.length > 0 && (
+                  <p className="text-xs text-muted-foreground">Not counted: {analysis.recipe.skipped.join("; ")}</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <NutritionFacts payload={payload} servings={analysis.recipe.servings} className="shrink-0" />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
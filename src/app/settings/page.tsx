@@ -0,0 +1,295 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, Check } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  ACTIVITY_LEVELS,
+  ALLERGENS,
+  DIET_TYPES,
+  EMPTY_PROFILE,
+  GOALS,
+  LABELS,
+  MEDICAL_CONSTRAINTS,
+  SEXES,
+  computeDailyTargets,
+  loadProfile,
+  parseProfileUpdate,
+  PROFILE_RANGES,
+  saveProfile,
+  type DietaryProfile,
+} from "@/lib/profile"
+
+const NUMBER_LABELS: Record<keyof typeof PROFILE_RANGES, string> = {
+  age: "Age",
+  weightKg: "Weight",
+  heightCm: "Height",
+}
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((entry) => entry !== value) : [...list, value]
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label className="flex flex-col gap-1.5 text-sm font-medium">
+      {label}
+      {children}
+    </label>
+  )
+}
+
+function CheckboxGroup<T extends string>({
+  options,
+  selected,
+  onChange,
+}: {
+  options: readonly T[]
+  selected: T[]
+  onChange: (selected: T[]) => void
+}) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+      {options.map((option) => (
+        <label key={option} className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            className="h-4 w-4 accent-primary"
+            checked={selected.includes(option)}
+            onChange={() => onChange(toggle(selected, option))}
+          />
+          {LABELS[option as keyof typeof LABELS]}
+        </label>
+      ))}
+    </div>
+  )
+}
+
+export default function SettingsPage() {
+  const [profile, setProfile] = useState<DietaryProfile>(EMPTY_PROFILE)
+  const [isSaved, setIsSaved] = useState<boolean>(false)
+  const [isSaving, setIsSaving] = useState<boolean>(false)
+  const [error, setError] = useState<string | null>(null)
+  // The field a failed save pointed at, outlined until it's edited
+  const [invalidField, setInvalidField] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadProfile()
+      .then((stored) => {
+        if (stored) setProfile(stored)
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load profile"))
+  }, [])
+
+  const update = (changes: Partial<DietaryProfile>) => {
+    setProfile((prev) => ({ ...prev, ...changes }))
+    setIsSaved(false)
+    if (invalidField && invalidField in changes) {
+      setInvalidField(null)
+      setError(null)
+    }
+  }
+
+  const numberValue = (value?: number) => (value === undefined ? "" : String(value))
+  const parseNumber = (value: string) => (value.trim() ? Number(value) : undefined)
+
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+
+    // Same checks as the server, so an out-of-range number is pointed out instead of saved as blank
+    const parsed = parseProfileUpdate(profile)
+    if (!parsed.ok) {
+      const field = parsed.field as keyof typeof PROFILE_RANGES
+      const [min, max] = PROFILE_RANGES[field] ?? []
+      setError(NUMBER_LABELS[field] ? `${NUMBER_LABELS[field]} must be from ${min} to ${max}.` : parsed.error)
+      setInvalidField(parsed.field)
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+    try {
+      const saved = await saveProfile(parsed.value)
+      setProfile(saved)
+      setIsSaved(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save profile")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const targets = computeDailyTargets(profile)
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="flex items-center gap-4 px-4 h-14 border-b">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/">
+            <ArrowLeft size={20} />
+            <span className="sr-only">Back to chat</span>
+          </Link>
+        </Button>
+        <h1 className="text-xl font-bold">Settings</h1>
+      </header>
+
+      <form onSubmit={handleSave} className="max-w-3xl mx-auto p-4 space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>About you</CardTitle>
+            <CardDescription>Used to estimate your daily calorie and nutrient targets.</CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Field label="Age">
+              <Input
+                type="number"
+                min={PROFILE_RANGES.age[0]}
+                max={PROFILE_RANGES.age[1]}
+                aria-invalid={invalidField === "age"}
+                value={numberValue(profile.age)}
+                onChange={(e) => update({ age: parseNumber(e.target.value) })}
+              />
+            </Field>
+            <Field label="Sex">
+              <Select value={profile.sex ?? ""} onValueChange={(value) => update({ sex: value as DietaryProfile["sex"] })}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select" />
+                </SelectTrigger>
+                <SelectContent>
+                  {SEXES.map((sex) => (
+                    <SelectItem key={sex} value={sex}>
+                      {LABELS[sex]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </Field>
+            <Field label="Weight (kg)">
+              <Input
+                type="number"
+                min={PROFILE_RANGES.weightKg[0]}
+                max={PROFILE_RANGES.weightKg[1]}
+                step="0.1"
+                aria-invalid={invalidField === "weightKg"}
+                value={numberValue(profile.weightKg)}
+                onChange={(e) => update({ weightKg: parseNumber(e.target.value) })}
+              />
+            </Field>
+            <Field label="Height (cm)">
+              <Input
+                type="number"
+                min={PROFILE_RANGES.heightCm[0]}
+                max={PROFILE_RANGES.heightCm[1]}
+                aria-invalid={invalidField === "heightCm"}
+                value={numberValue(profile.heightCm)}
+                onChange={(e) => update({ heightCm: parseNumber(e.target.value) })}
+              />
+            </Field>
+            <Field label="Activity level">
+              <Select
+                value={profile.activityLevel ?? ""}
+                onValueChange={(value) => update({ activityLevel: value as DietaryProfile["activityLevel"] })}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ACTIVITY_LEVELS.map((level) => (
+                    <SelectItem key={level} value={level}>
+                      {LABELS[level]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </Field>
+            <Field label="Diet type">
+              <Select
+                value={profile.dietType ?? ""}
+                onValueChange={(value) => update({ dietType: value as DietaryProfile["dietType"] })}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select" />
+                </SelectTrigger>
+                <SelectContent>
+                  {DIET_TYPES.map((diet) => (
+                    <SelectItem key={diet} value={diet}>
+                      {LABELS[diet]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </Field>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Goals</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CheckboxGroup options={GOALS} selected={profile.goals} onChange={(goals) => update({ goals })} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Allergies and medical constraints</CardTitle>
+            <CardDescription>NIC will avoid suggesting foods that conflict with these.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Allergies</p>
+              <CheckboxGroup
+                options={ALLERGENS}
+                selected={profile.allergies}
+                onChange={(allergies) => update({ allergies })}
+              />
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Medical constraints</p>
+              <CheckboxGroup
+                options={MEDICAL_CONSTRAINTS}
+                selected={profile.medicalConstraints}
+                onChange={(medicalConstraints) => update({ medicalConstraints })}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Your daily targets</CardTitle>
+            <CardDescription>Used for the % Daily Value on nutrition labels.</CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-2 sm:grid-cols-3 gap-2 text-sm">
+            <div>Calories: {targets.calories} kcal</div>
+            <div>Protein: {targets.protein} g</div>
+            <div>Carbohydrate: {targets.carbohydrate} g</div>
+            <div>Fat: {targets.fat} g</div>
+            <div>Fiber: {targets.fiber} g</div>
+            <div>Sodium: {targets.sodium} mg</div>
+          </CardContent>
+        </Card>
+
+        <div className="flex items-center justify-end gap-3">
+          {error && <span className="text-sm text-destructive">{error}</span>}
+          {isSaved && (
+            <span className="flex items-center gap-1 text-sm text-muted-foreground">
+              <Check className="h-4 w-4" />
+              Saved
+            </span>
+          )}
+          <Button type="submit" disabled={isSaving}>
+            Save profile
+          </Button>
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+"use client"
+
+import ReactMarkdown, { defaultUrlTransform, type Components } from "react-markdown"
+import remarkGfm from "remark-gfm"
+
+import { cn } from "@/lib/utils"
+
+// Only these schemes survive in links; everything else (javascript:, data:, vbscript:) is dropped
+const SAFE_PROTOCOLS = /^(?:https?:|mailto:)/i
+
+// Relative links and fragments pass through; absolute URLs need a safe scheme
+export function sanitizeUrl(url: string) {
+  const transformed = defaultUrlTransform(url)
+  if (!transformed) return ""
+  return /^[a-z][a-z\d+.-]*:/i.test(transformed) && !SAFE_PROTOCOLS.test(transformed) ? "" : transformed
+}
+
+// react-markdown passes its syntax tree node along with the props; keep it off the DOM
+function domProps<T extends { node?: unknown }>(props: T): Omit<T, "node"> {
+  const rest = { ...props }
+  delete rest.node
+  return rest
+}
+
+const components: Components = {
+  h1: (props) => <h3 className="text-lg font-semibold mt-4 mb-2 first:mt-0" {...domProps(props)} />,
+  h2: (props) => <h4 className="text-base font-semibold mt-4 mb-2 first:mt-0" {...domProps(props)} />,
+  h3: (props) => <h5 className="font-semibold mt-3 mb-1 first:mt-0" {...domProps(props)} />,
+  h4: (props) => <h6 className="font-medium mt-3 mb-1 first:mt-0" {...domProps(props)} />,
+  p: (props) => <p className="my-2 first:mt-0 last:mb-0" {...domProps(props)} />,
+  ul: (props) => <ul className="my-2 list-disc pl-5 space-y-1" {...domProps(props)} />,
+  ol: (props) => <ol className="my-2 list-decimal pl-5 space-y-1" {...domProps(props)} />,
+  blockquote: (props) => <blockquote className="my-2 border-l-2 pl-3 text-muted-foreground" {...domProps(props)} />,
+  hr: () => <hr className="my-3 border-border" />,
+  a: ({ href, ...props }) =>
+    href ? (
+      <a
+        href={href}
+        target="_blank"
+        rel="noopener noreferrer nofollow"
+        className="text-primary underline underline-offset-2"
+        {...domProps(props)}
+      />
+    ) : (
+      <span {...domProps(props)} />
+    ),
+  code: ({ className, ...props }) => (
+    <code className={cn("rounded bg-muted px-1 py-0.5 font-mono text-[0.9em]", className)} {...domProps(props)} />
+  ),
+  pre: (props) => (
+    <pre
+      className="my-2 overflow-x-auto rounded bg-muted p-3 text-sm [&>code]:bg-transparent [&>code]:p-0"
+      {...domProps(props)}
+    />
+  ),
+  table: (props) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="w-full border-collapse text-sm" {...domProps(props)} />
+    </div>
+  ),
+  th: (props) => <th className="border-b px-2 py-1 text-left font-semibold" {...domProps(props)} />,
+  td: (props) => <td className="border-b border-border/60 px-2 py-1 align-top" {...domProps(props)} />,
+}
+
+// Renders assistant answers. Raw HTML is never interpreted, images are dropped (no remote loads from
+// model output) and links are limited to http(s) and mailto.
+export function Markdown({ content, className }: { content: string; className?: string }) {
+  return (
+    <div className={cn("break-words", className)}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        components={components}
+        skipHtml
+        disallowedElements={["img"]}
+        unwrapDisallowed
+        urlTransform={sanitizeUrl}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  )
+}
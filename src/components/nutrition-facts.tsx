@@ -0,0 +1,198 @@
+"use client"
+
+import { useState } from "react"
+import { Check, NotebookPen } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { cn } from "@/lib/utils"
+import { MEALS, mealForTime, type Meal } from "@/lib/log"
+import {
+  NUTRIENT_DEFINITIONS,
+  type NutrientKey,
+  type NutritionPayload,
+  type NutritionPayloadItem,
+} from "@/lib/nutrition"
+
+interface LabelRow {
+  key: NutrientKey
+  indent?: boolean
+  bold?: boolean
+}
+
+// Row order and emphasis follow the FDA Nutrition Facts layout
+const MACRO_ROWS: LabelRow[] = [
+  { key: "fat", bold: true },
+  { key: "saturatedFat", indent: true },
+  { key: "transFat", indent: true },
+  { key: "cholesterol", bold: true },
+  { key: "sodium", bold: true },
+  { key: "carbohydrate", bold: true },
+  { key: "fiber", indent: true },
+  { key: "sugars", indent: true },
+  { key: "addedSugars", indent: true },
+  { key: "protein", bold: true },
+]
+
+const MICRO_KEYS: NutrientKey[] = [
+  "vitaminD",
+  "calcium",
+  "iron",
+  "potassium",
+  "vitaminA",
+  "vitaminC",
+  "vitaminE",
+  "vitaminK",
+  "vitaminB6",
+  "vitaminB12",
+  "folate",
+  "magnesium",
+  "zinc",
+]
+
+const DEFINITIONS = Object.fromEntries(NUTRIENT_DEFINITIONS.map((definition) => [definition.key, definition]))
+
+function formatAmount(key: NutrientKey, value: number) {
+  const rounded = value >= 10 ? Math.round(value) : Math.round(value * 10) / 10
+  return `${rounded}${DEFINITIONS[key].unit === "kcal" ? "" : DEFINITIONS[key].unit}`
+}
+
+export function NutritionFacts({
+  payload,
+  className,
+  onLog,
+  servings,
+}: {
+  payload: NutritionPayload
+  className?: string
+  // Adds the given items to the food log; the card hides its log controls when omitted
+  onLog?: (items: NutritionPayloadItem[], meal: Meal) => Promise<void>
+  // Labels a recipe: totals and daily values are per serving, items stay whole-recipe amounts
+  servings?: number
+}) {
+  const { totals, dailyValues, items, calorieTarget = 2000 } = payload
+  const totalGrams = items.reduce((sum, item) => sum + item.grams, 0)
+  const isRecipe = servings !== undefined
+  const [meal, setMeal] = useState<Meal>(() => mealForTime(new Date()))
+  const [logged, setLogged] = useState<string[]>([])
+  const [logError, setLogError] = useState<string | null>(null)
+
+  const logItems = async (toLog: NutritionPayloadItem[]) => {
+    if (!onLog) return
+    setLogError(null)
+    try {
+      await onLog(toLog, meal)
+      setLogged((prev) => [...prev, ...toLog.map((item) => item.item)])
+    } catch (error) {
+      setLogError(error instanceof Error ? error.message : "Failed to log food")
+    }
+  }
+
+  return (
+    <div className={cn("w-full max-w-xs border-2 border-foreground bg-background p-2 font-sans text-sm", className)}>
+      <h3 className="text-3xl font-extrabold leading-none tracking-tight">Nutrition Facts</h3>
+      <div className="border-b border-foreground py-1">
+        {isRecipe
+          ? `${servings} ${servings === 1 ? "serving" : "servings"} per recipe`
+          : `${items.length} ${items.length === 1 ? "item" : "items"}`}
+      </div>
+      <div className="flex justify-between border-b-8 border-foreground py-1 font-bold">
+        <span>{isRecipe ? "Serving size" : "Meal size"}</span>
+        <span>{Math.round(isRecipe ? totalGrams / Math.max(servings, 1) : totalGrams)}g</span>
+      </div>
+
+      <div className="text-xs font-bold pt-1">{isRecipe ? "Amount per serving" : "Amount per meal"}</div>
+      <div className="flex items-end justify-between border-b-4 border-foreground pb-1">
+        <span className="text-2xl font-extrabold">Calories</span>
+        <span className="text-3xl font-extrabold">{Math.round(totals.calories ?? 0)}</span>
+      </div>
+
+      <div className="border-b border-foreground py-0.5 text-right text-xs font-bold">% Daily Value*</div>
+      {MACRO_ROWS.filter((row) => totals[row.key] !== undefined).map((row) => (
+        <div key={row.key} className={cn("flex justify-between border-b border-foreground py-0.5", row.indent && "pl-4")}>
+          <span>
+            <span className={cn(row.bold && "font-bold")}>{DEFINITIONS[row.key].label}</span>{" "}
+            {formatAmount(row.key, totals[row.key]!)}
+          </span>
+          {dailyValues[row.key] !== undefined && <span className="font-bold">{dailyValues[row.key]}%</span>}
+        </div>
+      ))}
+
+      <div className="border-t-8 border-foreground">
+        {MICRO_KEYS.filter((key) => totals[key] !== undefined).map((key) => (
+          <div key={key} className="flex justify-between border-b border-foreground py-0.5">
+            <span>
+              {DEFINITIONS[key].label} {formatAmount(key, totals[key]!)}
+            </span>
+            {dailyValues[key] !== undefined && <span>{dailyValues[key]}%</span>}
+          </div>
+        ))}
+      </div>
+
+      <details className="border-b-4 border-foreground py-1">
+        <summary className="cursor-pointer text-xs font-bold">{isRecipe ? "Per ingredient (whole recipe)" : "Per item"}</summary>
+        <ul className="mt-1 space-y-1 text-xs">
+          {items.map((item, index) => (
+            <li key={`${item.food.fdcId}-${index}`}>
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{item.item}</span>
+                {onLog &&
+                  (logged.includes(item.item) ? (
+                    <Check className="h-3 w-3" aria-label="Logged" />
+                  ) : (
+                    <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => logItems([item])}>
+                      Log
+                    </Button>
+                  ))}
+              </div>
+              <div className="text-muted-foreground">
+                {item.food.description} · {Math.round(item.grams)}g · {Math.round(item.nutrients.calories ?? 0)} kcal
+              </div>
+            </li>
+          ))}
+        </ul>
+      </details>
+
+      {payload.unresolved?.length > 0 && (
+        <p className="border-b border-foreground py-1 text-xs">
+          Not included: {payload.unresolved.map((entry) => entry.item).join(", ")}
+        </p>
+      )}
+
+      {onLog && items.length > 0 && (
+        <div className="flex items-center gap-2 border-b border-foreground py-2">
+          <Select value={meal} onValueChange={(value) => setMeal(value as Meal)}>
+            <SelectTrigger className="h-8 flex-1 capitalize">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MEALS.map((option) => (
+                <SelectItem key={option} value={option} className="capitalize">
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={items.every((item) => logged.includes(item.item))}
+            onClick={() => logItems(items.filter((item) => !logged.includes(item.item)))}
+          >
+            <NotebookPen className="h-4 w-4" />
+            Log this
+          </Button>
+        </div>
+      )}
+      {logError && <p className="py-1 text-xs text-destructive">{logError}</p>}
+
+      <p className="pt-1 text-[10px] leading-tight">
+        * The % Daily Value tells you how much a nutrient in a serving of food contributes to a daily diet.{" "}
+        {calorieTarget === 2000
+          ? "2,000 calories a day is used for general nutrition advice."
+          : `Based on your target of ${calorieTarget.toLocaleString("en-US")} calories a day.`}{" "}
+        Source: USDA FoodData Central.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+import { ShieldAlert, TriangleAlert } from "lucide-react"
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import type { SafetyReport } from "@/lib/safety"
+
+export function SafetyWarning({ reports }: { reports: SafetyReport[] }) {
+  const blocked = reports.some((report) => report.blocked)
+  const request = reports.filter((report) => report.stage === "request").flatMap((report) => report.violations)
+  const response = reports.filter((report) => report.stage === "response").flatMap((report) => report.violations)
+
+  return (
+    <Alert variant={blocked ? "destructive" : "default"} className="mb-3">
+      {blocked ? <ShieldAlert className="h-4 w-4" /> : <TriangleAlert className="h-4 w-4" />}
+      <AlertTitle>{blocked ? "Answer withheld for your safety" : "Dietary restriction warning"}</AlertTitle>
+      <AlertDescription className="flex flex-col gap-2">
+        {request.length > 0 && (
+          <ul className="list-disc pl-4">
+            {request.map((violation, index) => (
+              <li key={`request-${index}`}>
+                {violation.context} conflicts with your {violation.label}.
+              </li>
+            ))}
+          </ul>
+        )}
+        {response.length > 0 && (
+          <ul className="list-disc pl-4">
+            {response.map((violation, index) => (
+              <li key={`response-${index}`}>
+                This answer mentions {violation.term}, which conflicts with your {violation.label}.
+              </li>
+            ))}
+          </ul>
+        )}
+        {blocked && <p>Ask again for a version without these foods.</p>}
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -0,0 +1,71 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { RefreshCw } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { fetchHealth, type CheckResult, type CheckStatus, type HealthReport } from "@/lib/health"
+
+const LABELS: Record<CheckResult["name"], string> = {
+  llm: "Language model",
+  fdc: "Food database",
+  storage: "Storage",
+}
+
+const DOT_COLORS: Record<CheckStatus, string> = {
+  ok: "bg-green-500",
+  degraded: "bg-amber-500",
+  down: "bg-red-500",
+}
+
+// Compact service status for the sidebar footer, refreshed on demand
+export function StatusPanel() {
+  const [report, setReport] = useState<HealthReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setReport(await fetchHealth())
+      setError(null)
+    } catch (err) {
+      console.error("Failed to load service status:", err)
+      setError("Status unavailable")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  return (
+    <div className="border-t p-3 text-xs text-muted-foreground">
+      <div className="flex items-center justify-between mb-1">
+        <span className="font-medium text-foreground">Service status</span>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={refresh} disabled={isLoading}>
+          <RefreshCw className={cn("h-3 w-3", isLoading && "animate-spin")} />
+          <span className="sr-only">Refresh status</span>
+        </Button>
+      </div>
+
+      {error && <p className="text-destructive">{error}</p>}
+
+      {report && (
+        <ul className="space-y-1">
+          {report.checks.map((check) => (
+            <li key={check.name} className="flex items-center gap-2" title={check.error ?? check.detail}>
+              <span className={cn("h-2 w-2 rounded-full shrink-0", DOT_COLORS[check.status])} />
+              <span className="truncate">{LABELS[check.name]}</span>
+              <span className="ml-auto tabular-nums">{check.latencyMs} ms</span>
+            </li>
+          ))}
+          <li className="pt-1">v{report.version}</li>
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,42 @@
+import { cn } from "@/lib/utils"
+import { NUTRIENT_DEFINITIONS, type NutrientKey } from "@/lib/nutrition"
+
+// Nutrients where going over the target is the problem rather than the goal
+const LIMITS: NutrientKey[] = ["sodium", "saturatedFat", "addedSugars", "cholesterol"]
+
+const DEFINITIONS = Object.fromEntries(NUTRIENT_DEFINITIONS.map((definition) => [definition.key, definition]))
+
+// One nutrient's total against its daily target, as a labeled bar
+export function TargetProgress({
+  nutrient,
+  value,
+  target,
+  over: isOver,
+}: {
+  nutrient: NutrientKey
+  value: number
+  target?: number
+  // Marks the bar as off target; defaults to the food log's rule
+  over?: boolean
+}) {
+  const progress = target ? value / target : 0
+  const over = isOver ?? (LIMITS.includes(nutrient) ? progress > 1 : progress > 1.1)
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm">
+        <span>{DEFINITIONS[nutrient].label}</span>
+        <span className="text-muted-foreground">
+          {Math.round(value)}
+          {target ? ` / ${Math.round(target)}` : ""} {DEFINITIONS[nutrient].unit}
+        </span>
+      </div>
+      <div className="h-2 rounded-full bg-muted overflow-hidden">
+        <div
+          className={cn("h-full rounded-full", over ? "bg-destructive" : "bg-primary")}
+          style={{ width: `${Math.min(progress, 1) * 100}%` }}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+import type { SessionUser } from "./session"
+
+const BASE_URL = "/api/auth"
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(`${BASE_URL}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  })
+
+  if (!res.ok) {
+    const body = await res.json().catch(() => null)
+    throw new Error(body?.error || `Request failed with status ${res.status}`)
+  }
+
+  return (res.status === 204 ? null : await res.json()) as T
+}
+
+// Browser wrappers around the /api/auth routes
+export const authClient = {
+  async session() {
+    const res = await fetch(`${BASE_URL}/session`)
+    if (res.status === 401) return null
+    if (!res.ok) throw new Error(`Session request failed with status ${res.status}`)
+    return ((await res.json()) as { user: SessionUser }).user
+  },
+
+  async login(email: string, password: string) {
+    return (await request<{ user: SessionUser }>("/login", { method: "POST", body: JSON.stringify({ email, password }) }))
+      .user
+  },
+
+  async register(email: string, password: string) {
+    return (
+      await request<{ user: SessionUser }>("/register", { method: "POST", body: JSON.stringify({ email, password }) })
+    ).user
+  },
+
+  requestMagicLink(email: string) {
+    return request<null>("/magic-link", { method: "POST", body: JSON.stringify({ email }) })
+  },
+
+  logout() {
+    return request<null>("/logout", { method: "POST" })
+  },
+}
@@ -0,0 +1,23 @@
+import { promises as fs } from "fs"
+import path from "path"
+
+import { DATA_DIR } from "@/lib/json-file"
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+const OUTBOX_DIR = path.join(DATA_DIR, "outbox")
+
+// Local stand-in for an email provider: messages are written to DATA_DIR/outbox and logged
+export async function sendMail(message: MailMessage) {
+  await fs.mkdir(OUTBOX_DIR, { recursive: true })
+
+  const fileName = `${Date.now()}-${message.to.replace(/[^\w.@-]/g, "_")}.txt`
+  const contents = `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`
+  await fs.writeFile(path.join(OUTBOX_DIR, fileName), contents, "utf8")
+
+  console.info(`[mail] ${message.subject} -> ${message.to} (saved to ${path.join(OUTBOX_DIR, fileName)})`)
+}
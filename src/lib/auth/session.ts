@@ -0,0 +1,115 @@
+// Stateless signed session cookies. Uses only Web Crypto so the middleware (edge runtime)
+// and the Node route handlers can share it.
+
+export const SESSION_COOKIE = "nic_session"
+export const SESSION_MAX_AGE = 60 * 60 * 24 * 7 // seconds
+
+const DEV_SECRET = "nic-development-secret"
+
+export interface SessionUser {
+  id: string
+  email: string
+}
+
+interface SessionPayload {
+  sub: string
+  email: string
+  exp: number
+}
+
+export class AuthConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "AuthConfigError"
+  }
+}
+
+let warnedAboutSecret = false
+
+function getSecret() {
+  const secret = process.env.AUTH_SECRET
+  if (secret) return secret
+
+  if (process.env.NODE_ENV === "production") {
+    throw new AuthConfigError("AUTH_SECRET must be set in production")
+  }
+  if (!warnedAboutSecret) {
+    console.warn("AUTH_SECRET is not set; using an insecure development secret")
+    warnedAboutSecret = true
+  }
+  return DEV_SECRET
+}
+
+const encoder = new TextEncoder()
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = ""
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(value: string) {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+function importKey() {
+  return crypto.subtle.importKey("raw", encoder.encode(getSecret()), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+    "verify",
+  ])
+}
+
+export async function createSessionToken(user: SessionUser, now = Date.now()) {
+  const payload: SessionPayload = { sub: user.id, email: user.email, exp: Math.floor(now / 1000) + SESSION_MAX_AGE }
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)))
+  const signature = await crypto.subtle.sign("HMAC", await importKey(), encoder.encode(body))
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+// Returns the signed-in user, or null for a missing, tampered or expired token
+export async function verifySessionToken(token: string | undefined, now = Date.now()): Promise<SessionUser | null> {
+  if (!token) return null
+
+  const [body, signature, extra] = token.split(".")
+  if (!body || !signature || extra !== undefined) return null
+
+  try {
+    const valid = await crypto.subtle.verify("HMAC", await importKey(), fromBase64Url(signature), encoder.encode(body))
+    if (!valid) return null
+
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as Partial<SessionPayload>
+    if (typeof payload.sub !== "string" || typeof payload.email !== "string" || typeof payload.exp !== "number") {
+      return null
+    }
+    if (payload.exp * 1000 <= now) return null
+
+    return { id: payload.sub, email: payload.email }
+  } catch (error) {
+    if (error instanceof AuthConfigError) throw error
+    return null
+  }
+}
+
+function readCookie(header: string | null, name: string) {
+  if (!header) return undefined
+
+  for (const part of header.split(";")) {
+    const [key, ...value] = part.trim().split("=")
+    if (key === name) return decodeURIComponent(value.join("="))
+  }
+  return undefined
+}
+
+export function getSessionUser(req: Request) {
+  return verifySessionToken(readCookie(req.headers.get("cookie"), SESSION_COOKIE))
+}
+
+export function sessionCookie(token: string) {
+  const secure = process.env.NODE_ENV === "production" ? "; Secure" : ""
+  return `${SESSION_COOKIE}=${token}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${SESSION_MAX_AGE}${secure}`
+}
+
+export function clearedSessionCookie() {
+  return `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`
+}
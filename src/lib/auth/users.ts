@@ -0,0 +1,135 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto"
+import path from "path"
+import { promisify } from "util"
+
+import { DATA_DIR, createJSONFile } from "@/lib/json-file"
+
+import type { SessionUser } from "./session"
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>
+
+const KEY_LENGTH = 64
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000
+
+export const MIN_PASSWORD_LENGTH = 8
+
+export interface User extends SessionUser {
+  // null for accounts that have only ever signed in by email link
+  passwordHash: string | null
+  createdAt: string
+}
+
+interface MagicLink {
+  tokenHash: string
+  email: string
+  expiresAt: string
+}
+
+export function normalizeEmail(value: unknown) {
+  if (typeof value !== "string") return null
+  const email = value.trim().toLowerCase()
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) ? email : null
+}
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16)
+  const key = await scryptAsync(password, salt, KEY_LENGTH)
+  return `scrypt$${salt.toString("hex")}$${key.toString("hex")}`
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, key] = stored.split("$")
+  if (scheme !== "scrypt" || !salt || !key) return false
+
+  const expected = Buffer.from(key, "hex")
+  const actual = await scryptAsync(password, Buffer.from(salt, "hex"), expected.length)
+  return timingSafeEqual(actual, expected)
+}
+
+export interface UserStore {
+  findByEmail(email: string): Promise<User | null>
+  // Returns null when the email is already registered
+  register(email: string, password: string): Promise<User | null>
+  authenticate(email: string, password: string): Promise<User | null>
+  // Returns the raw token to put in the emailed link
+  createMagicLink(email: string, now?: number): Promise<string>
+  redeemMagicLink(token: string, now?: number): Promise<User | null>
+}
+
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex")
+}
+
+export function toSessionUser({ id, email }: User): SessionUser {
+  return { id, email }
+}
+
+// Server-only account and sign-in link storage
+export function createUserStore(dir = DATA_DIR): UserStore {
+  const users = createJSONFile<User[]>(path.join(dir, "users.json"), () => [])
+  const links = createJSONFile<MagicLink[]>(path.join(dir, "magic-links.json"), () => [])
+
+  const findByEmail = async (email: string) => (await users.read()).find((user) => user.email === email) ?? null
+
+  const findOrCreate = (email: string) =>
+    users.mutate((stored) => {
+      const existing = stored.find((user) => user.email === email)
+      if (existing) return existing
+
+      const user: User = { id: crypto.randomUUID(), email, passwordHash: null, createdAt: new Date().toISOString() }
+      stored.push(user)
+      return user
+    })
+
+  return {
+    findByEmail,
+
+    async register(email, password) {
+      const passwordHash = await hashPassword(password)
+      return users.mutate((stored) => {
+        if (stored.some((user) => user.email === email)) return null
+
+        const user: User = { id: crypto.randomUUID(), email, passwordHash, createdAt: new Date().toISOString() }
+        stored.push(user)
+        return user
+      })
+    },
+
+    async authenticate(email, password) {
+      const user = await findByEmail(email)
+      if (!user?.passwordHash) return null
+      return (await verifyPassword(password, user.passwordHash)) ? user : null
+    },
+
+    // Only the token's hash is stored, so a leaked data directory can't be used to sign in
+    async createMagicLink(email, now = Date.now()) {
+      const token = randomBytes(32).toString("hex")
+      await links.mutate((stored) => {
+        const live = stored.filter((link) => Date.parse(link.expiresAt) > now)
+        live.push({ tokenHash: hashToken(token), email, expiresAt: new Date(now + MAGIC_LINK_TTL_MS).toISOString() })
+        stored.splice(0, stored.length, ...live)
+      })
+      return token
+    },
+
+    // Links are single-use; the first successful sign-in creates the account
+    async redeemMagicLink(token, now = Date.now()) {
+      const tokenHash = hashToken(token)
+      const email = await links.mutate((stored) => {
+        const index = stored.findIndex((link) => link.tokenHash === tokenHash)
+        if (index === -1) return null
+
+        const [link] = stored.splice(index, 1)
+        return Date.parse(link.expiresAt) > now ? link.email : null
+      })
+      return email ? findOrCreate(email) : null
+    },
+  }
+}
+
+let userStore: UserStore | null = null
+
+export function getUserStore(): UserStore {
+  if (!userStore) userStore = createUserStore()
+  return userStore
+}
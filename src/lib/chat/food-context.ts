@@ -0,0 +1,118 @@
+import {
+  convertUnit,
+  formatPanel,
+  formatQuantity,
+  isMassUnit,
+  massToGrams,
+  scalePanel,
+  type FoodQuantity,
+  type NutritionLookup,
+} from "@/lib/nutrition"
+import type { ExtractedFood } from "@/lib/nutrition/extraction"
+
+import type { RememberedFood } from "./types"
+
+const MAX_REMEMBERED_FOODS = 30
+const MAX_PROMPT_FOODS = 12
+
+// Mentions that only point back at earlier foods: "that", "those two", "the same", "all of it"
+const REFERENCE_ONLY = /^(?:of\s+)?(?:(?:all|both|each|some|half)\s+(?:of\s+)?)?(?:it|that|this|those|these|them|they|the same|same)(?:\s+(?:one|ones|two|three|foods?|items?|meals?|dish(?:es)?|again))?$/i
+
+export function isReferenceOnly(food: string) {
+  return REFERENCE_ONLY.test(food.trim())
+}
+
+function key(entry: NutritionLookup) {
+  return `${entry.food.fdcId}:${entry.item}`
+}
+
+// Adds this turn's lookups to the conversation's food memory, newest last
+export function rememberFoods(foods: RememberedFood[], lookups: NutritionLookup[], turn: number): RememberedFood[] {
+  const fresh = new Set(lookups.map(key))
+  return [...foods.filter((entry) => !fresh.has(key(entry))), ...lookups.map((lookup) => ({ ...lookup, turn }))].slice(
+    -MAX_REMEMBERED_FOODS,
+  )
+}
+
+// Foods from the most recent turn that had any, which is what "that" usually means
+export function latestFoods(foods: RememberedFood[]) {
+  const turn = Math.max(...foods.map((entry) => entry.turn ?? 0))
+  return foods.filter((entry) => (entry.turn ?? 0) === turn)
+}
+
+// Labels the extraction model sees; a food's position in this list is its reference number
+export function describeKnownFoods(foods: RememberedFood[]) {
+  return foods.map((entry, index) => `${index + 1}. ${entry.item} (${entry.food.description})`)
+}
+
+// Rescales a remembered food to a new amount without another FDC lookup, or null when the units
+// can't be related without FDC portion data (e.g. "2 slices" of something looked up by weight)
+function rescale(entry: NutritionLookup, quantity: FoodQuantity): NutritionLookup | null {
+  const sameKind = convertUnit(quantity.quantity, quantity.unit, entry.quantity.unit)
+  const grams =
+    sameKind !== null
+      ? (entry.grams * sameKind) / entry.quantity.quantity
+      : isMassUnit(quantity.unit)
+        ? massToGrams(quantity.quantity, quantity.unit)
+        : null
+  if (grams === null) return null
+
+  const next = { ...quantity, food: entry.quantity.food, preparation: entry.quantity.preparation }
+  return {
+    ...entry,
+    item: formatQuantity(next),
+    quantity: next,
+    grams,
+    nutrients: scalePanel(entry.per100g, grams / 100),
+  }
+}
+
+export interface ResolvedFoods {
+  // Earlier lookups reused for this turn, rescaled where a new amount was given
+  reused: NutritionLookup[]
+  // Foods that still need an FDC lookup
+  pending: FoodQuantity[]
+}
+
+// Replaces references to earlier foods with their stored FDC data. A bare reference ("protein in that?")
+// keeps the earlier amount; an explicit one ("what about 3 of those") is rescaled.
+export function resolveFoodReferences(extracted: ExtractedFood[], known: RememberedFood[]): ResolvedFoods {
+  const reused: NutritionLookup[] = []
+  const pending: FoodQuantity[] = []
+
+  for (const { reference, ...quantity } of extracted) {
+    const referenced =
+      reference !== undefined && known[reference - 1]
+        ? [known[reference - 1]]
+        : isReferenceOnly(quantity.food) && known.length > 0
+          ? latestFoods(known)
+          : null
+
+    if (!referenced) {
+      if (!isReferenceOnly(quantity.food)) pending.push(quantity)
+      continue
+    }
+
+    const keepAmount = quantity.unit === "serving" && quantity.quantity === 1
+    for (const entry of referenced) {
+      const resolved = keepAmount || referenced.length > 1 ? entry : rescale(entry, quantity)
+      if (resolved) reused.push(resolved)
+      else pending.push({ ...quantity, food: entry.quantity.food, preparation: entry.quantity.preparation })
+    }
+  }
+
+  return { reused, pending }
+}
+
+// FDA data for foods from earlier turns, so answers stay grounded after those turns are summarized away
+export function describeRememberedFoods(foods: NutritionLookup[], current: NutritionLookup[]) {
+  const currentIds = new Set(current.map((entry) => entry.food.fdcId))
+  const earlier = foods.filter((entry) => !currentIds.has(entry.food.fdcId)).slice(-MAX_PROMPT_FOODS)
+  if (earlier.length === 0) return null
+
+  return earlier
+    .map(
+      (entry) => `${entry.item} (${entry.food.description}, ${Math.round(entry.grams)} g) → ${formatPanel(entry.nutrients)}`,
+    )
+    .join("\n")
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest"
+
+import { createMockProvider } from "@/lib/llm/mock"
+
+import { prepareHistory, reconcileContext } from "./history"
+import { emptyConversationContext, type ChatMessage } from "./types"
+
+function conversation(length: number, size = 10): ChatMessage[] {
+  return Array.from({ length }, (_, i) => ({
+    role: i % 2 === 0 ? "user" : "assistant",
+    content: `Message ${i} ${"x".repeat(size)}`,
+  }))
+}
+
+describe("prepareHistory", () => {
+  const llm = createMockProvider({ reply: () => "Earlier: eggs for breakfast.", contextWindow: 2048 })
+
+  it("counts messages the request dropped when it records what was summarized", async () => {
+    const messages = conversation(41, 200)
+    const history = await prepareHistory({
+      llm,
+      messages,
+      context: emptyConversationContext(),
+      reservedTokens: 0,
+      summarize: true,
+      offset: 100,
+    })
+
+    expect(history.omitted).toBeGreaterThan(100)
+    expect(history.context.summarizedCount).toBe(history.omitted)
+    expect(history.messages[0]).toMatchObject({ role: "system", content: expect.stringContaining("eggs") })
+
+    // The next turn arrives with one more message dropped from the front; the summary still lines up
+    const next = reconcileContext(history.context, [...messages.slice(1), ...conversation(2)], 101)
+    expect(next.summary).toBe(history.context.summary)
+  })
+})
@@ -0,0 +1,154 @@
+import type { LLMMessage, LLMProvider } from "@/lib/llm"
+import { estimateMessageTokens } from "@/lib/llm/tokens"
+
+import type { ChatMessage, ConversationContext } from "./types"
+
+// Room kept free for the model's answer
+export const RESPONSE_RESERVE_TOKENS = 1024
+// Once history overflows it's cut to this share of its budget, so summarization doesn't run every turn
+const TRIM_TARGET_RATIO = 0.6
+// The latest exchange always goes to the model verbatim
+const MIN_RECENT_MESSAGES = 2
+const SUMMARY_WORD_LIMIT = 200
+// Hard cap in case a model ignores the word limit; also what the history budget sets aside for the summary
+const SUMMARY_MAX_CHARS = 2000
+
+function fingerprint(message: ChatMessage) {
+  return `${message.role}:${message.content.length}:${message.content.slice(0, 80)}`
+}
+
+// Drops the summary when the messages it covers no longer match what the client sent,
+// e.g. after a regenerated answer or a conversation restored from another device.
+// `offset` is how many messages the request dropped from the front of the conversation.
+export function reconcileContext(
+  context: ConversationContext,
+  messages: ChatMessage[],
+  offset = 0,
+): ConversationContext {
+  if (context.summarizedCount === 0) return context
+  const summarizedCount = context.summarizedCount - offset
+  // The summary ends inside the dropped messages, so there's nothing left to compare it with
+  if (summarizedCount <= 0) return context
+
+  const last = messages[summarizedCount - 1]
+  if (summarizedCount < messages.length && last && fingerprint(last) === context.summarizedFingerprint) return context
+  return { ...context, summary: null, summarizedCount: 0, summarizedFingerprint: null }
+}
+
+// Index of the first message sent verbatim so that messages[cut..] fit the budget. Everything from
+// start up to cut is summarized (or dropped).
+export function findHistoryCut(messages: ChatMessage[], start: number, budget: number) {
+  const tokensFrom = (index: number) => estimateMessageTokens(messages.slice(index))
+  if (tokensFrom(start) <= budget) return start
+
+  const maxCut = Math.max(start, messages.length - MIN_RECENT_MESSAGES)
+  let cut = start
+  while (cut < maxCut && tokensFrom(cut) > budget * TRIM_TARGET_RATIO) cut++
+  // Start the verbatim part on a user turn so the model doesn't see an answer without its question
+  while (cut < maxCut && messages[cut].role !== "user") cut++
+  // Very long recent messages can still overflow; only the latest message is guaranteed a place
+  while (cut < messages.length - 1 && tokensFrom(cut) > budget) cut++
+  return cut
+}
+
+function transcript(messages: ChatMessage[]) {
+  return messages.map((message) => `${message.role === "user" ? "User" : "Assistant"}: ${message.content}`).join("\n\n")
+}
+
+// Folds messages into the running summary, in chunks small enough for the model to read at once
+async function extendSummary(
+  llm: LLMProvider,
+  summary: string | null,
+  messages: ChatMessage[],
+  signal?: AbortSignal,
+): Promise<string> {
+  const chunkBudget = Math.max(llm.contextWindow / 2 - RESPONSE_RESERVE_TOKENS, 512)
+  let from = 0
+
+  while (from < messages.length) {
+    let to = from + 1
+    while (to < messages.length && estimateMessageTokens(messages.slice(from, to + 1)) <= chunkBudget) to++
+
+    const reply = await llm.complete(
+      [
+        {
+          role: "system",
+          content:
+            `Summarize this conversation between a user and a nutrition assistant in at most ${SUMMARY_WORD_LIMIT} words. ` +
+            "Keep foods and amounts, nutrient figures, the user's goals and restrictions, decisions made and open questions. " +
+            "Write plain sentences.",
+        },
+        {
+          role: "user",
+          content: [summary && `Summary so far:\n${summary}`, `New messages:\n${transcript(messages.slice(from, to))}`]
+            .filter(Boolean)
+            .join("\n\n"),
+        },
+      ],
+      { signal },
+    )
+    summary = reply.trim().slice(0, SUMMARY_MAX_CHARS)
+    from = to
+  }
+
+  return summary ?? ""
+}
+
+function summaryMessage(summary: string): LLMMessage {
+  return { role: "system", content: `Summary of the earlier conversation:\n${summary}` }
+}
+
+export interface PreparedHistory {
+  // The summary, if any, followed by the messages sent verbatim
+  messages: LLMMessage[]
+  context: ConversationContext
+  // Messages not sent verbatim, including any the request had already dropped
+  omitted: number
+}
+
+export interface PrepareHistoryOptions {
+  llm: LLMProvider
+  messages: ChatMessage[]
+  context: ConversationContext
+  // Tokens already used by the system prompt and nutrition data
+  reservedTokens: number
+  // Off when there's nowhere to keep the summary; older messages are then just dropped
+  summarize: boolean
+  // Messages the request already dropped from the front of the conversation (ChatRequest.omittedMessages)
+  offset?: number
+  signal?: AbortSignal
+}
+
+// Fits the conversation into the model's context window, summarizing older turns as needed
+export async function prepareHistory({
+  llm,
+  messages,
+  context,
+  reservedTokens,
+  summarize,
+  offset = 0,
+  signal,
+}: PrepareHistoryOptions): Promise<PreparedHistory> {
+  let next = reconcileContext(context, messages, offset)
+  const summaryTokens = Math.ceil(SUMMARY_MAX_CHARS / 4)
+  const budget = llm.contextWindow - RESPONSE_RESERVE_TOKENS - reservedTokens - summaryTokens
+  // Indexes into this request's messages; the context counts from the start of the conversation
+  const start = Math.max(next.summarizedCount - offset, 0)
+  const cut = findHistoryCut(messages, start, budget)
+
+  if (cut > start && summarize) {
+    try {
+      const summary = await extendSummary(llm, next.summary, messages.slice(start, cut), signal)
+      next = { ...next, summary, summarizedCount: offset + cut, summarizedFingerprint: fingerprint(messages[cut - 1]) }
+    } catch (error) {
+      if (signal?.aborted) throw error
+      console.warn("Conversation summarization failed, dropping older messages instead:", error)
+    }
+  }
+
+  return {
+    messages: [...(next.summary ? [summaryMessage(next.summary)] : []), ...messages.slice(cut)],
+    context: next,
+    omitted: offset + cut,
+  }
+}
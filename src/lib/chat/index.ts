@@ -0,0 +1,4 @@
+export * from "./food-context"
+export * from "./history"
+export * from "./types"
+export * from "./validate"
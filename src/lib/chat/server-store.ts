@@ -0,0 +1,51 @@
+import { createJSONFile, userDataPath } from "@/lib/json-file"
+
+import type { ConversationContext } from "./types"
+
+export interface ConversationContextStore {
+  get(conversationId: string): Promise<ConversationContext | null>
+  save(conversationId: string, context: ConversationContext): Promise<void>
+  delete(conversationId: string): Promise<void>
+}
+
+// Contexts for conversations deleted only in the browser are never cleaned up, so keep the most recent ones
+const MAX_CONTEXTS = 100
+
+// Server-only summaries and food memory, one JSON file per user keyed by conversation id
+export function createFileConversationContextStore(filePath: string): ConversationContextStore {
+  const file = createJSONFile<Record<string, ConversationContext>>(filePath, () => ({}))
+
+  return {
+    async get(conversationId) {
+      return (await file.read())[conversationId] ?? null
+    },
+
+    save(conversationId, context) {
+      return file.mutate((stored) => {
+        stored[conversationId] = context
+
+        const stale = Object.entries(stored)
+          .sort(([, a], [, b]) => b.updatedAt.localeCompare(a.updatedAt))
+          .slice(MAX_CONTEXTS)
+        for (const [id] of stale) delete stored[id]
+      })
+    },
+
+    delete(conversationId) {
+      return file.mutate((stored) => {
+        delete stored[conversationId]
+      })
+    },
+  }
+}
+
+const serverStores = new Map<string, ConversationContextStore>()
+
+export function getServerConversationContextStore(userId: string): ConversationContextStore {
+  let store = serverStores.get(userId)
+  if (!store) {
+    store = createFileConversationContextStore(userDataPath(userId, "chat-context.json"))
+    serverStores.set(userId, store)
+  }
+  return store
+}
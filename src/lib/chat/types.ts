@@ -0,0 +1,41 @@
+import type { NutritionLookup } from "@/lib/nutrition"
+
+// Roles clients may send. System prompts are built on the server only.
+export const CHAT_ROLES = ["user", "assistant"] as const
+export type ChatRole = (typeof CHAT_ROLES)[number]
+
+export interface ChatMessage {
+  role: ChatRole
+  content: string
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[]
+  // Oldest messages dropped to stay within the request limits; summary and food memory indexes count them
+  omittedMessages: number
+  // Set by the chat UI; lets the server keep a rolling summary and food memory per conversation
+  conversationId: string | null
+  // Client-supplied system messages dropped from the request
+  strippedSystemMessages: number
+}
+
+export interface RememberedFood extends NutritionLookup {
+  // Index of the user message the food came up in
+  turn: number
+}
+
+// Server-side memory for one conversation, kept so long chats fit the model's context window
+export interface ConversationContext {
+  // Rolling summary of messages[0, summarizedCount)
+  summary: string | null
+  summarizedCount: number
+  // Identifies the last summarized message, so an edited or regenerated history invalidates the summary
+  summarizedFingerprint: string | null
+  // Foods resolved against FDC in earlier turns, newest last
+  foods: RememberedFood[]
+  updatedAt: string
+}
+
+export function emptyConversationContext(): ConversationContext {
+  return { summary: null, summarizedCount: 0, summarizedFingerprint: null, foods: [], updatedAt: new Date().toISOString() }
+}
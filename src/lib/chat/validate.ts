@@ -0,0 +1,84 @@
+import { CONVERSATION_ID_PATTERN } from "@/lib/conversations/import"
+import { estimateMessageTokens } from "@/lib/llm/tokens"
+
+import { CHAT_ROLES, type ChatMessage, type ChatRequest, type ChatRole } from "./types"
+
+// History is trimmed and summarized to fit the model, so these only bound how much of a request is read.
+// Clients send the whole conversation; older messages past either limit are dropped rather than rejected.
+export const MAX_MESSAGES = 200
+// Answers run longer than questions, so assistant turns get more room
+export const MAX_USER_MESSAGE_CHARS = 4000
+export const MAX_ASSISTANT_MESSAGE_CHARS = 16000
+export const MAX_REQUEST_TOKENS = 100000
+
+// Field is the path of the offending value, e.g. "messages[3].content", for precise 400s
+export type ChatParseResult = { ok: true; value: ChatRequest } | { ok: false; error: string; field: string }
+
+function isChatRole(value: unknown): value is ChatRole {
+  return CHAT_ROLES.includes(value as ChatRole)
+}
+
+// Validates a /api/chat body. Unknown fields (useChat's `data`, message ids and annotations) are ignored,
+// and system messages are removed so clients can't override the server's prompt.
+export function parseChatRequest(body: unknown): ChatParseResult {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { ok: false, error: "Body must be a JSON object.", field: "" }
+  }
+  const input = body as Record<string, unknown>
+
+  if (!Array.isArray(input.messages)) return { ok: false, error: "'messages' must be an array.", field: "messages" }
+
+  // Only the most recent messages are read; dropped system messages don't count towards the offset
+  const skipped = Math.max(input.messages.length - MAX_MESSAGES, 0)
+  let omittedMessages = input.messages
+    .slice(0, skipped)
+    .filter((entry) => (entry as Record<string, unknown> | null)?.role !== "system").length
+
+  const messages: ChatMessage[] = []
+  let strippedSystemMessages = 0
+
+  for (const [index, entry] of input.messages.slice(skipped).entries()) {
+    const field = `messages[${skipped + index}]`
+    if (typeof entry !== "object" || entry === null) return { ok: false, error: `'${field}' must be an object.`, field }
+
+    const { role, content } = entry as Record<string, unknown>
+    if (role === "system") {
+      strippedSystemMessages++
+      continue
+    }
+    if (!isChatRole(role)) {
+      return { ok: false, error: `'${field}.role' must be one of ${CHAT_ROLES.join(", ")}.`, field: `${field}.role` }
+    }
+    if (typeof content !== "string") {
+      return { ok: false, error: `'${field}.content' must be a string.`, field: `${field}.content` }
+    }
+
+    const limit = role === "user" ? MAX_USER_MESSAGE_CHARS : MAX_ASSISTANT_MESSAGE_CHARS
+    if (content.length > limit) {
+      return {
+        ok: false,
+        error: `'${field}.content' is ${content.length} characters; ${role} messages are limited to ${limit}.`,
+        field: `${field}.content`,
+      }
+    }
+
+    messages.push({ role, content })
+  }
+
+  const last = messages[messages.length - 1]
+  if (!last || last.role !== "user" || !last.content.trim()) {
+    return { ok: false, error: "The last message must be a non-empty user message.", field: "messages" }
+  }
+
+  while (messages.length > 1 && estimateMessageTokens(messages) > MAX_REQUEST_TOKENS) {
+    messages.shift()
+    omittedMessages++
+  }
+
+  const conversationId = input.conversationId ?? null
+  if (conversationId !== null && (typeof conversationId !== "string" || !CONVERSATION_ID_PATTERN.test(conversationId))) {
+    return { ok: false, error: "'conversationId' must be an id of letters, digits, '-' or '_'.", field: "conversationId" }
+  }
+
+  return { ok: true, value: { messages, omittedMessages, conversationId, strippedSystemMessages } }
+}
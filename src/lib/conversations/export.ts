@@ -0,0 +1,113 @@
+import { getNutritionPayload, type NutrientKey, type NutritionPayload } from "@/lib/nutrition"
+import { getSafetyReports } from "@/lib/safety"
+
+import { serializeConversation } from "./serialize"
+import type { Conversation, ConversationExport, Message } from "./types"
+
+// Conversations handed to the print view
+export const CONVERSATION_PRINT_KEY = "nic:print-conversations"
+
+export function toConversationExport(conversations: Conversation[], exportedAt = new Date()): ConversationExport {
+  return {
+    format: "nic-conversations",
+    version: 1,
+    exportedAt: exportedAt.toISOString(),
+    conversations: conversations.map(serializeConversation),
+  }
+}
+
+// Full fidelity: message timestamps and annotations such as nutrition payloads are kept
+export function conversationsToJSON(conversations: Conversation[]) {
+  return `${JSON.stringify(toConversationExport(conversations), null, 2)}\n`
+}
+
+const TABLE_NUTRIENTS: { key: NutrientKey; label: string }[] = [
+  { key: "calories", label: "Calories" },
+  { key: "protein", label: "Protein (g)" },
+  { key: "carbohydrate", label: "Carbs (g)" },
+  { key: "fat", label: "Fat (g)" },
+]
+
+function round(value: number | undefined) {
+  if (value === undefined) return ""
+  return String(value >= 10 ? Math.round(value) : Math.round(value * 10) / 10)
+}
+
+function cell(value: string) {
+  return value.replace(/\|/g, "\\|").replace(/\n/g, " ")
+}
+
+function tableRow(cells: string[]) {
+  return `| ${cells.join(" | ")} |`
+}
+
+function nutritionToMarkdown(payload: NutritionPayload) {
+  const lines: string[] = []
+  if (payload.items.length > 0) {
+    lines.push(
+      tableRow(["Food", "Amount", ...TABLE_NUTRIENTS.map((nutrient) => nutrient.label)]),
+      tableRow(["---", "---", ...TABLE_NUTRIENTS.map(() => "---:")]),
+      ...payload.items.map(({ item, food, grams, nutrients }) =>
+        tableRow([
+          cell(`${item} (${food.description})`),
+          `${Math.round(grams)} g`,
+          ...TABLE_NUTRIENTS.map((nutrient) => round(nutrients[nutrient.key])),
+        ]),
+      ),
+      tableRow([
+        "**Total**",
+        "",
+        ...TABLE_NUTRIENTS.map((nutrient) => {
+          const total = round(payload.totals[nutrient.key])
+          return total && `**${total}**`
+        }),
+      ]),
+    )
+  }
+  if (payload.unresolved?.length > 0) {
+    lines.push("", `_Not found in FoodData Central: ${payload.unresolved.map((food) => food.item).join(", ")}_`)
+  }
+  return lines.join("\n")
+}
+
+function messageToMarkdown(message: Message) {
+  const author = message.role === "user" ? "You" : "Assistant"
+  const parts = [`### ${author} · ${new Date(message.timestamp).toLocaleString()}`]
+
+  if (getSafetyReports(message.annotations).some((report) => report.blocked)) {
+    parts.push("> This answer was withheld by the dietary safety check.")
+  } else {
+    parts.push(message.content.trim())
+  }
+
+  const nutrition = message.role === "assistant" ? getNutritionPayload(message.annotations) : null
+  if (nutrition && (nutrition.items.length > 0 || nutrition.unresolved?.length > 0)) {
+    parts.push(nutritionToMarkdown(nutrition))
+  }
+  return parts.join("\n\n")
+}
+
+// Readable document for sharing; import only reads the JSON export
+export function conversationsToMarkdown(conversations: Conversation[]) {
+  const sections = conversations.map((conversation) =>
+    [
+      `# ${conversation.title}`,
+      `_Started ${new Date(conversation.createdAt).toLocaleString()}_`,
+      ...conversation.messages.map(messageToMarkdown),
+    ].join("\n\n"),
+  )
+  return `${sections.join("\n\n---\n\n")}\n`
+}
+
+// "protein-ideas.json" for one conversation, "nic-conversations-2025-01-31.md" for several
+export function exportFileName(conversations: Conversation[], extension: "json" | "md") {
+  const slug =
+    conversations.length === 1
+      ? conversations[0].title
+          .toLowerCase()
+          .replace(/[^a-z0-9]+/g, "-")
+          .replace(/^-+|-+$/g, "")
+          .slice(0, 60)
+      : ""
+  return `${slug || `nic-conversations-${new Date().toISOString().slice(0, 10)}`}.${extension}`
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest"
+
+import { conversationsToJSON } from "./export"
+import {
+  CONVERSATION_ID_PATTERN,
+  dedupeConversationIds,
+  MAX_CONVERSATION_MESSAGES,
+  parseConversationImport,
+} from "./import"
+import type { Conversation, Message } from "./types"
+
+const createdAt = new Date("2025-01-31T12:00:00.000Z")
+
+function messages(count: number): Message[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `m${i}`,
+    role: i % 2 === 0 ? "user" : "assistant",
+    content: `Message ${i}`,
+    timestamp: new Date(createdAt.getTime() + i * 1000),
+    ...(i === 1 ? { annotations: [{ type: "nutrition", items: [], unresolved: [] }] } : {}),
+  }))
+}
+
+describe("parseConversationImport", () => {
+  it("reads back everything the app can export", () => {
+    // A full conversation, alongside more conversations than any fixed cap would allow
+    const conversations: Conversation[] = [
+      {
+        id: "1738324800000",
+        title: "Lunch",
+        messages: messages(MAX_CONVERSATION_MESSAGES),
+        createdAt,
+        titleGenerated: true,
+      },
+      ...Array.from({ length: 600 }, (_, i) => ({ id: `c-${i}`, title: `Chat ${i}`, messages: [], createdAt })),
+    ]
+
+    const parsed = parseConversationImport(JSON.parse(conversationsToJSON(conversations)))
+    expect(parsed).toEqual({ ok: true, value: conversations })
+  })
+
+  it("rejects conversation ids the chat API wouldn't accept", () => {
+    const body = JSON.parse(conversationsToJSON([{ id: "c1", title: "Lunch", messages: [], createdAt }]))
+    body.conversations[0].id = "../c1"
+
+    expect(parseConversationImport(body)).toMatchObject({ ok: false, field: "conversations[0].id" })
+  })
+})
+
+describe("dedupeConversationIds", () => {
+  it("gives clashing conversations and messages new ids in the same format", () => {
+    const existing: Conversation = { id: "c1", title: "Lunch", messages: messages(2), createdAt }
+    const [copy] = dedupeConversationIds([existing], [existing])
+
+    expect(copy.id).not.toBe("c1")
+    expect(copy.id).toMatch(CONVERSATION_ID_PATTERN)
+    expect(copy.messages.map((message) => message.id)).not.toContain("m0")
+    expect(copy.messages.map((message) => message.content)).toEqual(["Message 0", "Message 1"])
+  })
+})
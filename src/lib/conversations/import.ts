@@ -0,0 +1,163 @@
+import type { JSONValue } from "ai"
+
+import { deserializeConversation } from "./serialize"
+import type { Conversation, StoredConversation, StoredMessage } from "./types"
+
+// Also enforced when the conversations API creates or updates a conversation, and by the chat page, which
+// won't send more once a conversation is full; an export is always within it
+export const MAX_CONVERSATION_MESSAGES = 1000
+// Same ids the chat API accepts; the app's own are timestamps
+export const CONVERSATION_ID_PATTERN = /^[\w-]{1,100}$/
+export const MAX_TITLE_CHARS = 200
+const ROLES: StoredMessage["role"][] = ["user", "assistant", "system"]
+
+type ParseResult<T> = { ok: true; value: T } | { ok: false; error: string; field: string }
+
+export type ConversationImportResult = ParseResult<Conversation[]>
+
+function isId(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0 && value.length <= 200
+}
+
+function isConversationId(value: unknown): value is string {
+  return typeof value === "string" && CONVERSATION_ID_PATTERN.test(value)
+}
+
+function isDate(value: unknown): value is string {
+  return typeof value === "string" && !Number.isNaN(Date.parse(value))
+}
+
+export function parseMessage(message: unknown, field: string): ParseResult<StoredMessage> {
+  const { id, role, content, timestamp, annotations } = (message ?? {}) as Record<string, unknown>
+  if (!isId(id)) return { ok: false, error: `'${field}.id' must be a non-empty string.`, field: `${field}.id` }
+  if (!ROLES.includes(role as StoredMessage["role"])) {
+    return { ok: false, error: `'${field}.role' must be one of ${ROLES.join(", ")}.`, field: `${field}.role` }
+  }
+  if (typeof content !== "string") {
+    return { ok: false, error: `'${field}.content' must be a string.`, field: `${field}.content` }
+  }
+  if (!isDate(timestamp)) {
+    return { ok: false, error: `'${field}.timestamp' must be an ISO date.`, field: `${field}.timestamp` }
+  }
+  if (annotations !== undefined && !Array.isArray(annotations)) {
+    return { ok: false, error: `'${field}.annotations' must be an array.`, field: `${field}.annotations` }
+  }
+
+  return {
+    ok: true,
+    value: {
+      id,
+      role: role as StoredMessage["role"],
+      content,
+      timestamp,
+      ...(annotations?.length ? { annotations: annotations as JSONValue[] } : {}),
+    },
+  }
+}
+
+export function parseTitle(title: unknown, field: string): ParseResult<string> {
+  if (typeof title !== "string" || !title.trim() || title.length > MAX_TITLE_CHARS) {
+    return {
+      ok: false,
+      error: `'${field}' must be a non-empty string of at most ${MAX_TITLE_CHARS} characters.`,
+      field,
+    }
+  }
+  return { ok: true, value: title.trim() }
+}
+
+export function parseMessages(messages: unknown, field: string): ParseResult<StoredMessage[]> {
+  if (!Array.isArray(messages) || messages.length > MAX_CONVERSATION_MESSAGES) {
+    return { ok: false, error: `'${field}' must be an array of at most ${MAX_CONVERSATION_MESSAGES}.`, field }
+  }
+
+  const parsed: StoredMessage[] = []
+  for (const [index, message] of messages.entries()) {
+    const result = parseMessage(message, `${field}[${index}]`)
+    if (!result.ok) return result
+    parsed.push(result.value)
+  }
+  return { ok: true, value: parsed }
+}
+
+// One conversation as exported or as sent to POST /api/conversations. `field` prefixes error paths
+// ("conversations[0].title"); request bodies leave it empty and get plain "title".
+export function parseStoredConversation(conversation: unknown, field = ""): ParseResult<StoredConversation> {
+  const { id, title, messages, createdAt, titleGenerated } = (conversation ?? {}) as Record<string, unknown>
+  const at = (key: string) => (field ? `${field}.${key}` : key)
+
+  if (!isConversationId(id)) {
+    return { ok: false, error: `'${at("id")}' must be an id of letters, digits, '-' or '_'.`, field: at("id") }
+  }
+  const parsedTitle = parseTitle(title, at("title"))
+  if (!parsedTitle.ok) return parsedTitle
+  if (!isDate(createdAt)) {
+    return { ok: false, error: `'${at("createdAt")}' must be an ISO date.`, field: at("createdAt") }
+  }
+  if (titleGenerated !== undefined && typeof titleGenerated !== "boolean") {
+    return { ok: false, error: `'${at("titleGenerated")}' must be a boolean.`, field: at("titleGenerated") }
+  }
+  const parsedMessages = parseMessages(messages, at("messages"))
+  if (!parsedMessages.ok) return parsedMessages
+
+  return {
+    ok: true,
+    value: { id, title: parsedTitle.value, messages: parsedMessages.value, createdAt, titleGenerated },
+  }
+}
+
+// Validates a file written by conversationsToJSON
+export function parseConversationImport(body: unknown): ConversationImportResult {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { ok: false, error: "The file must contain a JSON object.", field: "" }
+  }
+  const input = body as Record<string, unknown>
+
+  if (input.format !== "nic-conversations") {
+    return { ok: false, error: "This isn't a NIC conversation export.", field: "format" }
+  }
+  if (input.version !== 1) {
+    return { ok: false, error: `Export version ${String(input.version)} isn't supported.`, field: "version" }
+  }
+  // No cap on the count: nothing limits how many conversations there are to export
+  if (!Array.isArray(input.conversations)) {
+    return { ok: false, error: "'conversations' must be an array.", field: "conversations" }
+  }
+
+  const conversations: Conversation[] = []
+  for (const [index, conversation] of input.conversations.entries()) {
+    const parsed = parseStoredConversation(conversation, `conversations[${index}]`)
+    if (!parsed.ok) return parsed
+    conversations.push(deserializeConversation(parsed.value))
+  }
+
+  return { ok: true, value: conversations }
+}
+
+function freshId(taken: Set<string>) {
+  let id
+  do {
+    id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+  } while (taken.has(id))
+  return id
+}
+
+// Imported conversations and messages get new ids when they would clash with ones already in the
+// store or earlier in the file, so importing the same export twice makes a copy instead of overwriting
+export function dedupeConversationIds(imported: Conversation[], existing: Conversation[]): Conversation[] {
+  const takenConversations = new Set(existing.map((conversation) => conversation.id))
+  const takenMessages = new Set(existing.flatMap((conversation) => conversation.messages.map((message) => message.id)))
+
+  return imported.map((conversation) => {
+    const id = takenConversations.has(conversation.id) ? freshId(takenConversations) : conversation.id
+    takenConversations.add(id)
+
+    const messages = conversation.messages.map((message) => {
+      const messageId = takenMessages.has(message.id) ? freshId(takenMessages) : message.id
+      takenMessages.add(messageId)
+      return messageId === message.id ? message : { ...message, id: messageId }
+    })
+
+    return { ...conversation, id, messages }
+  })
+}
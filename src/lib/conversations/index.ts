@@ -0,0 +1,17 @@
+import { createLocalConversationStore } from "./local-store"
+import { createRemoteConversationStore } from "./remote-store"
+import type { ConversationStore } from "./types"
+
+export * from "./export"
+export * from "./import"
+export * from "./state"
+export { sortByNewest } from "./serialize"
+export type { Conversation, ConversationExport, ConversationStore, ConversationUpdate, Message } from "./types"
+
+// NEXT_PUBLIC_CONVERSATION_STORE picks the backend: "local" (default) or "server".
+// The server store scopes by session cookie; the local one needs the signed-in user's id.
+export function getConversationStore(userId: string): ConversationStore {
+  return process.env.NEXT_PUBLIC_CONVERSATION_STORE === "server"
+    ? createRemoteConversationStore()
+    : createLocalConversationStore(userId)
+}
@@ -0,0 +1,67 @@
+import { deserializeConversation, serializeConversation, sortByNewest } from "./serialize"
+import type { Conversation, ConversationStore, ConversationUpdate, StoredConversation } from "./types"
+
+// Keys are per user so people sharing a browser don't see each other's history
+function storageKey(userId: string) {
+  return `nic:conversations:${userId}`
+}
+
+function readAll(key: string): StoredConversation[] {
+  if (typeof window === "undefined") return []
+
+  try {
+    const raw = window.localStorage.getItem(key)
+    return raw ? (JSON.parse(raw) as StoredConversation[]) : []
+  } catch (error) {
+    console.error("Failed to read conversations from localStorage:", error)
+    return []
+  }
+}
+
+function writeAll(key: string, conversations: StoredConversation[]) {
+  if (typeof window === "undefined") return
+  window.localStorage.setItem(key, JSON.stringify(conversations))
+}
+
+// Browser-only store backed by localStorage
+export function createLocalConversationStore(userId: string): ConversationStore {
+  const key = storageKey(userId)
+
+  const update = async (id: string, changes: ConversationUpdate) => {
+    const stored = readAll(key)
+    const index = stored.findIndex((conv) => conv.id === id)
+    if (index === -1) return null
+
+    const updated = { ...deserializeConversation(stored[index]), ...changes }
+    stored[index] = serializeConversation(updated)
+    writeAll(key, stored)
+    return updated
+  }
+
+  return {
+    async list() {
+      return sortByNewest(readAll(key).map(deserializeConversation))
+    },
+
+    async get(id) {
+      const conversation = readAll(key).find((conv) => conv.id === id)
+      return conversation ? deserializeConversation(conversation) : null
+    },
+
+    async create(conversation: Conversation) {
+      const stored = readAll(key).filter((conv) => conv.id !== conversation.id)
+      writeAll(key, [serializeConversation(conversation), ...stored])
+      return conversation
+    },
+
+    update,
+
+    async rename(id, title) {
+      return update(id, { title, titleGenerated: true })
+    },
+
+    async delete(id) {
+      writeAll(key, readAll(key).filter((conv) => conv.id !== id))
+    },
+  }
+}
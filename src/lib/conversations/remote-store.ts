@@ -0,0 +1,74 @@
+import { deserializeConversation, serializeConversation } from "./serialize"
+import type { ConversationStore, ConversationUpdate, StoredConversation } from "./types"
+
+const BASE_URL = "/api/conversations"
+
+async function request<T>(url: string, init?: RequestInit): Promise<T | null> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  })
+
+  if (res.status === 404) return null
+  if (!res.ok) {
+    const body = await res.json().catch(() => null)
+    throw new Error(body?.error || `Conversation request failed with status ${res.status}`)
+  }
+
+  return res.status === 204 ? null : ((await res.json()) as T)
+}
+
+function toPayload(changes: ConversationUpdate) {
+  const { messages, ...rest } = changes
+  if (!messages) return rest
+
+  // Reuse the conversation serializer so message timestamps go over the wire as ISO strings
+  const { messages: storedMessages } = serializeConversation({
+    id: "",
+    title: "",
+    createdAt: new Date(),
+    messages,
+  })
+  return { ...rest, messages: storedMessages }
+}
+
+// Browser store that talks to the /api/conversations routes
+export function createRemoteConversationStore(): ConversationStore {
+  const update = async (id: string, changes: ConversationUpdate) => {
+    const conversation = await request<StoredConversation>(`${BASE_URL}/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      body: JSON.stringify(toPayload(changes)),
+    })
+    return conversation ? deserializeConversation(conversation) : null
+  }
+
+  return {
+    async list() {
+      const conversations = await request<StoredConversation[]>(BASE_URL)
+      return (conversations ?? []).map(deserializeConversation)
+    },
+
+    async get(id) {
+      const conversation = await request<StoredConversation>(`${BASE_URL}/${encodeURIComponent(id)}`)
+      return conversation ? deserializeConversation(conversation) : null
+    },
+
+    async create(conversation) {
+      const created = await request<StoredConversation>(BASE_URL, {
+        method: "POST",
+        body: JSON.stringify(serializeConversation(conversation)),
+      })
+      return created ? deserializeConversation(created) : conversation
+    },
+
+    update,
+
+    async rename(id, title) {
+      return update(id, { title, titleGenerated: true })
+    },
+
+    async delete(id) {
+      await request(`${BASE_URL}/${encodeURIComponent(id)}`, { method: "DELETE" })
+    },
+  }
+}
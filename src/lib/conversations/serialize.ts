@@ -0,0 +1,46 @@
+import type { Conversation, Message, StoredConversation, StoredMessage } from "./types"
+
+export function serializeMessage(message: Message): StoredMessage {
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    timestamp: new Date(message.timestamp).toISOString(),
+    ...(message.annotations?.length ? { annotations: message.annotations } : {}),
+  }
+}
+
+export function deserializeMessage(message: StoredMessage): Message {
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    timestamp: new Date(message.timestamp),
+    ...(message.annotations?.length ? { annotations: message.annotations } : {}),
+  }
+}
+
+export function serializeConversation(conversation: Conversation): StoredConversation {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    messages: conversation.messages.map(serializeMessage),
+    createdAt: new Date(conversation.createdAt).toISOString(),
+    titleGenerated: conversation.titleGenerated,
+  }
+}
+
+export function deserializeConversation(conversation: StoredConversation): Conversation {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    messages: conversation.messages.map(deserializeMessage),
+    createdAt: new Date(conversation.createdAt),
+    titleGenerated: conversation.titleGenerated,
+  }
+}
+
+// Newest conversations first, matching the sidebar order
+export function sortByNewest(conversations: Conversation[]): Conversation[] {
+  return [...conversations].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+}
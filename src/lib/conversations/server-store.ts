@@ -0,0 +1,65 @@
+import { createJSONFile, userDataPath } from "@/lib/json-file"
+
+import { deserializeConversation, serializeConversation, sortByNewest } from "./serialize"
+import type { Conversation, ConversationStore, ConversationUpdate, StoredConversation } from "./types"
+
+// Server-only store that keeps a user's conversations in a single JSON file
+export function createFileConversationStore(filePath: string): ConversationStore {
+  const file = createJSONFile<StoredConversation[]>(filePath, () => [])
+  const readAll = file.read
+  const mutate = file.mutate
+
+  const update = (id: string, changes: ConversationUpdate) =>
+    mutate((stored) => {
+      const index = stored.findIndex((conv) => conv.id === id)
+      if (index === -1) return null
+
+      const updated: Conversation = { ...deserializeConversation(stored[index]), ...changes }
+      stored[index] = serializeConversation(updated)
+      return updated
+    })
+
+  return {
+    async list() {
+      return sortByNewest((await readAll()).map(deserializeConversation))
+    },
+
+    async get(id) {
+      const conversation = (await readAll()).find((conv) => conv.id === id)
+      return conversation ? deserializeConversation(conversation) : null
+    },
+
+    create(conversation) {
+      return mutate((stored) => {
+        const index = stored.findIndex((conv) => conv.id === conversation.id)
+        if (index !== -1) stored.splice(index, 1)
+        stored.unshift(serializeConversation(conversation))
+        return conversation
+      })
+    },
+
+    update,
+
+    rename(id, title) {
+      return update(id, { title, titleGenerated: true })
+    },
+
+    async delete(id) {
+      await mutate((stored) => {
+        const index = stored.findIndex((conv) => conv.id === id)
+        if (index !== -1) stored.splice(index, 1)
+      })
+    },
+  }
+}
+
+const serverStores = new Map<string, ConversationStore>()
+
+export function getServerConversationStore(userId: string): ConversationStore {
+  let store = serverStores.get(userId)
+  if (!store) {
+    store = createFileConversationStore(userDataPath(userId, "conversations.json"))
+    serverStores.set(userId, store)
+  }
+  return store
+}
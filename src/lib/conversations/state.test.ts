@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest"
+
+import {
+  addConversation,
+  cleanTitle,
+  isConversationFull,
+  newConversation,
+  removeConversation,
+  setConversationTitle,
+  syncMessages,
+  toChatMessages,
+} from "./state"
+import type { Conversation } from "./types"
+
+const earlier = new Date("2025-01-31T12:00:00.000Z")
+const now = new Date("2025-02-01T08:00:00.000Z")
+
+function conversation(id: string, changes: Partial<Conversation> = {}): Conversation {
+  return { id, title: "New conversation", messages: [], createdAt: earlier, ...changes }
+}
+
+describe("newConversation", () => {
+  it("starts an empty conversation at the top of the list", () => {
+    const created = newConversation(now)
+    expect(created).toEqual({ id: String(now.getTime()), title: "New conversation", messages: [], createdAt: now })
+    expect(addConversation([conversation("a")], created).map((entry) => entry.id)).toEqual([created.id, "a"])
+  })
+})
+
+describe("syncMessages", () => {
+  it("titles a new conversation after its first question", () => {
+    const synced = syncMessages(
+      conversation("a"),
+      [{ id: "m1", role: "user", content: "How much protein is in two boiled eggs?" }],
+      now,
+    )
+
+    expect(synced).toMatchObject({
+      title: "How much protein is in two boi...",
+      titleGenerated: false,
+      messages: [{ id: "m1", timestamp: now }],
+    })
+  })
+
+  it("keeps existing timestamps and titles", () => {
+    const current = conversation("a", {
+      title: "Eggs",
+      messages: [{ id: "m1", role: "user", content: "Eggs?", timestamp: earlier }],
+    })
+    const synced = syncMessages(
+      current,
+      [
+        { id: "m1", role: "user", content: "Eggs?" },
+        { id: "m2", role: "assistant", content: "About 12 g of protein." },
+      ],
+      now,
+    )
+
+    expect(synced.title).toBe("Eggs")
+    expect(synced.messages.map((message) => message.timestamp)).toEqual([earlier, now])
+    expect(toChatMessages(synced)).toEqual([
+      { id: "m1", role: "user", content: "Eggs?", annotations: undefined },
+      { id: "m2", role: "assistant", content: "About 12 g of protein.", annotations: undefined },
+    ])
+  })
+
+  it("doesn't replace a title the user chose", () => {
+    const renamed = setConversationTitle([conversation("a")], "a", "Breakfast ideas")[0]
+    const synced = syncMessages(renamed, [{ id: "m1", role: "user", content: "Oats or eggs?" }], now)
+    expect(synced).toMatchObject({ title: "Breakfast ideas", titleGenerated: true })
+  })
+})
+
+describe("isConversationFull", () => {
+  it("stops a conversation before another exchange would take it past the message limit", () => {
+    expect(isConversationFull(998)).toBe(false)
+    expect(isConversationFull(999)).toBe(true)
+  })
+})
+
+describe("cleanTitle", () => {
+  it("trims and caps typed titles and rejects empty ones", () => {
+    expect(cleanTitle("  Lunch  ")).toBe("Lunch")
+    expect(cleanTitle("x".repeat(250))).toHaveLength(200)
+    expect(cleanTitle("   ")).toBeNull()
+    expect(cleanTitle(null)).toBeNull()
+  })
+})
+
+describe("removeConversation", () => {
+  const list = [conversation("a"), conversation("b"), conversation("c")]
+
+  it("keeps the selection when another conversation is deleted", () => {
+    expect(removeConversation(list, "b", "c")).toEqual({ conversations: [list[0], list[2]], activeId: "c" })
+  })
+
+  it("moves to the newest remaining conversation when the active one is deleted", () => {
+    expect(removeConversation(list, "a", "a").activeId).toBe("b")
+    expect(removeConversation([list[0]], "a", "a")).toEqual({ conversations: [], activeId: null })
+  })
+})
@@ -0,0 +1,79 @@
+import type { Message as AIMessage } from "ai"
+
+import { MAX_CONVERSATION_MESSAGES, MAX_TITLE_CHARS } from "./import"
+import type { Conversation } from "./types"
+
+// Sidebar bookkeeping for the chat page, kept free of React so it can be tested on its own
+
+const AUTO_TITLE_CHARS = 30
+
+export function newConversation(now = new Date()): Conversation {
+  return { id: now.getTime().toString(), title: "New conversation", messages: [], createdAt: now }
+}
+
+// New conversations go to the top, matching sortByNewest
+export function addConversation(conversations: Conversation[], conversation: Conversation): Conversation[] {
+  return [conversation, ...conversations]
+}
+
+export function findConversation(conversations: Conversation[], id: string | null): Conversation | null {
+  return conversations.find((conversation) => conversation.id === id) ?? null
+}
+
+// The stored messages in the shape useChat expects
+export function toChatMessages(conversation: Conversation): AIMessage[] {
+  return conversation.messages.map(({ id, role, content, annotations }) => ({ id, role, content, annotations }))
+}
+
+// Copies the chat's messages into the conversation, keeping each message's first timestamp. A conversation's
+// first user message becomes its title unless one was set already.
+export function syncMessages(conversation: Conversation, messages: AIMessage[], now = new Date()): Conversation {
+  const updated = messages.map((message) => ({
+    ...message,
+    timestamp: conversation.messages.find((existing) => existing.id === message.id)?.timestamp ?? now,
+  }))
+
+  const titleGenerated = conversation.titleGenerated || false
+  let title = conversation.title
+  if (conversation.messages.length === 0 && messages[0]?.role === "user" && !titleGenerated) {
+    const content = messages[0].content
+    title = content.substring(0, AUTO_TITLE_CHARS) + (content.length > AUTO_TITLE_CHARS ? "..." : "")
+  }
+
+  return { ...conversation, title, titleGenerated, messages: updated }
+}
+
+export function updateConversation(
+  conversations: Conversation[],
+  id: string,
+  update: (conversation: Conversation) => Conversation,
+): Conversation[] {
+  return conversations.map((conversation) => (conversation.id === id ? update(conversation) : conversation))
+}
+
+// Whether another question and its answer would take the conversation past what the stores and import accept
+export function isConversationFull(messageCount: number) {
+  return messageCount + 2 > MAX_CONVERSATION_MESSAGES
+}
+
+// A title typed by the user, or null when there's nothing left after trimming
+export function cleanTitle(input: string | null | undefined): string | null {
+  return input?.trim().slice(0, MAX_TITLE_CHARS) || null
+}
+
+// A user-chosen title is never replaced by the automatic one
+export function setConversationTitle(conversations: Conversation[], id: string, title: string): Conversation[] {
+  return updateConversation(conversations, id, (conversation) => ({ ...conversation, title, titleGenerated: true }))
+}
+
+// Removes a conversation and picks what to show next: the active one if it survived, otherwise the newest left,
+// or null when there's none
+export function removeConversation(
+  conversations: Conversation[],
+  id: string,
+  activeId: string | null,
+): { conversations: Conversation[]; activeId: string | null } {
+  const remaining = conversations.filter((conversation) => conversation.id !== id)
+  if (id !== activeId) return { conversations: remaining, activeId }
+  return { conversations: remaining, activeId: remaining[0]?.id ?? null }
+}
@@ -0,0 +1,51 @@
+import type { Message as AIMessage, JSONValue } from "ai"
+
+// Extend the AI SDK Message type with our additional properties
+export interface Message extends AIMessage {
+  timestamp: Date
+}
+
+export interface Conversation {
+  id: string
+  title: string
+  messages: Message[]
+  createdAt: Date
+  titleGenerated?: boolean
+}
+
+// JSON-safe shape used by every backend (dates as ISO strings)
+export interface StoredMessage {
+  id: string
+  role: Message["role"]
+  content: string
+  timestamp: string
+  // Server-attached data such as the nutrition payload
+  annotations?: JSONValue[]
+}
+
+export interface StoredConversation {
+  id: string
+  title: string
+  messages: StoredMessage[]
+  createdAt: string
+  titleGenerated?: boolean
+}
+
+export type ConversationUpdate = Partial<Pick<Conversation, "title" | "messages" | "titleGenerated">>
+
+export interface ConversationStore {
+  list(): Promise<Conversation[]>
+  get(id: string): Promise<Conversation | null>
+  create(conversation: Conversation): Promise<Conversation>
+  update(id: string, changes: ConversationUpdate): Promise<Conversation | null>
+  rename(id: string, title: string): Promise<Conversation | null>
+  delete(id: string): Promise<void>
+}
+
+// File written by "Export" and read back by "Import"
+export interface ConversationExport {
+  format: "nic-conversations"
+  version: 1
+  exportedAt: string
+  conversations: StoredConversation[]
+}
@@ -0,0 +1,78 @@
+import { ERROR_DEFINITIONS, type ApiErrorBody, type ErrorCode } from "./types"
+
+// What the chat UI shows for a failed request
+export interface ErrorPresentation {
+  title: string
+  message: string
+  // Whether offering Retry makes sense; retryAfter delays it
+  canRetry: boolean
+  retryAfter?: number
+  // The session is gone and the user must sign in again
+  requiresSignIn: boolean
+}
+
+const PRESENTATIONS: Record<ErrorCode, Pick<ErrorPresentation, "title" | "message">> = {
+  validation_failed: {
+    title: "Message couldn't be sent",
+    message: "Something about this message wasn't accepted. Try editing it and sending again.",
+  },
+  unauthenticated: { title: "Signed out", message: "Your session has ended. Sign in again to keep chatting." },
+  forbidden: { title: "Not allowed", message: "This request isn't allowed from here." },
+  not_found: { title: "Not found", message: "It may have been deleted. Refresh and try again." },
+  conflict: { title: "Already exists", message: "Something with the same details already exists." },
+  quota_exceeded: { title: "Slow down", message: "You've sent a lot of messages. Please wait before trying again." },
+  llm_unavailable: {
+    title: "Assistant unavailable",
+    message: "The language model didn't respond. This is usually temporary.",
+  },
+  fdc_unavailable: {
+    title: "Food data unavailable",
+    message: "Nutrition data couldn't be loaded right now. This is usually temporary.",
+  },
+  content_refused: {
+    title: "Message refused",
+    message: "The model's content filter declined this request. Try rephrasing it.",
+  },
+  not_configured: {
+    title: "Service not configured",
+    message: "The server is missing required settings. Contact the site administrator.",
+  },
+  internal_error: { title: "Something went wrong", message: "An unexpected error occurred." },
+}
+
+// Timeouts, dropped connections and streams cut off mid-answer never reach the API's error body
+const NETWORK_ERROR: ErrorPresentation = {
+  title: "Connection problem",
+  message: "The response was interrupted. Check your connection and try again.",
+  canRetry: true,
+  requiresSignIn: false,
+}
+
+function isErrorCode(value: unknown): value is ErrorCode {
+  return typeof value === "string" && value in ERROR_DEFINITIONS
+}
+
+// useChat throws Error(responseText) for failed requests, so the API's JSON body is the message
+export function parseApiError(error: Error): ApiErrorBody | null {
+  try {
+    const body = JSON.parse(error.message)
+    return body && isErrorCode(body.code) ? (body as ApiErrorBody) : null
+  } catch {
+    return null
+  }
+}
+
+export function presentError(error: Error): ErrorPresentation {
+  const body = parseApiError(error)
+  if (!body) return NETWORK_ERROR
+
+  // Validation messages are written for users; every other code uses copy tailored for the UI
+  const presentation = PRESENTATIONS[body.code]
+  return {
+    title: presentation.title,
+    message: body.code === "validation_failed" ? body.error : presentation.message,
+    canRetry: body.retryable,
+    retryAfter: body.retryAfter,
+    requiresSignIn: body.code === "unauthenticated",
+  }
+}
@@ -0,0 +1,63 @@
+import { AuthConfigError } from "@/lib/auth/session"
+import { LLMConfigError } from "@/lib/llm"
+
+import { AppError, toErrorBody } from "./types"
+
+export interface ErrorContext {
+  // Route or operation the failure happened in, e.g. "POST /api/chat"
+  route: string
+  requestId?: string
+  userId?: string
+}
+
+// Maps anything thrown in a route onto the taxonomy; unknown errors become internal_error
+export function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) return error
+  if (error instanceof LLMConfigError || error instanceof AuthConfigError) {
+    return new AppError("not_configured", { cause: error })
+  }
+  if (error instanceof SyntaxError) {
+    return new AppError("validation_failed", { message: "Request body must be valid JSON.", cause: error })
+  }
+  return new AppError("internal_error", { cause: error })
+}
+
+function describeCause(cause: unknown) {
+  if (cause instanceof Error) return { name: cause.name, message: cause.message, stack: cause.stack }
+  return cause === undefined ? undefined : { message: String(cause) }
+}
+
+// One JSON line per failure so log tooling can filter on code and requestId
+export function logError(error: AppError, context: ErrorContext) {
+  const entry = {
+    level: error.status >= 500 ? "error" : "warn",
+    time: new Date().toISOString(),
+    code: error.code,
+    status: error.status,
+    message: error.message,
+    ...context,
+    cause: describeCause(error.cause),
+  }
+
+  if (entry.level === "error") console.error(JSON.stringify(entry))
+  else console.warn(JSON.stringify(entry))
+}
+
+// Same line format for notable events that aren't failures, e.g. a request that had to be cleaned up
+export function logEvent(level: "info" | "warn", message: string, context: ErrorContext & Record<string, unknown>) {
+  const line = JSON.stringify({ level, time: new Date().toISOString(), message, ...context })
+  if (level === "warn") console.warn(line)
+  else console.info(line)
+}
+
+// Logs the failure and returns the sanitized response. Never includes stacks or upstream messages.
+export function errorResponse(error: unknown, context: Omit<ErrorContext, "requestId">) {
+  const appError = toAppError(error)
+  const requestId = crypto.randomUUID()
+  logError(appError, { ...context, requestId })
+
+  const headers = new Headers({ "Content-Type": "application/json", "X-Request-Id": requestId })
+  if (appError.retryAfter !== undefined) headers.set("Retry-After", String(appError.retryAfter))
+
+  return new Response(JSON.stringify(toErrorBody(appError, requestId)), { status: appError.status, headers })
+}
@@ -0,0 +1,123 @@
+// Stable codes shared by the API and the UI. Clients branch on these, never on messages, so don't rename them.
+export type ErrorCode =
+  | "validation_failed"
+  | "unauthenticated"
+  | "forbidden"
+  | "not_found"
+  | "conflict"
+  | "quota_exceeded"
+  | "llm_unavailable"
+  | "fdc_unavailable"
+  | "content_refused"
+  | "not_configured"
+  | "internal_error"
+
+// What API routes send back for any failure. Messages are safe to show; details stay in the server log.
+export interface ApiErrorBody {
+  error: string
+  code: ErrorCode
+  retryable: boolean
+  // Seconds to wait before retrying, when the server knows
+  retryAfter?: number
+  // Path of the invalid value for validation_failed, e.g. "messages[3].content"
+  field?: string
+  // Matches the server log entry for this failure
+  requestId?: string
+}
+
+interface ErrorDefinition {
+  status: number
+  retryable: boolean
+  message: string
+}
+
+export const ERROR_DEFINITIONS: Record<ErrorCode, ErrorDefinition> = {
+  validation_failed: { status: 400, retryable: false, message: "The request was invalid." },
+  unauthenticated: { status: 401, retryable: false, message: "Authentication required" },
+  forbidden: { status: 403, retryable: false, message: "Not allowed" },
+  not_found: { status: 404, retryable: false, message: "Not found" },
+  conflict: { status: 409, retryable: false, message: "That already exists." },
+  quota_exceeded: { status: 429, retryable: true, message: "Too many requests" },
+  llm_unavailable: { status: 502, retryable: true, message: "The language model is unavailable." },
+  fdc_unavailable: { status: 503, retryable: true, message: "The food database is unavailable." },
+  content_refused: { status: 422, retryable: false, message: "The request was refused by the content filter." },
+  not_configured: { status: 500, retryable: false, message: "The server is missing required configuration." },
+  internal_error: { status: 500, retryable: true, message: "Unexpected error" },
+}
+
+export interface AppErrorOptions {
+  // Overrides the code's default client message; must not contain internals
+  message?: string
+  retryAfter?: number
+  cause?: unknown
+}
+
+// Base for errors with a stable code. The message is sent to clients, the cause is only logged.
+export class AppError extends Error {
+  readonly code: ErrorCode
+  readonly status: number
+  readonly retryable: boolean
+  readonly retryAfter?: number
+
+  constructor(code: ErrorCode, options: AppErrorOptions = {}) {
+    const definition = ERROR_DEFINITIONS[code]
+    super(options.message ?? definition.message, { cause: options.cause })
+    this.name = "AppError"
+    this.code = code
+    this.status = definition.status
+    this.retryable = definition.retryable
+    this.retryAfter = options.retryAfter
+  }
+}
+
+export class ValidationError extends AppError {
+  readonly field?: string
+
+  constructor(message: string, options: Omit<AppErrorOptions, "message"> & { field?: string } = {}) {
+    super("validation_failed", { ...options, message })
+    this.name = "ValidationError"
+    this.field = options.field
+  }
+}
+
+// The LLM provider failed or timed out
+export class LLMUpstreamError extends AppError {
+  constructor(options: AppErrorOptions = {}) {
+    super("llm_unavailable", options)
+    this.name = "LLMUpstreamError"
+  }
+}
+
+// The FDC API or the offline dataset couldn't be used at all
+export class FoodDataError extends AppError {
+  constructor(options: AppErrorOptions = {}) {
+    super("fdc_unavailable", options)
+    this.name = "FoodDataError"
+  }
+}
+
+export class QuotaExceededError extends AppError {
+  constructor(options: AppErrorOptions = {}) {
+    super("quota_exceeded", options)
+    this.name = "QuotaExceededError"
+  }
+}
+
+// The provider's moderation rejected the prompt or stopped the answer
+export class ContentRefusedError extends AppError {
+  constructor(options: AppErrorOptions = {}) {
+    super("content_refused", options)
+    this.name = "ContentRefusedError"
+  }
+}
+
+export function toErrorBody(error: AppError, requestId?: string): ApiErrorBody {
+  return {
+    error: error.message,
+    code: error.code,
+    retryable: error.retryable,
+    ...(error.retryAfter !== undefined && { retryAfter: error.retryAfter }),
+    ...(error instanceof ValidationError && error.field && { field: error.field }),
+    ...(requestId && { requestId }),
+  }
+}
@@ -0,0 +1,42 @@
+import type { Aisle } from "./types"
+
+// Checked in order, so specific phrases ("peanut butter", "black pepper") come before the words they contain
+const AISLE_TERMS: [Aisle, string[]][] = [
+  ["Frozen", ["frozen", "ice cream"]],
+  [
+    "Spices & condiments",
+    ["salt", "black pepper", "cinnamon", "cumin", "paprika", "chili powder", "oregano", "turmeric", "nutmeg", "vanilla",
+      "baking soda", "baking powder", "vinegar", "soy sauce", "hot sauce", "ketchup", "mustard", "mayonnaise", "honey",
+      "maple syrup", "syrup", "olive oil", "oil", "seasoning", "spice"],
+  ],
+  [
+    "Pantry",
+    ["peanut butter", "almond butter", "coconut milk", "rice", "oats", "oatmeal", "pasta", "spaghetti", "noodle", "flour",
+      "sugar", "beans", "lentils", "chickpeas", "quinoa", "cereal", "granola", "nuts", "almonds", "walnuts", "seeds",
+      "raisins", "chocolate", "broth", "stock", "tomato sauce", "canned"],
+  ],
+  ["Dairy & eggs", ["milk", "cheese", "yogurt", "butter", "cream", "egg", "kefir", "cottage cheese"]],
+  [
+    "Meat & seafood",
+    ["chicken", "beef", "pork", "turkey", "lamb", "bacon", "ham", "sausage", "steak", "salmon", "tuna", "cod", "tilapia",
+      "shrimp", "fish", "crab", "scallops"],
+  ],
+  ["Bakery", ["bread", "bagel", "tortilla", "bun", "roll", "pita", "croissant", "muffin"]],
+  [
+    "Produce",
+    ["apple", "banana", "orange", "lemon", "lime", "berries", "strawberries", "blueberries", "grapes", "avocado", "tomato",
+      "potato", "sweet potato", "onion", "garlic", "carrot", "celery", "broccoli", "cauliflower", "spinach", "kale",
+      "lettuce", "cucumber", "pepper", "zucchini", "mushroom", "ginger", "cilantro", "parsley", "basil", "tofu", "fruit",
+      "vegetables", "greens", "squash", "peas", "corn"],
+  ],
+  ["Beverages", ["juice", "coffee", "tea", "water", "soda"]],
+]
+
+const PATTERNS: [Aisle, RegExp][] = AISLE_TERMS.map(([aisle, terms]) => [
+  aisle,
+  new RegExp(`\\b(?:${terms.map((term) => term.replace(/\s+/g, "\\s+")).join("|")})(?:e?s)?\\b`, "i"),
+])
+
+export function aisleFor(food: string): Aisle {
+  return PATTERNS.find(([, pattern]) => pattern.test(food))?.[0] ?? "Other"
+}
@@ -0,0 +1,33 @@
+import type { GroceryList } from "./types"
+
+const BASE_URL = "/api/grocery-list"
+
+// sessionStorage key the chat and meal plans use to hand ingredients to the grocery page
+export const GROCERY_DRAFT_KEY = "nic:grocery-draft"
+
+// Failed requests throw the API's JSON error body as the message, for presentError
+async function request<T>(init?: RequestInit): Promise<T> {
+  const res = await fetch(BASE_URL, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  })
+
+  if (!res.ok) throw new Error(await res.text())
+  return (res.status === 204 ? null : await res.json()) as T
+}
+
+// Browser wrappers around /api/grocery-list
+export const groceryClient = {
+  get() {
+    return request<GroceryList>()
+  },
+
+  save(list: Omit<GroceryList, "updatedAt">) {
+    const { sources, entries, checked } = list
+    return request<GroceryList>({ method: "PUT", body: JSON.stringify({ sources, entries, checked }) })
+  },
+
+  clear() {
+    return request<null>({ method: "DELETE" })
+  },
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest"
+
+import { groceryListToCSV } from "./export"
+import type { GroceryItem } from "./types"
+
+function item(name: string, sources: string[] = []): GroceryItem {
+  return { key: name, name, aisle: "Produce", amounts: [{ quantity: 2, unit: "piece" }], checked: false, sources }
+}
+
+describe("groceryListToCSV", () => {
+  it("writes formula-like values as text", () => {
+    const csv = groceryListToCSV([item("=HYPERLINK(\"http://x\")"), item("+1 apples", ["@plan", "-day 2"])])
+
+    expect(csv.split("\n").slice(1, 3)).toEqual([
+      `Produce,"'=HYPERLINK(""http://x"")",2,piece,no,`,
+      "Produce,'+1 apples,2,piece,no,'@plan; -day 2",
+    ])
+  })
+
+  it("quotes fields with commas and leaves ordinary ones alone", () => {
+    expect(groceryListToCSV([item("Bananas, ripe", ["Chat"])]).split("\n")[1]).toBe(
+      'Produce,"Bananas, ripe",2,piece,no,Chat',
+    )
+  })
+})
@@ -0,0 +1,58 @@
+import { AISLES, type GroceryAmount, type GroceryItem } from "./types"
+
+function round(quantity: number) {
+  return String(Math.round(quantity * 100) / 100)
+}
+
+// "2 cup", "454 g", "3" for pieces, "" for a bare serving
+export function formatGroceryAmount({ quantity, unit }: GroceryAmount) {
+  if (unit === "g" || unit === "ml") return `${Math.round(quantity)} ${unit}`
+  if (unit === "piece") return round(quantity)
+  if (unit === "serving") return quantity === 1 ? "" : `${round(quantity)} servings`
+  return `${round(quantity)} ${unit}`
+}
+
+export function formatGroceryAmounts(amounts: GroceryAmount[]) {
+  return amounts.map(formatGroceryAmount).filter(Boolean).join(" + ")
+}
+
+// Checkbox list grouped under aisle headings, for pasting into notes apps
+export function groceryListToText(items: GroceryItem[]) {
+  const sections = AISLES.flatMap((aisle) => {
+    const inAisle = items.filter((item) => item.aisle === aisle)
+    if (inAisle.length === 0) return []
+    const lines = inAisle.map((item) => {
+      const amount = formatGroceryAmounts(item.amounts)
+      return `[${item.checked ? "x" : " "}] ${item.name}${amount ? ` (${amount})` : ""}`
+    })
+    return [`${aisle}\n${lines.join("\n")}`]
+  })
+  return `${sections.join("\n\n")}\n`
+}
+
+// Spreadsheets run cells starting with these as formulas; a leading ' makes them plain text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function csvField(value: string) {
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// One row per item and unit kind, so quantities stay numeric for spreadsheets
+export function groceryListToCSV(items: GroceryItem[]) {
+  const rows = [["aisle", "item", "quantity", "unit", "checked", "sources"]]
+  for (const item of items) {
+    const amounts = item.amounts.length > 0 ? item.amounts : [null]
+    for (const amount of amounts) {
+      rows.push([
+        item.aisle,
+        item.name,
+        amount ? round(amount.quantity) : "",
+        amount?.unit ?? "",
+        item.checked ? "yes" : "no",
+        item.sources.join("; "),
+      ])
+    }
+  }
+  return `${rows.map((row) => row.map(csvField).join(",")).join("\n")}\n`
+}
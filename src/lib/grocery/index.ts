@@ -0,0 +1,6 @@
+export * from "./aisles"
+export * from "./client"
+export * from "./export"
+export * from "./merge"
+export * from "./types"
+export * from "./validate"
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest"
+
+import { emptyGroceryList, groceryItems, groceryKey, toggleGroceryItem } from "./merge"
+import type { GroceryEntry, GroceryList } from "./types"
+
+function list(entries: Omit<GroceryEntry, "sourceId">[], sourceId = "message:1"): GroceryList {
+  return {
+    ...emptyGroceryList(),
+    sources: [{ id: sourceId, label: "Breakfast ideas" }],
+    entries: entries.map((entry) => ({ sourceId, ...entry })),
+  }
+}
+
+describe("groceryKey", () => {
+  it("gives the same key to plurals, sizes and preparations of one food", () => {
+    expect(new Set(["Eggs", "egg", "large eggs, beaten"].map(groceryKey))).toEqual(new Set(["egg"]))
+    expect(groceryKey("Cherry tomatoes, diced")).toBe("cherry tomato")
+    expect(groceryKey("fresh berries")).toBe("berry")
+  })
+})
+
+describe("groceryItems", () => {
+  it("merges duplicates into one item named after the first entry", () => {
+    const items = groceryItems(
+      list([
+        { food: "Eggs", quantity: 2, unit: "piece" },
+        { food: "large eggs, beaten", quantity: 3, unit: "piece" },
+      ]),
+    )
+
+    expect(items).toEqual([
+      {
+        key: "egg",
+        name: "Eggs",
+        aisle: "Dairy & eggs",
+        amounts: [{ quantity: 5, unit: "piece" }],
+        checked: false,
+        sources: ["Breakfast ideas"],
+      },
+    ])
+  })
+
+  it("adds volumes in the unit the first entry used", () => {
+    const [milk] = groceryItems(
+      list([
+        { food: "milk", quantity: 1, unit: "cup" },
+        { food: "milk", quantity: 4, unit: "tbsp" },
+      ]),
+    )
+    expect(milk.amounts).toEqual([{ quantity: expect.closeTo(1.25), unit: "cup" }])
+  })
+
+  it("adds weights and counts in grams when every entry has them", () => {
+    const [banana] = groceryItems(
+      list([
+        { food: "banana", quantity: 2, unit: "piece", grams: 236 },
+        { food: "banana", quantity: 100, unit: "g", grams: 100 },
+      ]),
+    )
+    expect(banana.amounts).toEqual([{ quantity: 336, unit: "g" }])
+  })
+
+  it("lists weights and counts separately when grams are missing", () => {
+    const [banana] = groceryItems(
+      list([
+        { food: "banana", quantity: 2, unit: "piece" },
+        { food: "banana", quantity: 100, unit: "g", grams: 100 },
+      ]),
+    )
+    expect(banana.amounts).toEqual([
+      { quantity: 2, unit: "piece" },
+      { quantity: 100, unit: "g" },
+    ])
+  })
+
+  it("moves large totals up to kilograms and liters", () => {
+    const items = groceryItems(
+      list([
+        { food: "chicken breast", quantity: 800, unit: "g" },
+        { food: "chicken breast", quantity: 700, unit: "g" },
+        { food: "milk", quantity: 2, unit: "l" },
+        { food: "milk", quantity: 500, unit: "ml" },
+        { food: "rice", quantity: 900, unit: "ml" },
+      ]),
+    )
+
+    expect(Object.fromEntries(items.map((item) => [item.key, item.amounts]))).toEqual({
+      "chicken breast": [{ quantity: 1.5, unit: "kg" }],
+      milk: [{ quantity: 2.5, unit: "l" }],
+      rice: [{ quantity: 900, unit: "ml" }],
+    })
+  })
+
+  it("sorts by aisle, then name, and keeps checked items checked", () => {
+    const items = groceryItems(
+      toggleGroceryItem(
+        list([
+          { food: "milk", quantity: 1, unit: "cup" },
+          { food: "spinach", quantity: 2, unit: "cup" },
+          { food: "apples", quantity: 3, unit: "piece" },
+        ]),
+        "milk",
+      ),
+    )
+
+    expect(items.map((item) => [item.name, item.aisle, item.checked])).toEqual([
+      ["Apples", "Produce", false],
+      ["Spinach", "Produce", false],
+      ["Milk", "Dairy & eggs", true],
+    ])
+  })
+})
@@ -0,0 +1,178 @@
+import type { MealPlan } from "@/lib/meal-plans"
+import {
+  convertUnit,
+  isMassUnit,
+  isVolumeUnit,
+  parseFoodQuantity,
+  type NutritionPayload,
+  type Unit,
+} from "@/lib/nutrition"
+import { extractIngredientLines } from "@/lib/recipes"
+
+import { aisleFor } from "./aisles"
+import {
+  AISLES,
+  type GroceryAmount,
+  type GroceryDraft,
+  type GroceryEntry,
+  type GroceryItem,
+  type GroceryList,
+} from "./types"
+
+// Words that change how a food is cooked, cut or sized, not what to buy
+const PREP_WORDS =
+  /\b(?:cooked|raw|boiled|baked|roasted|grilled|fried|steamed|sauteed|poached|chopped|diced|sliced|minced|mashed|shredded|grated|beaten|whisked|melted|softened|fresh|ripe|small|medium|large)\b/gi
+
+// Same key for "Eggs", "egg" and "large eggs, beaten" so they merge
+export function groceryKey(food: string) {
+  return food
+    .toLowerCase()
+    .replace(PREP_WORDS, " ")
+    .replace(/[^a-z0-9\s-]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .split(" ")
+    .map((word) => word.replace(/ies$/, "y").replace(/(o|ch|sh|x)es$/, "$1").replace(/([^su])s$/, "$1"))
+    .join(" ")
+}
+
+export function emptyGroceryList(): GroceryList {
+  return { sources: [], entries: [], checked: [], updatedAt: new Date(0).toISOString() }
+}
+
+// Every food of a saved plan, using the FDC-verified amounts
+export function draftFromPlan(plan: MealPlan): GroceryDraft {
+  const sourceId = `plan:${plan.id}`
+  const created = new Date(plan.createdAt).toLocaleDateString(undefined, { month: "short", day: "numeric" })
+  return {
+    sources: [{ id: sourceId, label: `${plan.days.length}-day meal plan (${created})` }],
+    entries: plan.days.flatMap((day) =>
+      day.meals.flatMap((meal) =>
+        meal.foods.map((food) => ({
+          sourceId,
+          food: food.quantity.food,
+          quantity: food.quantity.quantity,
+          unit: food.quantity.unit,
+          grams: food.grams,
+        })),
+      ),
+    ),
+  }
+}
+
+// Ingredient list items in an assistant answer; answers without any fall back to the foods it looked up in FDC
+export function draftFromMessage(
+  message: { id: string; content: string },
+  nutrition: NutritionPayload | null,
+  label: string,
+): GroceryDraft {
+  const sourceId = `message:${message.id}`
+  const ingredients = extractIngredientLines(message.content)
+
+  const entries: GroceryEntry[] =
+    ingredients.length > 0
+      ? ingredients.map(({ quantity: { food, quantity, unit } }) => ({ sourceId, food, quantity, unit }))
+      : (nutrition?.items ?? []).map((item) => {
+          // Payload labels read like "2 eggs (boiled)"
+          const { food, quantity, unit } = parseFoodQuantity(item.item.replace(/\s*\([^)]*\)$/, ""))
+          return { sourceId, food, quantity, unit, grams: item.grams }
+        })
+
+  return { sources: [{ id: sourceId, label }], entries }
+}
+
+export function combineDrafts(drafts: GroceryDraft[]): GroceryDraft {
+  return { sources: drafts.flatMap((draft) => draft.sources), entries: drafts.flatMap((draft) => draft.entries) }
+}
+
+// Adds a draft's sources; a source already on the list is replaced rather than counted twice
+export function addToGroceryList(list: GroceryList, draft: GroceryDraft): GroceryList {
+  const ids = new Set(draft.sources.map((source) => source.id))
+  return {
+    ...list,
+    sources: [...list.sources.filter((source) => !ids.has(source.id)), ...draft.sources],
+    entries: [...list.entries.filter((entry) => !ids.has(entry.sourceId)), ...draft.entries],
+  }
+}
+
+export function removeGrocerySource(list: GroceryList, sourceId: string): GroceryList {
+  return {
+    ...list,
+    sources: list.sources.filter((source) => source.id !== sourceId),
+    entries: list.entries.filter((entry) => entry.sourceId !== sourceId),
+  }
+}
+
+export function removeGroceryItem(list: GroceryList, key: string): GroceryList {
+  return {
+    ...list,
+    entries: list.entries.filter((entry) => groceryKey(entry.food) !== key),
+    checked: list.checked.filter((checked) => checked !== key),
+  }
+}
+
+export function toggleGroceryItem(list: GroceryList, key: string): GroceryList {
+  const checked = list.checked.includes(key) ? list.checked.filter((entry) => entry !== key) : [...list.checked, key]
+  return { ...list, checked }
+}
+
+function hasGrams(entry: GroceryEntry): entry is GroceryEntry & { grams: number } {
+  return entry.grams !== undefined
+}
+
+function unitKind(unit: Unit) {
+  return isMassUnit(unit) ? "mass" : isVolumeUnit(unit) ? "volume" : unit
+}
+
+// Readable unit for a summed amount: big gram and milliliter totals move up to kg and l
+function tidyAmount(amount: GroceryAmount): GroceryAmount {
+  if (amount.unit === "g" && amount.quantity >= 1000) return { quantity: amount.quantity / 1000, unit: "kg" }
+  if (amount.unit === "ml" && amount.quantity >= 1000) return { quantity: amount.quantity / 1000, unit: "l" }
+  return amount
+}
+
+// Same-kind amounts are converted into the unit the first entry used. When a food shows up in both weights and
+// volumes or counts, grams are used if every entry has them; otherwise each kind is listed separately.
+function mergeAmounts(entries: GroceryEntry[]): GroceryAmount[] {
+  const kinds = new Set(entries.map((entry) => unitKind(entry.unit)))
+  if (kinds.size > 1 && entries.every(hasGrams)) {
+    return [tidyAmount({ quantity: entries.reduce((sum, entry) => sum + entry.grams, 0), unit: "g" })]
+  }
+
+  const byKind = new Map<string, GroceryAmount>()
+  for (const entry of entries) {
+    const kind = unitKind(entry.unit)
+    const current = byKind.get(kind)
+    if (!current) {
+      byKind.set(kind, { quantity: entry.quantity, unit: entry.unit })
+    } else {
+      current.quantity += convertUnit(entry.quantity, entry.unit, current.unit) ?? 0
+    }
+  }
+  return [...byKind.values()].map(tidyAmount)
+}
+
+// The list as shown: one item per food, in aisle order
+export function groceryItems(list: GroceryList): GroceryItem[] {
+  const groups = new Map<string, GroceryEntry[]>()
+  for (const entry of list.entries) {
+    const key = groceryKey(entry.food)
+    if (!key) continue
+    groups.set(key, [...(groups.get(key) ?? []), entry])
+  }
+
+  const labels = new Map(list.sources.map((source) => [source.id, source.label]))
+  const items = [...groups.entries()].map(([key, entries]): GroceryItem => {
+    const name = entries[0].food.replace(PREP_WORDS, "").replace(/\s+/g, " ").trim() || entries[0].food
+    return {
+      key,
+      name: name.charAt(0).toUpperCase() + name.slice(1),
+      aisle: aisleFor(entries[0].food),
+      amounts: mergeAmounts(entries),
+      checked: list.checked.includes(key),
+      sources: [...new Set(entries.map((entry) => labels.get(entry.sourceId) ?? entry.sourceId))],
+    }
+  })
+
+  return items.sort((a, b) => AISLES.indexOf(a.aisle) - AISLES.indexOf(b.aisle) || a.name.localeCompare(b.name))
+}
@@ -0,0 +1,39 @@
+import { createJSONFile, userDataPath } from "@/lib/json-file"
+
+import { emptyGroceryList } from "./merge"
+import type { GroceryList, GroceryListStore } from "./types"
+
+// Server-only grocery list, one per user
+export function createFileGroceryListStore(filePath: string): GroceryListStore {
+  const file = createJSONFile<{ list: GroceryList | null }>(filePath, () => ({ list: null }))
+
+  return {
+    async get() {
+      return (await file.read()).list ?? emptyGroceryList()
+    },
+
+    save(list) {
+      return file.mutate((stored) => {
+        stored.list = { ...list, updatedAt: new Date().toISOString() }
+        return stored.list
+      })
+    },
+
+    clear() {
+      return file.mutate((stored) => {
+        stored.list = null
+      })
+    },
+  }
+}
+
+const serverStores = new Map<string, GroceryListStore>()
+
+export function getServerGroceryListStore(userId: string): GroceryListStore {
+  let store = serverStores.get(userId)
+  if (!store) {
+    store = createFileGroceryListStore(userDataPath(userId, "grocery-list.json"))
+    serverStores.set(userId, store)
+  }
+  return store
+}
@@ -0,0 +1,67 @@
+import type { Unit } from "@/lib/nutrition"
+
+export const AISLES = [
+  "Produce",
+  "Meat & seafood",
+  "Dairy & eggs",
+  "Bakery",
+  "Pantry",
+  "Spices & condiments",
+  "Frozen",
+  "Beverages",
+  "Other",
+] as const
+
+export type Aisle = (typeof AISLES)[number]
+
+// Where ingredients came from: an assistant message or a saved meal plan
+export interface GrocerySource {
+  id: string
+  label: string
+}
+
+// One ingredient as a source listed it, before merging
+export interface GroceryEntry {
+  sourceId: string
+  food: string
+  quantity: number
+  unit: Unit
+  // Known when the amount came from an FDC lookup; lets cups and grams of the same food merge
+  grams?: number
+}
+
+export interface GroceryList {
+  sources: GrocerySource[]
+  entries: GroceryEntry[]
+  // Keys of items checked off
+  checked: string[]
+  updatedAt: string
+}
+
+export interface GroceryAmount {
+  quantity: number
+  unit: Unit
+}
+
+// Entries for the same food merged into one line of the list
+export interface GroceryItem {
+  key: string
+  name: string
+  aisle: Aisle
+  // One amount per kind of unit that couldn't be converted into another (e.g. "2 cup" and "3 piece")
+  amounts: GroceryAmount[]
+  checked: boolean
+  sources: string[]
+}
+
+// What the chat and the meal plans hand to the grocery page
+export interface GroceryDraft {
+  sources: GrocerySource[]
+  entries: GroceryEntry[]
+}
+
+export interface GroceryListStore {
+  get(): Promise<GroceryList>
+  save(list: Omit<GroceryList, "updatedAt">): Promise<GroceryList>
+  clear(): Promise<void>
+}
@@ -0,0 +1,65 @@
+import { UNITS, type Unit } from "@/lib/nutrition"
+
+import type { GroceryEntry, GroceryList, GrocerySource } from "./types"
+
+const MAX_SOURCES = 50
+const MAX_ENTRIES = 1000
+
+export type GroceryParseResult =
+  | { ok: true; value: Omit<GroceryList, "updatedAt"> }
+  | { ok: false; error: string; field: string }
+
+function isText(value: unknown, max: number): value is string {
+  return typeof value === "string" && value.trim().length > 0 && value.length <= max
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0
+}
+
+// Validates a PUT /api/grocery-list body; the list is built in the browser and saved whole
+export function parseGroceryList(body: unknown): GroceryParseResult {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { ok: false, error: "Body must be a JSON object.", field: "" }
+  }
+  const input = body as Record<string, unknown>
+
+  if (!Array.isArray(input.sources) || input.sources.length > MAX_SOURCES) {
+    return { ok: false, error: `'sources' must be an array of at most ${MAX_SOURCES}.`, field: "sources" }
+  }
+  const sources: GrocerySource[] = []
+  for (const [index, source] of input.sources.entries()) {
+    const { id, label } = (source ?? {}) as Record<string, unknown>
+    if (!isText(id, 200) || !isText(label, 200)) {
+      return { ok: false, error: `'sources[${index}]' must have an id and a label.`, field: `sources[${index}]` }
+    }
+    sources.push({ id, label })
+  }
+  const sourceIds = new Set(sources.map((source) => source.id))
+
+  if (!Array.isArray(input.entries) || input.entries.length > MAX_ENTRIES) {
+    return { ok: false, error: `'entries' must be an array of at most ${MAX_ENTRIES}.`, field: "entries" }
+  }
+  const entries: GroceryEntry[] = []
+  for (const [index, entry] of input.entries.entries()) {
+    const field = `entries[${index}]`
+    const { sourceId, food, quantity, unit, grams } = (entry ?? {}) as Record<string, unknown>
+    if (typeof sourceId !== "string" || !sourceIds.has(sourceId)) {
+      return { ok: false, error: `'${field}.sourceId' must name one of the sources.`, field: `${field}.sourceId` }
+    }
+    if (!isText(food, 100)) return { ok: false, error: `'${field}.food' must be a food name.`, field: `${field}.food` }
+    if (!isPositiveNumber(quantity) || !UNITS.includes(unit as Unit)) {
+      return { ok: false, error: `'${field}' must have a positive quantity and a known unit.`, field }
+    }
+    if (grams !== undefined && !isPositiveNumber(grams)) {
+      return { ok: false, error: `'${field}.grams' must be a positive number.`, field: `${field}.grams` }
+    }
+    entries.push({ sourceId, food: food.trim(), quantity, unit: unit as Unit, ...(grams !== undefined ? { grams } : {}) })
+  }
+
+  if (!Array.isArray(input.checked) || input.checked.some((key) => typeof key !== "string")) {
+    return { ok: false, error: "'checked' must be an array of item keys.", field: "checked" }
+  }
+
+  return { ok: true, value: { sources, entries, checked: [...new Set(input.checked as string[])].slice(0, MAX_ENTRIES) } }
+}
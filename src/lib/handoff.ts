@@ -0,0 +1,12 @@
+// Hands data to another page through sessionStorage. Returns false when the browser won't store it, e.g. when
+// it's over the storage quota or storage is disabled, so the caller can say so instead of navigating to an
+// empty page.
+export function stashForPage(key: string, value: string): boolean {
+  try {
+    sessionStorage.setItem(key, value)
+    return true
+  } catch (error) {
+    console.error(`Failed to store ${key}:`, error)
+    return false
+  }
+}
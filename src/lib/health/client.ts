@@ -0,0 +1,8 @@
+import type { HealthReport } from "./types"
+
+// Browser helper for the status panel; /api/health answers 503 with a full report when something is down
+export async function fetchHealth(): Promise<HealthReport> {
+  const res = await fetch("/api/health")
+  if (!res.ok && res.status !== 503) throw new Error(`Health request failed with status ${res.status}`)
+  return (await res.json()) as HealthReport
+}
@@ -0,0 +1,107 @@
+import { randomUUID } from "crypto"
+import { promises as fs } from "fs"
+import path from "path"
+
+import packageJson from "../../../package.json"
+import { DATA_DIR } from "@/lib/json-file"
+import { LLMConfigError, getLLMProvider } from "@/lib/llm"
+import { FDC_SEARCH_URL } from "@/lib/nutrition"
+import { getFoodSourceInfo } from "@/lib/nutrition/server"
+
+import { overallStatus, type CheckResult, type HealthReport } from "./types"
+
+const CHECK_TIMEOUT_MS = 5000
+// Readiness probes can be frequent; reuse results for this long so they don't hammer OpenAI and FDC
+const CACHE_TTL_MS = 15_000
+// Below this share of the hourly FDC budget the check reports degraded
+const LOW_QUOTA_RATIO = 0.1
+
+type CheckOutcome = Omit<CheckResult, "name" | "latencyMs">
+
+async function timed(name: CheckResult["name"], run: (signal: AbortSignal) => Promise<CheckOutcome>): Promise<CheckResult> {
+  const started = performance.now()
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), CHECK_TIMEOUT_MS)
+
+  try {
+    const outcome = await run(controller.signal)
+    return { name, ...outcome, latencyMs: Math.round(performance.now() - started) }
+  } catch (error) {
+    const message = controller.signal.aborted
+      ? `Timed out after ${CHECK_TIMEOUT_MS} ms`
+      : error instanceof Error
+        ? error.message
+        : String(error)
+    return { name, status: "down", error: message, latencyMs: Math.round(performance.now() - started) }
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+export function checkLLM() {
+  return timed("llm", async (signal) => {
+    let llm
+    try {
+      llm = getLLMProvider()
+    } catch (error) {
+      if (error instanceof LLMConfigError) return { status: "down", error: error.message }
+      throw error
+    }
+
+    await llm.ping({ signal })
+    return { status: "ok", detail: `${llm.name} (${llm.model})` }
+  })
+}
+
+export function checkFDC() {
+  return timed("fdc", async (signal) => {
+    const info = await getFoodSourceInfo()
+    if (!info) return { status: "down", error: "Neither FDC_API_KEY nor FDC_DATASET_PATH is set" }
+
+    if (info.kind === "dataset") {
+      return info.size > 0
+        ? { status: "ok", detail: `Local dataset with ${info.size} foods` }
+        : { status: "down", error: `No foods loaded from ${info.path}` }
+    }
+
+    // Any HTTP answer from the gateway proves it's reachable; calling without a key doesn't spend quota
+    await fetch(new URL(FDC_SEARCH_URL).origin, { method: "HEAD", signal })
+
+    const remaining = info.remainingQuota()
+    return {
+      status: remaining < info.requestsPerHour * LOW_QUOTA_RATIO ? "degraded" : "ok",
+      detail: `${remaining} of ${info.requestsPerHour} requests left this hour`,
+    }
+  })
+}
+
+export function checkStorage() {
+  return timed("storage", async () => {
+    const probe = path.join(DATA_DIR, `.health-${randomUUID()}`)
+    await fs.mkdir(DATA_DIR, { recursive: true })
+    await fs.writeFile(probe, "ok", "utf8")
+    await fs.rm(probe)
+    return { status: "ok", detail: DATA_DIR }
+  })
+}
+
+let cached: { report: Promise<HealthReport>; expiresAt: number } | null = null
+
+async function buildReport(): Promise<HealthReport> {
+  const checks = await Promise.all([checkLLM(), checkFDC(), checkStorage()])
+  return {
+    status: overallStatus(checks),
+    version: packageJson.version,
+    node: process.version,
+    uptimeSeconds: Math.round(process.uptime()),
+    checkedAt: new Date().toISOString(),
+    checks,
+  }
+}
+
+export function getHealthReport(now = Date.now()): Promise<HealthReport> {
+  if (!cached || cached.expiresAt <= now) {
+    cached = { report: buildReport(), expiresAt: now + CACHE_TTL_MS }
+  }
+  return cached.report
+}
@@ -0,0 +1,27 @@
+// "degraded" still serves traffic (e.g. FDC quota nearly used up); "down" fails readiness
+export type CheckStatus = "ok" | "degraded" | "down"
+
+export interface CheckResult {
+  name: "llm" | "fdc" | "storage"
+  status: CheckStatus
+  latencyMs: number
+  // Human-readable summary, e.g. "openai (gpt-3.5-turbo)" or "812 of 1000 requests left this hour"
+  detail?: string
+  error?: string
+}
+
+export interface HealthReport {
+  status: CheckStatus
+  version: string
+  node: string
+  uptimeSeconds: number
+  checkedAt: string
+  checks: CheckResult[]
+}
+
+// Worst status wins
+export function overallStatus(checks: { status: CheckStatus }[]): CheckStatus {
+  if (checks.some((check) => check.status === "down")) return "down"
+  if (checks.some((check) => check.status === "degraded")) return "degraded"
+  return "ok"
+}
@@ -0,0 +1,52 @@
+import { promises as fs } from "fs"
+import path from "path"
+
+// Root directory for the file-backed stores
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), ".data")
+
+// Per-user documents live under DATA_DIR/users/<id>/ so accounts never share a file
+export function userDataPath(userId: string, fileName: string) {
+  if (!/^[\w-]+$/.test(userId)) throw new Error(`Invalid user id: ${userId}`)
+  return path.join(DATA_DIR, "users", userId, fileName)
+}
+
+export interface JSONFile<T> {
+  read(): Promise<T>
+  // Read-modify-write under a per-file queue; fn mutates the value in place
+  mutate<R>(fn: (value: T) => Promise<R> | R): Promise<R>
+}
+
+// Server-only JSON document on disk, used by the file-backed stores
+export function createJSONFile<T>(filePath: string, fallback: () => T): JSONFile<T> {
+  // Serialize writes so concurrent requests can't interleave read-modify-write cycles
+  let queue: Promise<unknown> = Promise.resolve()
+
+  const read = async (): Promise<T> => {
+    try {
+      return JSON.parse(await fs.readFile(filePath, "utf8")) as T
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback()
+      throw error
+    }
+  }
+
+  const write = async (value: T) => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, JSON.stringify(value, null, 2), "utf8")
+  }
+
+  return {
+    read,
+
+    mutate(fn) {
+      const next = queue.then(async () => {
+        const value = await read()
+        const result = await fn(value)
+        await write(value)
+        return result
+      })
+      queue = next.catch(() => undefined)
+      return next
+    },
+  }
+}
@@ -0,0 +1,53 @@
+import { readFileSync } from "fs"
+
+import { echoReply, type MockProviderOptions } from "./mock"
+import type { LLMMessage } from "./types"
+
+interface ReplyFixture {
+  // Case-insensitive substring of the latest user message
+  match: string
+  reply: string
+}
+
+interface ToolFixture {
+  match: string
+  arguments: unknown
+}
+
+// Recorded model output for the mock provider, e.g. fixtures/llm-replies.json
+export interface MockFixtures {
+  replies?: ReplyFixture[]
+  // Keyed by tool name
+  tools?: Record<string, ToolFixture[]>
+}
+
+function lastUserMessage(messages: LLMMessage[]) {
+  return ([...messages].reverse().find((message) => message.role === "user")?.content ?? "").toLowerCase()
+}
+
+// First matching fixture wins; unmatched requests fall back to the mock's defaults
+export function mockOptionsFromFixtures(fixtures: MockFixtures, fallback: MockProviderOptions = {}): MockProviderOptions {
+  const find = <T extends { match: string }>(list: T[] | undefined, messages: LLMMessage[]) => {
+    const question = lastUserMessage(messages)
+    return list?.find((fixture) => question.includes(fixture.match.toLowerCase()))
+  }
+
+  return {
+    ...fallback,
+
+    reply: (messages) => {
+      const fixture = find(fixtures.replies, messages)
+      return fixture ? fixture.reply : (fallback.reply ?? echoReply)(messages)
+    },
+
+    toolResult: (messages, tool) => {
+      const fixture = find(fixtures.tools?.[tool.name], messages)
+      return fixture ? fixture.arguments : (fallback.toolResult?.(messages, tool) ?? null)
+    },
+  }
+}
+
+// Server-only
+export function loadMockFixtures(filePath: string): MockFixtures {
+  return JSON.parse(readFileSync(filePath, "utf8")) as MockFixtures
+}
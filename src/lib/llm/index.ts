@@ -0,0 +1,74 @@
+import { loadMockFixtures, mockOptionsFromFixtures } from "./fixtures"
+import { createMockProvider } from "./mock"
+import { createOpenAIProvider } from "./openai"
+import { LLMConfigError, type LLMProvider } from "./types"
+
+export * from "./fixtures"
+export * from "./mock"
+export * from "./openai"
+export * from "./tokens"
+export * from "./types"
+
+const DEFAULT_OPENAI_MODEL = "gpt-3.5-turbo"
+const DEFAULT_LOCAL_URL = "http://localhost:11434/v1"
+
+type Env = Record<string, string | undefined>
+
+// LLM_PROVIDER picks the backend: "openai" (default), "openai-compatible" for a local server, or "mock"
+export function createProviderFromEnv(env: Env = process.env): LLMProvider {
+  const provider = env.LLM_PROVIDER || "openai"
+  const toolModel = env.LLM_TOOL_MODEL || undefined
+  // Overrides the context size for models the built-in table doesn't know
+  const contextWindow = Number(env.LLM_CONTEXT_TOKENS) > 0 ? Number(env.LLM_CONTEXT_TOKENS) : undefined
+
+  switch (provider) {
+    case "openai":
+      if (!env.OPENAI_API_KEY) throw new LLMConfigError("OPENAI_API_KEY is not set")
+      return createOpenAIProvider({
+        apiKey: env.OPENAI_API_KEY,
+        model: env.LLM_MODEL || DEFAULT_OPENAI_MODEL,
+        toolModel,
+        contextWindow,
+      })
+
+    case "openai-compatible":
+      if (!env.LLM_MODEL) throw new LLMConfigError("LLM_MODEL is required for the openai-compatible provider")
+      return createOpenAIProvider({
+        name: "openai-compatible",
+        // Local servers ignore the key, but the SDK insists on one
+        apiKey: env.LLM_API_KEY || "local",
+        baseURL: env.LLM_BASE_URL || DEFAULT_LOCAL_URL,
+        model: env.LLM_MODEL,
+        toolModel,
+        contextWindow,
+      })
+
+    // LLM_FIXTURES_PATH points at recorded replies and tool calls, see fixtures/llm-replies.json
+    case "mock":
+      return createMockProvider({
+        ...(env.LLM_FIXTURES_PATH ? mockOptionsFromFixtures(loadMockFixtures(env.LLM_FIXTURES_PATH)) : {}),
+        contextWindow,
+      })
+
+    default:
+      throw new LLMConfigError(`Unknown LLM_PROVIDER "${provider}"`)
+  }
+}
+
+let provider: LLMProvider | null = null
+
+// Built on first use so a missing key is reported per request rather than crashing at import
+export function getLLMProvider(): LLMProvider {
+  if (!provider) provider = createProviderFromEnv()
+  return provider
+}
+
+export function isLLMConfigured() {
+  try {
+    getLLMProvider()
+    return true
+  } catch (error) {
+    if (error instanceof LLMConfigError) return false
+    throw error
+  }
+}
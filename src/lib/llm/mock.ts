@@ -0,0 +1,55 @@
+import type { LLMMessage, LLMProvider, ToolDefinition } from "./types"
+
+export interface MockProviderOptions {
+  // Builds the reply; defaults to echoReply
+  reply?: (messages: LLMMessage[]) => string
+  // Tool arguments to return; defaults to none, which sends food extraction to its fallback parser
+  toolResult?: (messages: LLMMessage[], tool: ToolDefinition) => unknown
+  // Streamed replies are split into chunks of this many characters
+  chunkSize?: number
+  // Small by default so history trimming and summarization kick in during offline runs
+  contextWindow?: number
+}
+
+// Echoes the question and any nutrition data the chat route supplied
+export function echoReply(messages: LLMMessage[]) {
+  const question = [...messages].reverse().find((message) => message.role === "user")?.content ?? ""
+  const data = messages.find((message) => message.role === "system" && message.content.startsWith("FDA Nutrition Data"))
+
+  return [`Mock response to: ${question}`, data?.content].filter(Boolean).join("\n\n")
+}
+
+// Deterministic provider for offline development and tests; never touches the network
+export function createMockProvider({
+  reply = echoReply,
+  toolResult = () => null,
+  chunkSize = 16,
+  contextWindow = 4096,
+}: MockProviderOptions = {}): LLMProvider {
+  return {
+    name: "mock",
+    model: "mock",
+    contextWindow,
+
+    async streamChat(messages, options = {}) {
+      const text = reply(messages)
+
+      return (async function* () {
+        for (let index = 0; index < text.length; index += chunkSize) {
+          if (options.signal?.aborted) return
+          yield text.slice(index, index + chunkSize)
+        }
+      })()
+    },
+
+    async complete(messages) {
+      return reply(messages)
+    },
+
+    async callTool(messages, tool) {
+      return toolResult(messages, tool)
+    },
+
+    async ping() {},
+  }
+}
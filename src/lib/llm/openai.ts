@@ -0,0 +1,111 @@
+import OpenAI from "openai"
+
+import { AppError, ContentRefusedError, LLMUpstreamError } from "@/lib/errors"
+
+import { contextWindowFor } from "./tokens"
+import type { LLMProvider } from "./types"
+
+export interface OpenAIProviderOptions {
+  apiKey: string
+  model: string
+  // Model for structured calls such as food extraction; defaults to model
+  toolModel?: string
+  // Set for OpenAI-compatible servers, e.g. http://localhost:11434/v1 for Ollama
+  baseURL?: string
+  name?: string
+  // Defaults to the model's published context size
+  contextWindow?: number
+}
+
+// Maps OpenAI SDK failures onto the app's error codes. Aborts pass through untouched so callers can
+// tell a cancelled request from a failed one.
+export function toLLMError(error: unknown): unknown {
+  if (error instanceof AppError || error instanceof OpenAI.APIUserAbortError) return error
+  if (!(error instanceof OpenAI.APIError)) return new LLMUpstreamError({ cause: error })
+
+  if (error.code === "content_policy_violation" || error.code === "content_filter") {
+    return new ContentRefusedError({ cause: error })
+  }
+  // A bad key or unknown model won't fix itself on retry
+  if (error.status === 401 || error.status === 403 || error.status === 404) {
+    return new AppError("not_configured", { cause: error })
+  }
+
+  const retryAfter = Number(error.headers?.["retry-after"])
+  return new LLMUpstreamError({ cause: error, retryAfter: Number.isFinite(retryAfter) ? retryAfter : undefined })
+}
+
+async function withLLMErrors<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run()
+  } catch (error) {
+    throw toLLMError(error)
+  }
+}
+
+// OpenAI, or any server speaking its chat completions API (Ollama, llama.cpp, vLLM, LM Studio)
+export function createOpenAIProvider({
+  apiKey,
+  model,
+  toolModel = model,
+  baseURL,
+  name = "openai",
+  contextWindow = contextWindowFor(model),
+}: OpenAIProviderOptions): LLMProvider {
+  const client = new OpenAI({ apiKey, baseURL })
+
+  return {
+    name,
+    model,
+    contextWindow,
+
+    async streamChat(messages, options = {}) {
+      const stream = await withLLMErrors(() =>
+        client.chat.completions.create(
+          { model: options.model ?? model, stream: true, messages },
+          { signal: options.signal },
+        ),
+      )
+
+      return (async function* () {
+        try {
+          for await (const chunk of stream) {
+            const choice = chunk.choices[0]
+            if (choice?.delta?.content) yield choice.delta.content
+            if (choice?.finish_reason === "content_filter") throw new ContentRefusedError()
+          }
+        } catch (error) {
+          throw toLLMError(error)
+        }
+      })()
+    },
+
+    async complete(messages, options = {}) {
+      const completion = await withLLMErrors(() =>
+        client.chat.completions.create({ model: options.model ?? model, messages }, { signal: options.signal }),
+      )
+      return completion.choices[0]?.message.content ?? ""
+    },
+
+    async callTool(messages, tool, options = {}) {
+      const completion = await withLLMErrors(() =>
+        client.chat.completions.create(
+          {
+            model: options.model ?? toolModel,
+            messages,
+            tools: [{ type: "function", function: tool }],
+            tool_choice: { type: "function", function: { name: tool.name } },
+          },
+          { signal: options.signal },
+        ),
+      )
+      const args = completion.choices[0]?.message.tool_calls?.[0]?.function.arguments
+      return args ? JSON.parse(args) : null
+    },
+
+    // Listing models is free on OpenAI and supported by Ollama and llama.cpp
+    async ping(options = {}) {
+      await client.models.list({ signal: options.signal })
+    },
+  }
+}
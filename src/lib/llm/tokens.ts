@@ -0,0 +1,28 @@
+import type { LLMMessage } from "./types"
+
+// Rough count without a tokenizer dependency: English text averages about four characters per token
+const CHARS_PER_TOKEN = 4
+// Role markers and separators the chat format adds around every message
+const MESSAGE_OVERHEAD_TOKENS = 4
+
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+export function estimateMessageTokens(messages: Pick<LLMMessage, "content">[]) {
+  return messages.reduce((total, message) => total + estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS, 0)
+}
+
+// Published context sizes; anything unknown (typically a small local model) gets a conservative default
+const CONTEXT_WINDOWS: [prefix: string, tokens: number][] = [
+  ["gpt-3.5-turbo", 16385],
+  ["gpt-4o", 128000],
+  ["gpt-4.1", 1047576],
+  ["gpt-4-turbo", 128000],
+  ["gpt-4", 8192],
+]
+export const DEFAULT_CONTEXT_WINDOW = 8192
+
+export function contextWindowFor(model: string) {
+  return CONTEXT_WINDOWS.find(([prefix]) => model.startsWith(prefix))?.[1] ?? DEFAULT_CONTEXT_WINDOW
+}
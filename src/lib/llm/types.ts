@@ -0,0 +1,40 @@
+export interface LLMMessage {
+  role: "system" | "user" | "assistant"
+  content: string
+}
+
+// A function the model can be forced to call; parameters is a JSON Schema object
+export interface ToolDefinition {
+  name: string
+  description: string
+  parameters: Record<string, unknown>
+}
+
+export interface CompletionOptions {
+  // Overrides the provider's default model for one call
+  model?: string
+  signal?: AbortSignal
+}
+
+export interface LLMProvider {
+  // "openai", "openai-compatible" or "mock"
+  name: string
+  model: string
+  // Tokens the model accepts for prompt and reply combined
+  contextWindow: number
+  // Resolves once the request is accepted, so connection and auth errors surface before streaming starts;
+  // the iterable yields the reply as text deltas
+  streamChat(messages: LLMMessage[], options?: CompletionOptions): Promise<AsyncIterable<string>>
+  complete(messages: LLMMessage[], options?: CompletionOptions): Promise<string>
+  // Forces one call of the tool and returns its parsed arguments, or null if the model didn't produce any
+  callTool(messages: LLMMessage[], tool: ToolDefinition, options?: CompletionOptions): Promise<unknown>
+  // Cheap reachability check that doesn't run a completion
+  ping(options?: Pick<CompletionOptions, "signal">): Promise<void>
+}
+
+export class LLMConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "LLMConfigError"
+  }
+}
@@ -0,0 +1,39 @@
+import type { LogEntry, LogEntryUpdate, NewLogEntry } from "./types"
+
+const BASE_URL = "/api/log"
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  })
+
+  if (!res.ok) {
+    const body = await res.json().catch(() => null)
+    throw new Error(body?.error || `Food log request failed with status ${res.status}`)
+  }
+
+  return (res.status === 204 ? null : await res.json()) as T
+}
+
+// Browser wrappers around the /api/log routes
+export const foodLogClient = {
+  list(from: string, to: string) {
+    return request<LogEntry[]>(`${BASE_URL}?${new URLSearchParams({ from, to })}`)
+  },
+
+  add(entry: NewLogEntry) {
+    return request<LogEntry>(BASE_URL, { method: "POST", body: JSON.stringify(entry) })
+  },
+
+  update(id: string, changes: LogEntryUpdate) {
+    return request<LogEntry>(`${BASE_URL}/${encodeURIComponent(id)}`, {
+      method: "PATCH",
+      body: JSON.stringify(changes),
+    })
+  },
+
+  delete(id: string) {
+    return request<null>(`${BASE_URL}/${encodeURIComponent(id)}`, { method: "DELETE" })
+  },
+}
@@ -0,0 +1,34 @@
+import type { Meal } from "./types"
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export function isLogDate(value: unknown): value is string {
+  return typeof value === "string" && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value))
+}
+
+// YYYY-MM-DD in the browser's timezone, not UTC
+export function toLogDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export function addDays(logDate: string, days: number): string {
+  const [year, month, day] = logDate.split("-").map(Number)
+  return toLogDate(new Date(year, month - 1, day + days))
+}
+
+// Monday of the week containing the date
+export function startOfWeek(logDate: string): string {
+  const [year, month, day] = logDate.split("-").map(Number)
+  const weekday = new Date(year, month - 1, day).getDay()
+  return addDays(logDate, -((weekday + 6) % 7))
+}
+
+export function mealForTime(date: Date): Meal {
+  const hour = date.getHours()
+  if (hour < 11) return "breakfast"
+  if (hour < 15) return "lunch"
+  if (hour < 17) return "snack"
+  return "dinner"
+}
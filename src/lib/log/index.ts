@@ -0,0 +1,5 @@
+export * from "./client"
+export * from "./dates"
+export * from "./totals"
+export * from "./types"
+export * from "./validate"
@@ -0,0 +1,47 @@
+import { mkdtempSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import path from "path"
+import { afterAll, describe, expect, it } from "vitest"
+
+import { createFileFoodLogStore } from "./server-store"
+import type { NewLogEntry } from "./types"
+
+const dir = mkdtempSync(path.join(tmpdir(), "nic-log-"))
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true })
+})
+
+function entry(item: string, grams: number): NewLogEntry {
+  return {
+    date: "2025-01-31",
+    meal: "breakfast",
+    item,
+    food: { fdcId: 1, description: "Egg, whole, raw, fresh" },
+    grams,
+    nutrients: { calories: grams * 1.43, protein: grams * 0.126 },
+  }
+}
+
+describe("createFileFoodLogStore", () => {
+  it("rescales the nutrients and the label's amount when the portion changes", async () => {
+    const store = createFileFoodLogStore(path.join(dir, "rescale.json"))
+    const eggs = await store.add(entry("2 egg (boiled)", 100))
+    const rice = await store.add(entry("1 cup rice", 160))
+
+    expect(await store.update(eggs.id, { grams: 150 })).toMatchObject({
+      item: "3 egg (boiled)",
+      grams: 150,
+      nutrients: { calories: expect.closeTo(214.5), protein: expect.closeTo(18.9) },
+    })
+    expect((await store.update(rice.id, { grams: 80 }))?.item).toBe("0.5 cup rice")
+  })
+
+  it("keeps a label sent with the new portion and leaves the label alone for other changes", async () => {
+    const store = createFileFoodLogStore(path.join(dir, "label.json"))
+    const eggs = await store.add(entry("2 egg", 100))
+
+    expect((await store.update(eggs.id, { grams: 50, item: "1 small egg" }))?.item).toBe("1 small egg")
+    expect((await store.update(eggs.id, { meal: "lunch" }))?.item).toBe("1 small egg")
+  })
+})
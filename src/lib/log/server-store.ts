@@ -0,0 +1,66 @@
+import { createJSONFile, userDataPath } from "@/lib/json-file"
+import { formatQuantity, parseFoodQuantity, scalePanel } from "@/lib/nutrition"
+
+import type { FoodLogStore, LogEntry } from "./types"
+
+// Server-only food diary, one JSON file per user
+export function createFileFoodLogStore(filePath: string): FoodLogStore {
+  const file = createJSONFile<LogEntry[]>(filePath, () => [])
+
+  return {
+    async list({ from, to }) {
+      return (await file.read())
+        .filter((entry) => entry.date >= from && entry.date <= to)
+        .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt))
+    },
+
+    add(entry) {
+      return file.mutate((entries) => {
+        const created: LogEntry = { ...entry, id: crypto.randomUUID(), createdAt: new Date().toISOString() }
+        entries.push(created)
+        return created
+      })
+    },
+
+    update(id, changes) {
+      return file.mutate((entries) => {
+        const index = entries.findIndex((entry) => entry.id === id)
+        if (index === -1) return null
+
+        const current = entries[index]
+        const updated: LogEntry = { ...current, ...changes }
+        // Nutrients and the label's amount ("2 egg") were stored for the old portion, so rescale them with it
+        if (changes.grams !== undefined && changes.grams !== current.grams) {
+          const factor = changes.grams / current.grams
+          updated.nutrients = scalePanel(current.nutrients, factor)
+          if (changes.item === undefined) {
+            const quantity = parseFoodQuantity(current.item)
+            updated.item = formatQuantity({ ...quantity, quantity: quantity.quantity * factor })
+          }
+        }
+        entries[index] = updated
+        return updated
+      })
+    },
+
+    delete(id) {
+      return file.mutate((entries) => {
+        const index = entries.findIndex((entry) => entry.id === id)
+        if (index === -1) return false
+        entries.splice(index, 1)
+        return true
+      })
+    },
+  }
+}
+
+const serverStores = new Map<string, FoodLogStore>()
+
+export function getServerFoodLogStore(userId: string): FoodLogStore {
+  let store = serverStores.get(userId)
+  if (!store) {
+    store = createFileFoodLogStore(userDataPath(userId, "food-log.json"))
+    serverStores.set(userId, store)
+  }
+  return store
+}
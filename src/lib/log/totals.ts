@@ -0,0 +1,47 @@
+import { sumPanels, type NutrientKey, type NutrientPanel } from "@/lib/nutrition"
+
+import { addDays } from "./dates"
+import type { LogEntry } from "./types"
+
+export interface DayTotals {
+  date: string
+  totals: NutrientPanel
+  entries: number
+}
+
+export interface WeekTotals {
+  days: DayTotals[]
+  totals: NutrientPanel
+  // Averaged over days that have at least one entry
+  dailyAverage: NutrientPanel
+}
+
+export function dailyTotals(entries: LogEntry[], date: string): DayTotals {
+  const day = entries.filter((entry) => entry.date === date)
+  return { date, totals: sumPanels(day.map((entry) => entry.nutrients)), entries: day.length }
+}
+
+export function weeklyTotals(entries: LogEntry[], weekStart: string): WeekTotals {
+  const days = Array.from({ length: 7 }, (_, index) => dailyTotals(entries, addDays(weekStart, index)))
+  const totals = sumPanels(days.map((day) => day.totals))
+  const loggedDays = days.filter((day) => day.entries > 0).length
+
+  const dailyAverage: NutrientPanel = {}
+  for (const [key, value] of Object.entries(totals) as [NutrientKey, number][]) {
+    dailyAverage[key] = loggedDays > 0 ? value / loggedDays : 0
+  }
+
+  return { days, totals, dailyAverage }
+}
+
+// Fraction of each target reached (1 = exactly on target)
+export function targetProgress(
+  totals: NutrientPanel,
+  targets: Partial<Record<NutrientKey, number>>,
+): Partial<Record<NutrientKey, number>> {
+  const progress: Partial<Record<NutrientKey, number>> = {}
+  for (const [key, target] of Object.entries(targets) as [NutrientKey, number][]) {
+    if (target > 0) progress[key] = (totals[key] ?? 0) / target
+  }
+  return progress
+}
@@ -0,0 +1,29 @@
+import type { NutrientPanel, NutritionPayloadItem } from "@/lib/nutrition"
+
+export const MEALS = ["breakfast", "lunch", "dinner", "snack"] as const
+
+export type Meal = (typeof MEALS)[number]
+
+export interface LogEntry {
+  id: string
+  // Local calendar day, YYYY-MM-DD
+  date: string
+  meal: Meal
+  item: string
+  food: NutritionPayloadItem["food"]
+  grams: number
+  // Nutrients for `grams` of the food, copied from the chat's FDC lookup
+  nutrients: NutrientPanel
+  createdAt: string
+}
+
+export type NewLogEntry = Omit<LogEntry, "id" | "createdAt">
+
+export type LogEntryUpdate = Partial<Pick<LogEntry, "date" | "meal" | "item" | "grams">>
+
+export interface FoodLogStore {
+  list(range: { from: string; to: string }): Promise<LogEntry[]>
+  add(entry: NewLogEntry): Promise<LogEntry>
+  update(id: string, changes: LogEntryUpdate): Promise<LogEntry | null>
+  delete(id: string): Promise<boolean>
+}
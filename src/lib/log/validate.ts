@@ -0,0 +1,83 @@
+import { NUTRIENT_DEFINITIONS, type NutrientPanel } from "@/lib/nutrition"
+
+import { isLogDate } from "./dates"
+import { MEALS, type LogEntryUpdate, type Meal, type NewLogEntry } from "./types"
+
+function isMeal(value: unknown): value is Meal {
+  return MEALS.includes(value as Meal)
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0
+}
+
+function parsePanel(value: unknown): NutrientPanel | null {
+  if (typeof value !== "object" || value === null) return null
+
+  const panel: NutrientPanel = {}
+  for (const { key } of NUTRIENT_DEFINITIONS) {
+    const amount = (value as Record<string, unknown>)[key]
+    if (typeof amount === "number" && Number.isFinite(amount) && amount >= 0) panel[key] = amount
+  }
+  return panel
+}
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; error: string }
+
+export function parseNewLogEntry(body: unknown): ParseResult<NewLogEntry> {
+  if (typeof body !== "object" || body === null) return { ok: false, error: "Body must be a JSON object." }
+  const input = body as Record<string, unknown>
+  const food = input.food as Record<string, unknown> | undefined
+
+  if (!isLogDate(input.date)) return { ok: false, error: "'date' must be YYYY-MM-DD." }
+  if (!isMeal(input.meal)) return { ok: false, error: `'meal' must be one of ${MEALS.join(", ")}.` }
+  if (typeof input.item !== "string" || !input.item.trim()) return { ok: false, error: "'item' is required." }
+  if (!isPositiveNumber(input.grams)) return { ok: false, error: "'grams' must be a positive number." }
+  if (!food || typeof food.fdcId !== "number" || typeof food.description !== "string") {
+    return { ok: false, error: "'food' must include fdcId and description." }
+  }
+
+  const nutrients = parsePanel(input.nutrients)
+  if (!nutrients) return { ok: false, error: "'nutrients' must be an object." }
+
+  return {
+    ok: true,
+    value: {
+      date: input.date,
+      meal: input.meal,
+      item: input.item.trim().slice(0, 200),
+      food: {
+        fdcId: food.fdcId,
+        description: food.description,
+        ...(typeof food.dataType === "string" ? { dataType: food.dataType } : {}),
+      },
+      grams: input.grams,
+      nutrients,
+    },
+  }
+}
+
+export function parseLogEntryUpdate(body: unknown): ParseResult<LogEntryUpdate> {
+  if (typeof body !== "object" || body === null) return { ok: false, error: "Body must be a JSON object." }
+  const input = body as Record<string, unknown>
+  const changes: LogEntryUpdate = {}
+
+  if (input.date !== undefined) {
+    if (!isLogDate(input.date)) return { ok: false, error: "'date' must be YYYY-MM-DD." }
+    changes.date = input.date
+  }
+  if (input.meal !== undefined) {
+    if (!isMeal(input.meal)) return { ok: false, error: `'meal' must be one of ${MEALS.join(", ")}.` }
+    changes.meal = input.meal
+  }
+  if (input.item !== undefined) {
+    if (typeof input.item !== "string" || !input.item.trim()) return { ok: false, error: "'item' must be a non-empty string." }
+    changes.item = input.item.trim().slice(0, 200)
+  }
+  if (input.grams !== undefined) {
+    if (!isPositiveNumber(input.grams)) return { ok: false, error: "'grams' must be a positive number." }
+    changes.grams = input.grams
+  }
+
+  return { ok: true, value: changes }
+}
@@ -0,0 +1,34 @@
+import type { MealPlan, MealPlanRequest } from "./types"
+
+const BASE_URL = "/api/meal-plans"
+
+// Failed requests throw the API's JSON error body as the message, for presentError
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  })
+
+  if (!res.ok) throw new Error(await res.text())
+  return (res.status === 204 ? null : await res.json()) as T
+}
+
+// Browser wrappers around the /api/meal-plans routes
+export const mealPlanClient = {
+  list() {
+    return request<MealPlan[]>(BASE_URL)
+  },
+
+  get(id: string) {
+    return request<MealPlan>(`${BASE_URL}/${encodeURIComponent(id)}`)
+  },
+
+  // Generation runs several model rounds and FDC lookups, so this can take a while
+  generate(plan: Partial<MealPlanRequest> & Pick<MealPlanRequest, "days">) {
+    return request<MealPlan>(`${BASE_URL}/generate`, { method: "POST", body: JSON.stringify(plan) })
+  },
+
+  delete(id: string) {
+    return request<null>(`${BASE_URL}/${encodeURIComponent(id)}`, { method: "DELETE" })
+  },
+}
@@ -0,0 +1,97 @@
+import { readFileSync } from "fs"
+import { describe, expect, it, vi } from "vitest"
+
+import { createMockProvider } from "@/lib/llm/mock"
+import { createLocalIndex, parseBulkJSON } from "@/lib/nutrition"
+import { rulesForProfile } from "@/lib/safety"
+
+import { generateMealPlan, MAX_PLAN_ATTEMPTS, validateProposedPlan } from "./generate"
+import type { MealPlanRequest, PlanTargets } from "./types"
+
+const dataset = createLocalIndex(parseBulkJSON(readFileSync(process.env.FDC_DATASET_PATH!, "utf8")))
+const request: MealPlanRequest = { days: 2, meals: ["breakfast", "lunch"], exclude: [] }
+const targets: PlanTargets = { calories: 2000, protein: 100, carbohydrate: 250, fat: 70, fiber: 30, sodium: 2300 }
+
+const oats = { food: "rolled oats", quantity: 80, unit: "g" }
+const peanutButter = { food: "peanut butter", quantity: 2, unit: "tbsp" }
+
+describe("validateProposedPlan", () => {
+  it("keeps requested days and meals, in order, and drops the rest", () => {
+    const days = validateProposedPlan(
+      {
+        days: [
+          { day: 2, meals: [{ meal: "lunch", name: "  Rice bowl ", foods: [{ food: "rice", quantity: 1, unit: "cup" }] }] },
+          {
+            day: 1,
+            meals: [
+              { meal: "lunch", name: "", foods: [oats] },
+              { meal: "breakfast", name: "Oats", foods: [oats] },
+              { meal: "breakfast", name: "Second breakfast", foods: [oats] },
+              { meal: "dinner", name: "Not asked for", foods: [oats] },
+              { meal: "snack", name: "No foods", foods: [] },
+            ],
+          },
+          { day: 3, meals: [{ meal: "breakfast", name: "Out of range", foods: [oats] }] },
+          { day: 1.5, meals: [] },
+        ],
+      },
+      request,
+    )
+
+    expect(days).toEqual([
+      {
+        day: 1,
+        meals: [
+          { meal: "breakfast", name: "Oats", foods: [oats] },
+          { meal: "lunch", name: "lunch", foods: [oats] },
+        ],
+      },
+      { day: 2, meals: [{ meal: "lunch", name: "Rice bowl", foods: [{ food: "rice", quantity: 1, unit: "cup" }] }] },
+    ])
+  })
+
+  it("returns null when nothing usable is left", () => {
+    expect(validateProposedPlan({ days: "two" }, request)).toBeNull()
+    expect(validateProposedPlan({ days: [{ day: 1, meals: [{ meal: "dinner", foods: [oats] }] }] }, request)).toBeNull()
+  })
+})
+
+describe("generateMealPlan", () => {
+  function plan(dayTwo: unknown[]) {
+    return {
+      days: [
+        { day: 1, meals: [{ meal: "breakfast", name: "Oats", foods: [oats] }] },
+        { day: 2, meals: [{ meal: "breakfast", name: "Toast", foods: dayTwo }] },
+      ],
+    }
+  }
+
+  it("leaves out days that still break an allergy after the last revision", async () => {
+    const toolResult = vi.fn(() => plan([{ food: "whole-wheat bread", quantity: 2, unit: "slice" }, peanutButter]))
+    const generated = await generateMealPlan({
+      llm: createMockProvider({ toolResult }),
+      source: dataset,
+      request,
+      targets,
+      restrictions: rulesForProfile(["peanut"]),
+    })
+
+    expect(toolResult).toHaveBeenCalledTimes(MAX_PLAN_ATTEMPTS)
+    expect(generated.days.map((day) => day.day)).toEqual([1])
+  })
+
+  it("fails rather than saving a plan where every day breaks an allergy", async () => {
+    const generate = generateMealPlan({
+      llm: createMockProvider({ toolResult: () => ({ days: [{ day: 1, meals: plan([peanutButter]).days[1].meals }] }) }),
+      source: dataset,
+      request,
+      targets,
+      restrictions: rulesForProfile(["peanut"]),
+    })
+
+    await expect(generate).rejects.toMatchObject({
+      code: "llm_unavailable",
+      message: "Every day the model proposed conflicted with your allergies.",
+    })
+  })
+})
@@ -0,0 +1,246 @@
+import { LLMUpstreamError } from "@/lib/errors"
+import { MEALS, type Meal } from "@/lib/log"
+import type { LLMMessage, LLMProvider, ToolDefinition } from "@/lib/llm"
+import { lookupFoods, sumPanels, UNITS, type FoodSource } from "@/lib/nutrition"
+import { validateExtractedFoods } from "@/lib/nutrition/extraction"
+import { checkFoods, type RestrictionRule } from "@/lib/safety"
+
+import type { MealPlan, MealPlanRequest, PlanDay, PlanMeal, PlanTargets, ProposedDay } from "./types"
+import { adjustPortions, buildDay, isDayOnTarget, scoreDay } from "./verify"
+
+// The first proposal plus revisions; each round is one tool call and an FDC lookup per new food
+export const MAX_PLAN_ATTEMPTS = 3
+const MAX_FOODS_PER_MEAL = 8
+
+export const MEAL_PLAN_TOOL: ToolDefinition = {
+  name: "propose_meal_plan",
+  description: "Propose a multi-day meal plan as concrete foods with amounts.",
+  parameters: {
+    type: "object",
+    properties: {
+      days: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            day: { type: "integer", description: "Day number, starting at 1" },
+            meals: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  meal: { type: "string", enum: [...MEALS] },
+                  name: { type: "string", description: "Short dish name, e.g. Greek yogurt parfait" },
+                  foods: {
+                    type: "array",
+                    description: "Single ingredients as they'd be found in a food database, not dishes",
+                    items: {
+                      type: "object",
+                      properties: {
+                        food: { type: "string", description: "Plain food name, e.g. rolled oats" },
+                        quantity: { type: "number" },
+                        unit: { type: "string", enum: [...UNITS] },
+                        preparation: { type: ["string", "null"], description: "e.g. cooked, raw, grilled" },
+                      },
+                      required: ["food", "quantity", "unit"],
+                    },
+                  },
+                },
+                required: ["meal", "name", "foods"],
+              },
+            },
+          },
+          required: ["day", "meals"],
+        },
+      },
+    },
+    required: ["days"],
+  },
+}
+
+function isMeal(value: unknown): value is Meal {
+  return MEALS.includes(value as Meal)
+}
+
+// Check model output against the schema; days outside the request and meals it didn't ask for are dropped
+export function validateProposedPlan(value: unknown, request: MealPlanRequest): ProposedDay[] | null {
+  if (typeof value !== "object" || value === null || !Array.isArray((value as { days?: unknown }).days)) return null
+
+  const days = new Map<number, ProposedDay>()
+  for (const entry of (value as { days: unknown[] }).days) {
+    if (typeof entry !== "object" || entry === null) continue
+    const { day, meals } = entry as Record<string, unknown>
+    if (!Number.isInteger(day) || (day as number) < 1 || (day as number) > request.days || !Array.isArray(meals)) continue
+
+    const proposed: ProposedDay = { day: day as number, meals: [] }
+    for (const meal of meals) {
+      if (typeof meal !== "object" || meal === null) continue
+      const { meal: slot, name, foods } = meal as Record<string, unknown>
+      if (!isMeal(slot) || !request.meals.includes(slot) || proposed.meals.some((existing) => existing.meal === slot)) continue
+
+      const validFoods = validateExtractedFoods({ foods }) ?? []
+      if (validFoods.length === 0) continue
+      proposed.meals.push({
+        meal: slot,
+        name: typeof name === "string" && name.trim() ? name.trim().slice(0, 100) : slot,
+        foods: validFoods.slice(0, MAX_FOODS_PER_MEAL),
+      })
+    }
+
+    proposed.meals.sort((a, b) => MEALS.indexOf(a.meal) - MEALS.indexOf(b.meal))
+    if (proposed.meals.length > 0) days.set(proposed.day, proposed)
+  }
+
+  return days.size > 0 ? [...days.values()].sort((a, b) => a.day - b.day) : null
+}
+
+// The request's excluded foods as restriction rules, checked like the profile's diet
+export function exclusionRules(exclude: string[]): RestrictionRule[] {
+  return exclude.map((food) => ({ id: `exclude:${food}`, label: `no ${food}`, kind: "diet", terms: [food] }))
+}
+
+function describeTargets(targets: PlanTargets) {
+  return (
+    `${targets.calories} kcal, at least ${targets.protein} g protein, about ${targets.carbohydrate} g carbohydrate ` +
+    `and ${targets.fat} g fat, at least ${targets.fiber} g fiber, at most ${targets.sodium} mg sodium`
+  )
+}
+
+function planPrompt(request: MealPlanRequest, targets: PlanTargets, restrictions: RestrictionRule[], profile?: string) {
+  const sections = [
+    "You are NIC, a nutrition assistant, writing a meal plan. Every meal's foods are looked up in USDA FoodData " +
+      "Central and each day's totals are checked, so list plain single ingredients with realistic amounts " +
+      "(grams, cups, pieces), not dishes or brands. Vary the meals across days.",
+    `Daily targets for every day: ${describeTargets(targets)}.`,
+  ]
+  if (restrictions.length > 0) {
+    sections.push(`Never include foods that conflict with: ${restrictions.map((rule) => rule.label).join(", ")}.`)
+  }
+  if (profile) sections.push(`User profile:\n${profile}`)
+  return sections.join("\n\n")
+}
+
+function planRequestMessage(request: MealPlanRequest) {
+  const lines = [`Create a ${request.days}-day meal plan with ${request.meals.join(", ")} each day.`]
+  if (request.notes) lines.push(`Preferences: ${request.notes}`)
+  return lines.join("\n")
+}
+
+// What the model needs to fix, day by day, with the verified numbers
+function revisionMessage(days: (PlanDay | undefined)[], request: MealPlanRequest) {
+  const lines = ["Revise the meal plan. The FDC-verified totals missed these targets:"]
+  for (let day = 1; day <= request.days; day++) {
+    const verified = days[day - 1]
+    if (!verified) {
+      lines.push(`- Day ${day}: missing, or no meals could be verified`)
+      continue
+    }
+    if (isDayOnTarget(verified)) continue
+
+    const problems = [
+      ...verified.misses.map(
+        (miss) => `${miss.nutrient} ${Math.round(miss.actual)} vs target ${Math.round(miss.target)} (too ${miss.direction})`,
+      ),
+      ...verified.violations.map((violation) => `${violation.context} conflicts with ${violation.label}`),
+    ]
+    const unresolved = verified.meals.flatMap((meal) => meal.unresolved)
+    if (unresolved.length > 0) problems.push(`not found in FDC: ${unresolved.join(", ")}`)
+    lines.push(`- Day ${day}: ${problems.join("; ")}`)
+  }
+  lines.push("Return the full plan again, changing foods or amounts only on the days listed above.")
+  return lines.join("\n")
+}
+
+async function verifyMeals(day: ProposedDay, source: FoodSource): Promise<PlanMeal[]> {
+  return Promise.all(
+    day.meals.map(async (meal) => {
+      const { results, unresolved } = await lookupFoods(meal.foods, source)
+      return {
+        meal: meal.meal,
+        name: meal.name,
+        foods: results,
+        unresolved: unresolved.map((entry) => entry.item),
+        totals: sumPanels(results.map((result) => result.nutrients)),
+      }
+    }),
+  )
+}
+
+export interface GenerateMealPlanOptions {
+  llm: LLMProvider
+  source: FoodSource
+  request: MealPlanRequest
+  targets: PlanTargets
+  restrictions: RestrictionRule[]
+  // describeProfile output, when the user has a profile
+  profile?: string
+  signal?: AbortSignal
+}
+
+// Proposes a plan, verifies every day against FDC data and the targets, and asks the model to revise the days
+// that missed. The best version of each day across rounds is kept; days still off on calories after the last
+// round get their portions scaled, and days still breaking an allergy are left out.
+export async function generateMealPlan({
+  llm,
+  source,
+  request,
+  targets,
+  restrictions,
+  profile,
+  signal,
+}: GenerateMealPlanOptions): Promise<Omit<MealPlan, "id" | "createdAt">> {
+  const messages: LLMMessage[] = [
+    { role: "system", content: planPrompt(request, targets, restrictions, profile) },
+    { role: "user", content: planRequestMessage(request) },
+  ]
+  const best: (PlanDay | undefined)[] = Array.from({ length: request.days })
+  let attempts = 0
+
+  while (attempts < MAX_PLAN_ATTEMPTS) {
+    attempts++
+    const args = await llm.callTool(messages, MEAL_PLAN_TOOL, { signal })
+    const proposed = validateProposedPlan(args, request)
+
+    if (proposed) {
+      // Days already on target keep their earlier version; only the rest are looked up again
+      const pending = proposed.filter((day) => {
+        const current = best[day.day - 1]
+        return !current || !isDayOnTarget(current)
+      })
+      const verified = await Promise.all(
+        pending.map(async (day) => {
+          const meals = await verifyMeals(day, source)
+          const foods = day.meals.flatMap((meal) => meal.foods)
+          return buildDay(day.day, meals, targets, checkFoods(foods, restrictions).violations)
+        }),
+      )
+      for (const day of verified) {
+        const current = best[day.day - 1]
+        if (!current || scoreDay(day) < scoreDay(current)) best[day.day - 1] = day
+      }
+      messages.push({ role: "assistant", content: JSON.stringify(args) })
+    } else {
+      console.warn(`Meal plan attempt ${attempts} returned invalid output`)
+    }
+
+    if (best.every((day) => day && isDayOnTarget(day))) break
+    messages.push({ role: "user", content: revisionMessage(best, request) })
+  }
+
+  const verified = best.filter((day): day is PlanDay => day !== undefined)
+  const days = verified
+    .filter((day) => !day.violations.some((violation) => violation.kind === "allergy"))
+    .map((day) => {
+      const adjusted = adjustPortions(day, targets)
+      return adjusted && scoreDay(adjusted) < scoreDay(day) ? adjusted : day
+    })
+  if (days.length === 0) {
+    const message =
+      verified.length > 0
+        ? "Every day the model proposed conflicted with your allergies."
+        : "The model didn't return a usable meal plan."
+    throw new LLMUpstreamError({ message })
+  }
+
+  return { request, targets, days, attempts }
+}
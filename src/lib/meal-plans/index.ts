@@ -0,0 +1,4 @@
+export * from "./client"
+export * from "./types"
+export * from "./validate"
+export * from "./verify"
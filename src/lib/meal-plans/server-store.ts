@@ -0,0 +1,50 @@
+import { createJSONFile, userDataPath } from "@/lib/json-file"
+
+import type { MealPlan, MealPlanStore } from "./types"
+
+// Older plans are dropped past this many
+const MAX_PLANS = 50
+
+// Server-only saved meal plans, one JSON file per user, newest first
+export function createFileMealPlanStore(filePath: string): MealPlanStore {
+  const file = createJSONFile<MealPlan[]>(filePath, () => [])
+
+  return {
+    async list() {
+      return file.read()
+    },
+
+    async get(id) {
+      return (await file.read()).find((plan) => plan.id === id) ?? null
+    },
+
+    add(plan) {
+      return file.mutate((plans) => {
+        const created: MealPlan = { ...plan, id: crypto.randomUUID(), createdAt: new Date().toISOString() }
+        plans.unshift(created)
+        plans.splice(MAX_PLANS)
+        return created
+      })
+    },
+
+    delete(id) {
+      return file.mutate((plans) => {
+        const index = plans.findIndex((plan) => plan.id === id)
+        if (index === -1) return false
+        plans.splice(index, 1)
+        return true
+      })
+    },
+  }
+}
+
+const serverStores = new Map<string, MealPlanStore>()
+
+export function getServerMealPlanStore(userId: string): MealPlanStore {
+  let store = serverStores.get(userId)
+  if (!store) {
+    store = createFileMealPlanStore(userDataPath(userId, "meal-plans.json"))
+    serverStores.set(userId, store)
+  }
+  return store
+}
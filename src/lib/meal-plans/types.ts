@@ -0,0 +1,77 @@
+import type { Meal } from "@/lib/log"
+import type { FoodQuantity, NutrientKey, NutrientPanel, NutritionLookup } from "@/lib/nutrition"
+import type { SafetyViolation } from "@/lib/safety"
+
+// Nutrients a plan is generated and checked against
+export const PLAN_NUTRIENTS = ["calories", "protein", "carbohydrate", "fat", "fiber", "sodium"] as const
+
+export type PlanNutrient = (typeof PLAN_NUTRIENTS)[number] & NutrientKey
+
+export type PlanTargets = Record<PlanNutrient, number>
+
+export interface MealPlanRequest {
+  days: number
+  meals: Meal[]
+  // Replace the profile's targets for this plan
+  targets?: Partial<Pick<PlanTargets, "calories" | "protein" | "carbohydrate" | "fat">>
+  // Foods to leave out on top of the profile's allergies and diet
+  exclude: string[]
+  notes?: string
+}
+
+// One meal as the model proposed it
+export interface ProposedMeal {
+  meal: Meal
+  name: string
+  foods: FoodQuantity[]
+}
+
+export interface ProposedDay {
+  day: number
+  meals: ProposedMeal[]
+}
+
+export interface TargetMiss {
+  nutrient: PlanNutrient
+  actual: number
+  target: number
+  direction: "low" | "high"
+}
+
+export interface PlanMeal {
+  meal: Meal
+  name: string
+  // FDC-verified foods
+  foods: NutritionLookup[]
+  // Foods FDC couldn't match, left out of the totals
+  unresolved: string[]
+  totals: NutrientPanel
+}
+
+export interface PlanDay {
+  day: number
+  meals: PlanMeal[]
+  totals: NutrientPanel
+  misses: TargetMiss[]
+  // Foods that break the profile's allergies, diet or exclusions
+  violations: SafetyViolation[]
+  // Whether portions were scaled after the model's last revision to bring calories in range
+  adjusted: boolean
+}
+
+export interface MealPlan {
+  id: string
+  createdAt: string
+  request: MealPlanRequest
+  targets: PlanTargets
+  days: PlanDay[]
+  // Generation rounds the model took, including the first proposal
+  attempts: number
+}
+
+export interface MealPlanStore {
+  list(): Promise<MealPlan[]>
+  get(id: string): Promise<MealPlan | null>
+  add(plan: Omit<MealPlan, "id" | "createdAt">): Promise<MealPlan>
+  delete(id: string): Promise<boolean>
+}
@@ -0,0 +1,81 @@
+import { MEALS, type Meal } from "@/lib/log"
+
+import type { MealPlanRequest } from "./types"
+
+export const MAX_PLAN_DAYS = 7
+const MAX_EXCLUSIONS = 20
+const MAX_NOTES_CHARS = 500
+const DEFAULT_MEALS: Meal[] = ["breakfast", "lunch", "dinner"]
+
+// Plausible daily ranges for target overrides; anything outside is almost certainly a typo
+const TARGET_RANGES = {
+  calories: [800, 6000],
+  protein: [10, 400],
+  carbohydrate: [0, 800],
+  fat: [10, 300],
+} as const
+
+export type MealPlanParseResult = { ok: true; value: MealPlanRequest } | { ok: false; error: string; field: string }
+
+export function parseMealPlanRequest(body: unknown): MealPlanParseResult {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { ok: false, error: "Body must be a JSON object.", field: "" }
+  }
+  const input = body as Record<string, unknown>
+
+  if (!Number.isInteger(input.days) || (input.days as number) < 1 || (input.days as number) > MAX_PLAN_DAYS) {
+    return { ok: false, error: `'days' must be a whole number from 1 to ${MAX_PLAN_DAYS}.`, field: "days" }
+  }
+
+  let meals = DEFAULT_MEALS
+  if (input.meals !== undefined) {
+    if (!Array.isArray(input.meals) || input.meals.length === 0 || input.meals.some((meal) => !MEALS.includes(meal))) {
+      return { ok: false, error: `'meals' must list one or more of ${MEALS.join(", ")}.`, field: "meals" }
+    }
+    meals = MEALS.filter((meal) => (input.meals as unknown[]).includes(meal))
+  }
+
+  const targets: NonNullable<MealPlanRequest["targets"]> = {}
+  if (input.targets !== undefined) {
+    if (typeof input.targets !== "object" || input.targets === null) {
+      return { ok: false, error: "'targets' must be an object.", field: "targets" }
+    }
+    for (const [key, [min, max]] of Object.entries(TARGET_RANGES) as [keyof typeof TARGET_RANGES, readonly number[]][]) {
+      const value = (input.targets as Record<string, unknown>)[key]
+      if (value === undefined || value === null) continue
+      if (typeof value !== "number" || !Number.isFinite(value) || value < min || value > max) {
+        return { ok: false, error: `'targets.${key}' must be between ${min} and ${max}.`, field: `targets.${key}` }
+      }
+      targets[key] = Math.round(value)
+    }
+  }
+
+  const exclude: string[] = []
+  if (input.exclude !== undefined) {
+    if (!Array.isArray(input.exclude) || input.exclude.length > MAX_EXCLUSIONS) {
+      return { ok: false, error: `'exclude' must be a list of at most ${MAX_EXCLUSIONS} foods.`, field: "exclude" }
+    }
+    for (const [index, food] of input.exclude.entries()) {
+      if (typeof food !== "string" || !food.trim() || food.length > 50) {
+        return { ok: false, error: `'exclude[${index}]' must be a food name.`, field: `exclude[${index}]` }
+      }
+      exclude.push(food.trim().toLowerCase())
+    }
+  }
+
+  if (input.notes !== undefined && input.notes !== null && (typeof input.notes !== "string" || input.notes.length > MAX_NOTES_CHARS)) {
+    return { ok: false, error: `'notes' must be at most ${MAX_NOTES_CHARS} characters.`, field: "notes" }
+  }
+  const notes = typeof input.notes === "string" ? input.notes.trim() : ""
+
+  return {
+    ok: true,
+    value: {
+      days: input.days as number,
+      meals,
+      ...(Object.keys(targets).length > 0 ? { targets } : {}),
+      exclude,
+      ...(notes ? { notes } : {}),
+    },
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest"
+
+import type { NutritionLookup } from "@/lib/nutrition"
+
+import type { PlanDay, PlanTargets } from "./types"
+import { adjustPortions, buildDay, findMisses, resolvePlanTargets, scoreDay } from "./verify"
+
+const targets: PlanTargets = { calories: 2000, protein: 100, carbohydrate: 250, fat: 70, fiber: 30, sodium: 2300 }
+
+function oats(grams: number): NutritionLookup {
+  const factor = grams / 100
+  const per100g = { calories: 400, protein: 14, carbohydrate: 66, fat: 7, fiber: 10, sodium: 5 }
+  return {
+    item: `${grams} g oats`,
+    quantity: { food: "oats", quantity: grams, unit: "g" },
+    food: { fdcId: 1, description: "Oats" },
+    grams,
+    nutrients: Object.fromEntries(Object.entries(per100g).map(([key, value]) => [key, value * factor])),
+    per100g,
+  }
+}
+
+function dayOf(grams: number): PlanDay {
+  const food = oats(grams)
+  return buildDay(1, [{ meal: "breakfast", name: "Oats", foods: [food], unresolved: [], totals: food.nutrients }], targets, [])
+}
+
+describe("resolvePlanTargets", () => {
+  it("moves carbohydrate, fat and fiber with a new calorie target but keeps protein and sodium", () => {
+    const daily = { calories: 2000, protein: 120, carbohydrate: 250, fat: 70, fiber: 28, sodium: 1500 }
+    expect(resolvePlanTargets(daily, { calories: 1500 })).toEqual({
+      calories: 1500,
+      protein: 120,
+      carbohydrate: 188,
+      fat: 53,
+      fiber: 21,
+      sodium: 1500,
+    })
+  })
+
+  it("takes explicit overrides and falls back to the 2,000 kcal defaults", () => {
+    expect(resolvePlanTargets({}, { protein: 150, fat: 60 })).toEqual({
+      calories: 2000,
+      protein: 150,
+      carbohydrate: 275,
+      fat: 60,
+      fiber: 28,
+      sodium: 2300,
+    })
+  })
+})
+
+describe("findMisses", () => {
+  it("allows drift within each nutrient's tolerance", () => {
+    const totals = { calories: 1850, protein: 180, carbohydrate: 200, fat: 85, fiber: 45, sodium: 2300 }
+    expect(findMisses(totals, targets)).toEqual([])
+  })
+
+  it("reports nutrients outside their tolerance, treating missing ones as zero and sodium as a ceiling", () => {
+    const totals = { calories: 2300, protein: 80, carbohydrate: 250, fat: 70, sodium: 2301 }
+    expect(findMisses(totals, targets)).toEqual([
+      { nutrient: "calories", actual: 2300, target: 2000, direction: "high" },
+      { nutrient: "protein", actual: 80, target: 100, direction: "low" },
+      { nutrient: "fiber", actual: 0, target: 30, direction: "low" },
+      { nutrient: "sodium", actual: 2301, target: 2300, direction: "high" },
+    ])
+  })
+})
+
+describe("scoreDay", () => {
+  it("ranks any restriction hit below nutrient misses, and bigger misses below smaller ones", () => {
+    const violation = { ruleId: "peanut", label: "peanut allergy", kind: "allergy" as const, term: "peanut", context: "" }
+    const close = { misses: [{ nutrient: "calories" as const, actual: 1700, target: 2000, direction: "low" as const }] }
+    const far = { misses: [{ nutrient: "calories" as const, actual: 1000, target: 2000, direction: "low" as const }] }
+
+    expect(scoreDay({ ...close, violations: [] })).toBeCloseTo(0.15)
+    expect(scoreDay({ ...far, violations: [] })).toBeGreaterThan(scoreDay({ ...close, violations: [] }))
+    expect(scoreDay({ misses: [], violations: [violation] })).toBeGreaterThan(scoreDay({ ...far, violations: [] }))
+  })
+})
+
+describe("adjustPortions", () => {
+  it("scales portions toward the calorie target and relabels them", () => {
+    const adjusted = adjustPortions(dayOf(400), targets)!
+
+    expect(adjusted.adjusted).toBe(true)
+    expect(adjusted.totals.calories).toBeCloseTo(2000)
+    expect(adjusted.meals[0].foods[0]).toMatchObject({ item: "500 g oats", grams: 500 })
+  })
+
+  it("stops at the largest change that still reads as the same meal", () => {
+    expect(adjustPortions(dayOf(200), targets)!.totals.calories).toBeCloseTo(800 * 1.33)
+  })
+
+  it("leaves days with calories in range alone", () => {
+    expect(adjustPortions(dayOf(500), targets)).toBeNull()
+  })
+})
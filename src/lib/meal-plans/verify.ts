@@ -0,0 +1,103 @@
+import { formatQuantity, scalePanel, sumPanels, type NutrientPanel, type NutritionLookup } from "@/lib/nutrition"
+import type { DailyTargets } from "@/lib/profile"
+import type { SafetyViolation } from "@/lib/safety"
+
+import {
+  PLAN_NUTRIENTS,
+  type MealPlanRequest,
+  type PlanDay,
+  type PlanNutrient,
+  type PlanTargets,
+  type TargetMiss,
+} from "./types"
+
+// How far a day's totals may drift from the target, as fractions of it; null means no bound on that side
+export const TARGET_TOLERANCES: Record<PlanNutrient, { below: number | null; above: number | null }> = {
+  calories: { below: 0.1, above: 0.1 },
+  protein: { below: 0.1, above: null },
+  carbohydrate: { below: 0.25, above: 0.25 },
+  fat: { below: 0.25, above: 0.25 },
+  fiber: { below: 0.2, above: null },
+  // A ceiling, like on the food log
+  sodium: { below: null, above: 0 },
+}
+
+// Portion scaling after the last revision stays within what still reads as the same meal
+const MIN_PORTION_SCALE = 0.75
+const MAX_PORTION_SCALE = 1.33
+
+// The profile's daily targets with the request's overrides. A different calorie target moves carbohydrate, fat
+// and fiber with it, keeping the profile's split; protein and sodium stay absolute.
+export function resolvePlanTargets(daily: DailyTargets, overrides: MealPlanRequest["targets"] = {}): PlanTargets {
+  const baseCalories = daily.calories ?? 2000
+  const calories = overrides.calories ?? baseCalories
+  const ratio = calories / baseCalories
+
+  return {
+    calories,
+    protein: overrides.protein ?? daily.protein ?? 50,
+    carbohydrate: overrides.carbohydrate ?? Math.round((daily.carbohydrate ?? 275) * ratio),
+    fat: overrides.fat ?? Math.round((daily.fat ?? 78) * ratio),
+    fiber: Math.round((daily.fiber ?? 28) * ratio),
+    sodium: daily.sodium ?? 2300,
+  }
+}
+
+export function findMisses(totals: NutrientPanel, targets: PlanTargets): TargetMiss[] {
+  const misses: TargetMiss[] = []
+  for (const nutrient of PLAN_NUTRIENTS) {
+    const target = targets[nutrient]
+    const actual = totals[nutrient] ?? 0
+    const { below, above } = TARGET_TOLERANCES[nutrient]
+
+    if (below !== null && actual < target * (1 - below)) misses.push({ nutrient, actual, target, direction: "low" })
+    if (above !== null && actual > target * (1 + above)) misses.push({ nutrient, actual, target, direction: "high" })
+  }
+  return misses
+}
+
+export function isDayOnTarget(day: Pick<PlanDay, "misses" | "violations">) {
+  return day.misses.length === 0 && day.violations.length === 0
+}
+
+// Lower is better: restriction hits outweigh any nutrient miss, then misses weigh by how far off they are
+export function scoreDay(day: Pick<PlanDay, "misses" | "violations">) {
+  const drift = day.misses.reduce((sum, miss) => sum + Math.abs(miss.actual - miss.target) / miss.target, 0)
+  return day.violations.length * 100 + drift
+}
+
+export function buildDay(
+  day: number,
+  meals: PlanDay["meals"],
+  targets: PlanTargets,
+  violations: SafetyViolation[],
+  adjusted = false,
+): PlanDay {
+  const totals = sumPanels(meals.map((meal) => meal.totals))
+  return { day, meals, totals, misses: findMisses(totals, targets), violations, adjusted }
+}
+
+function scaleLookup(lookup: NutritionLookup, factor: number): NutritionLookup {
+  const quantity = { ...lookup.quantity, quantity: Math.round(lookup.quantity.quantity * factor * 100) / 100 }
+  return {
+    ...lookup,
+    item: formatQuantity(quantity),
+    quantity,
+    grams: lookup.grams * factor,
+    nutrients: scalePanel(lookup.nutrients, factor),
+  }
+}
+
+// Scales every portion of the day toward the calorie target, within bounds. Returns null when calories are
+// already in range or there is nothing to scale.
+export function adjustPortions(day: PlanDay, targets: PlanTargets): PlanDay | null {
+  const calories = day.totals.calories ?? 0
+  if (calories <= 0 || !day.misses.some((miss) => miss.nutrient === "calories")) return null
+
+  const factor = Math.min(Math.max(targets.calories / calories, MIN_PORTION_SCALE), MAX_PORTION_SCALE)
+  const meals = day.meals.map((meal) => {
+    const foods = meal.foods.map((food) => scaleLookup(food, factor))
+    return { ...meal, foods, totals: sumPanels(foods.map((food) => food.nutrients)) }
+  })
+  return buildDay(day.day, meals, targets, day.violations, true)
+}
@@ -0,0 +1,58 @@
+// Async so persistent backends (file, KV) can implement the same interface
+export interface NutritionCache<V> {
+  get(key: string): Promise<V | undefined>
+  set(key: string, value: V): Promise<void>
+}
+
+// "  Brown Rice, cooked! " and "brown rice cooked" share a cache entry
+export function normalizeQuery(query: string): string {
+  return query
+    .toLowerCase()
+    .replace(/[^a-z0-9%\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+// In-memory least-recently-used cache; Map preserves insertion order, so the first key is the oldest
+export function createMemoryCache<V>({ maxEntries = 500 }: { maxEntries?: number } = {}): NutritionCache<V> {
+  const entries = new Map<string, V>()
+
+  return {
+    async get(key) {
+      if (!entries.has(key)) return undefined
+
+      const value = entries.get(key)!
+      entries.delete(key)
+      entries.set(key, value)
+      return value
+    },
+
+    async set(key, value) {
+      entries.delete(key)
+      entries.set(key, value)
+
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!)
+      }
+    },
+  }
+}
+
+// Read through the fast cache first, then the persistent one, promoting hits
+export function createTieredCache<V>(fast: NutritionCache<V>, persistent: NutritionCache<V>): NutritionCache<V> {
+  return {
+    async get(key) {
+      const cached = await fast.get(key)
+      if (cached !== undefined) return cached
+
+      const stored = await persistent.get(key)
+      if (stored !== undefined) await fast.set(key, stored)
+      return stored
+    },
+
+    async set(key, value) {
+      await fast.set(key, value)
+      await persistent.set(key, value)
+    },
+  }
+}
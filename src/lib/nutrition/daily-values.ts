@@ -0,0 +1,41 @@
+import type { NutrientKey, NutrientPanel } from "./nutrients"
+
+// FDA reference Daily Values for adults and children 4+ (2,000 kcal diet), in NUTRIENT_DEFINITIONS units
+export const DAILY_VALUES: Partial<Record<NutrientKey, number>> = {
+  fat: 78,
+  saturatedFat: 20,
+  cholesterol: 300,
+  sodium: 2300,
+  carbohydrate: 275,
+  fiber: 28,
+  addedSugars: 50,
+  protein: 50,
+  vitaminA: 900,
+  vitaminC: 90,
+  vitaminD: 20,
+  vitaminE: 15,
+  vitaminK: 120,
+  vitaminB6: 1.7,
+  vitaminB12: 2.4,
+  folate: 400,
+  calcium: 1300,
+  iron: 18,
+  magnesium: 420,
+  potassium: 4700,
+  zinc: 11,
+}
+
+// Percent of the Daily Value for every nutrient in the panel that has one
+export function percentDailyValues(
+  panel: NutrientPanel,
+  dailyValues: Partial<Record<NutrientKey, number>> = DAILY_VALUES,
+): Partial<Record<NutrientKey, number>> {
+  const percents: Partial<Record<NutrientKey, number>> = {}
+  for (const [key, value] of Object.entries(panel) as [NutrientKey, number][]) {
+    const reference = dailyValues[key]
+    if (reference) {
+      percents[key] = Math.round((value / reference) * 100)
+    }
+  }
+  return percents
+}
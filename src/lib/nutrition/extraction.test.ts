@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { createMockProvider, loadMockFixtures, mockOptionsFromFixtures } from "@/lib/llm"
+
+import { extractFoods, parseFoodList, validateExtractedFoods } from "./extraction"
+
+const fixtures = mockOptionsFromFixtures(loadMockFixtures(process.env.LLM_FIXTURES_PATH!))
+
+describe("validateExtractedFoods", () => {
+  it("rejects output without a foods array", () => {
+    expect(validateExtractedFoods(null)).toBeNull()
+    expect(validateExtractedFoods({ items: [] })).toBeNull()
+  })
+
+  it("drops unusable entries and fills in defaults", () => {
+    const foods = validateExtractedFoods({
+      foods: [
+        { food: "  egg ", quantity: 2, unit: "pieces", preparation: "boiled" },
+        { food: "", quantity: 1, unit: "cup" },
+        null,
+        { food: "rice", quantity: -3, unit: "bucket" },
+        { food: "oats", quantity: 3, unit: "bucket", preparation: "  " },
+      ],
+    })
+
+    expect(foods).toEqual([
+      { food: "egg", quantity: 2, unit: "piece", preparation: "boiled" },
+      { food: "rice", quantity: 1, unit: "serving" },
+      { food: "oats", quantity: 3, unit: "piece" },
+    ])
+  })
+
+  it("keeps references only when they point at a known food", () => {
+    const foods = validateExtractedFoods(
+      {
+        foods: [
+          { food: "rice", quantity: 1, unit: "cup", reference: 2 },
+          { food: "eggs", quantity: 1, unit: "serving", reference: 5 },
+        ],
+      },
+      2,
+    )
+    expect(foods?.map((food) => food.reference)).toEqual([2, undefined])
+  })
+})
+
+describe("parseFoodList", () => {
+  it("splits a message into foods and strips the question", () => {
+    expect(parseFoodList("How much protein is in 2 eggs, 150g rice and a banana?")).toEqual([
+      { food: "eggs", quantity: 2, unit: "piece" },
+      { food: "rice", quantity: 150, unit: "g" },
+      { food: "banana", quantity: 1, unit: "piece" },
+    ])
+    expect(parseFoodList("I had oatmeal with milk")).toEqual([
+      { food: "oatmeal", quantity: 1, unit: "serving" },
+      { food: "milk", quantity: 1, unit: "serving" },
+    ])
+  })
+})
+
+describe("extractFoods", () => {
+  it("uses the recorded tool call", async () => {
+    const llm = createMockProvider(fixtures)
+    expect(await extractFoods(llm, "Chicken breast and rice for dinner")).toEqual([
+      { food: "chicken breast", quantity: 150, unit: "g", preparation: "roasted" },
+      { food: "white rice", quantity: 1, unit: "cup", preparation: "cooked" },
+    ])
+  })
+
+  it("falls back to the parser when the tool call returns nothing or fails", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+    vi.spyOn(console, "error").mockImplementation(() => {})
+    const empty = createMockProvider()
+    expect(await extractFoods(empty, "2 apples")).toEqual([{ food: "apples", quantity: 2, unit: "piece" }])
+
+    const failing = createMockProvider({
+      toolResult: () => {
+        throw new Error("upstream down")
+      },
+    })
+    expect(await extractFoods(failing, "a banana")).toEqual([{ food: "banana", quantity: 1, unit: "piece" }])
+  })
+})
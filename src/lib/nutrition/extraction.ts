@@ -0,0 +1,150 @@
+import type { LLMProvider, ToolDefinition } from "@/lib/llm"
+
+import { parseFoodQuantity, type FoodQuantity } from "./quantity"
+import { UNITS, normalizeUnit } from "./units"
+
+export const EXTRACTION_TOOL: ToolDefinition = {
+  name: "record_foods",
+  description:
+    "Record every food item mentioned in the user's message with its amount, including foods it refers back to.",
+  parameters: {
+    type: "object",
+    properties: {
+      foods: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            food: { type: "string", description: "Food name without amount or cooking method, e.g. oatmeal" },
+            quantity: { type: "number", description: "Amount mentioned; 1 if none was given" },
+            unit: {
+              type: "string",
+              enum: [...UNITS],
+              description: "Unit of the amount; piece for countable items, serving if no amount was given",
+            },
+            preparation: {
+              type: ["string", "null"],
+              description: "Cooking method or state such as boiled, grilled or raw, if mentioned",
+            },
+            reference: {
+              type: ["integer", "null"],
+              description:
+                "Number of the earlier food this item refers to (e.g. 'that', 'the rice', 'those eggs'), " +
+                "from the list of earlier foods; null for new foods",
+            },
+          },
+          required: ["food", "quantity", "unit"],
+        },
+      },
+    },
+    required: ["foods"],
+  },
+}
+
+export interface ExtractedFood extends FoodQuantity {
+  // 1-based position in ExtractionContext.knownFoods when the mention refers back to an earlier food
+  reference?: number
+}
+
+// Earlier conversation the extraction model uses to resolve "that", "those" and "the rice"
+export interface ExtractionContext {
+  // Foods already resolved in this conversation, as numbered labels
+  knownFoods?: string[]
+  // The assistant's previous answer, for foods it suggested but nobody has looked up yet
+  previousReply?: string
+}
+
+// Enough of the previous answer to resolve "the second one you suggested"
+const PREVIOUS_REPLY_CHARS = 1500
+
+// Check model output against the schema, dropping entries that can't be used
+export function validateExtractedFoods(value: unknown, knownCount = 0): ExtractedFood[] | null {
+  if (typeof value !== "object" || value === null || !Array.isArray((value as { foods?: unknown }).foods)) {
+    return null
+  }
+
+  const foods: ExtractedFood[] = []
+  for (const entry of (value as { foods: unknown[] }).foods) {
+    if (typeof entry !== "object" || entry === null) continue
+    const { food, quantity, unit, preparation, reference } = entry as Record<string, unknown>
+
+    if (typeof food !== "string" || !food.trim()) continue
+
+    const amount = typeof quantity === "number" && Number.isFinite(quantity) && quantity > 0 ? quantity : 1
+    const normalizedUnit = typeof unit === "string" ? normalizeUnit(unit) : null
+
+    foods.push({
+      food: food.trim(),
+      quantity: amount,
+      unit: normalizedUnit ?? (amount === 1 ? "serving" : "piece"),
+      ...(typeof preparation === "string" && preparation.trim() ? { preparation: preparation.trim() } : {}),
+      ...(Number.isInteger(reference) && (reference as number) >= 1 && (reference as number) <= knownCount
+        ? { reference: reference as number }
+        : {}),
+    })
+  }
+
+  return foods
+}
+
+// Lead-ins such as "how much protein is in" or "I had"
+const LEAD_IN =
+  /^.*?\b(?:calories|protein|carbs?|fat|nutrition|nutrients|macros)\b.*?\b(?:in|of|for)\s+|^(?:i\s+(?:ate|had|eat|have)|tell me about|what about)\s+/i
+
+// Deterministic fallback used when the model call fails or returns unusable output
+export function parseFoodList(text: string): FoodQuantity[] {
+  return text
+    .replace(LEAD_IN, "")
+    .split(/[,;\n]|\band\b|\bwith\b|\bplus\b|&/i)
+    .map((part) => part.replace(/[?!.]+$/, "").trim())
+    .filter(Boolean)
+    .map(parseFoodQuantity)
+    .filter((item) => /[a-z]/i.test(item.food))
+}
+
+function extractionPrompt({ knownFoods = [], previousReply }: ExtractionContext) {
+  const sections = [
+    "Extract individual food items from the user's message with the amount, unit and cooking method. " +
+      "Return an empty list if no food is mentioned.",
+  ]
+  if (knownFoods.length > 0) {
+    sections.push(
+      "When the message refers back to an earlier food, record it with its number in reference and the amount " +
+        `the user now asks about (1 serving if none is given).\nEarlier foods:\n${knownFoods.join("\n")}`,
+    )
+  }
+  if (previousReply) {
+    sections.push(
+      "Foods from the assistant's previous answer that aren't in the list are new foods; record them by name.\n" +
+        `Previous answer:\n${previousReply.slice(0, PREVIOUS_REPLY_CHARS)}`,
+    )
+  }
+  return sections.join("\n\n")
+}
+
+// Extract structured foods from a user message using function calling; references to earlier
+// foods are resolved against the conversation context
+export async function extractFoods(
+  llm: LLMProvider,
+  message: string,
+  context: ExtractionContext = {},
+): Promise<ExtractedFood[]> {
+  try {
+    const args = await llm.callTool(
+      [
+        { role: "system", content: extractionPrompt(context) },
+        { role: "user", content: message },
+      ],
+      EXTRACTION_TOOL,
+    )
+
+    const foods = args ? validateExtractedFoods(args, context.knownFoods?.length) : null
+    if (foods) return foods
+
+    console.warn("Food extraction returned invalid output, using fallback parser")
+  } catch (error) {
+    console.error("Food extraction failed, using fallback parser:", error)
+  }
+
+  return parseFoodList(message)
+}
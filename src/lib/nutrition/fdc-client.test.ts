@@ -0,0 +1,28 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { createFDCClient } from "./fdc-client"
+
+function rateLimited(retryAfter: string) {
+  return new Response("Too many requests", { status: 429, headers: { "Retry-After": retryAfter } })
+}
+
+describe("createFDCClient", () => {
+  it("waits out a short Retry-After and tries again", async () => {
+    const fetch = vi
+      .fn<typeof globalThis.fetch>()
+      .mockResolvedValueOnce(rateLimited("0.01"))
+      .mockResolvedValueOnce(Response.json({ foods: [{ fdcId: 1, description: "Egg" }] }))
+    const client = createFDCClient({ apiKey: "short-retry", baseDelayMs: 1, fetch })
+
+    expect(await client.search("egg")).toEqual([{ fdcId: 1, description: "Egg" }])
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
+  it("fails straight away when the server asks for a longer wait than the queue allows", async () => {
+    const fetch = vi.fn<typeof globalThis.fetch>().mockResolvedValue(rateLimited("3600"))
+    const client = createFDCClient({ apiKey: "long-retry", maxQueueWaitMs: 5000, fetch })
+
+    await expect(client.search("egg")).rejects.toMatchObject({ code: "fdc_rate_limited", retryAfter: 3600 })
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+})
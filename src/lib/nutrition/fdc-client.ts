@@ -0,0 +1,226 @@
+import type { FDCSearchFood, FDCSearchResponse } from "./fdc"
+
+export const FDC_SEARCH_URL = "https://api.nal.usda.gov/fdc/v1/foods/search"
+const HOUR_MS = 60 * 60 * 1000
+
+export type FDCErrorCode = "fdc_timeout" | "fdc_rate_limited" | "fdc_quota_exceeded" | "fdc_http_error" | "fdc_invalid_response" | "fdc_network_error"
+
+export class FDCError extends Error {
+  readonly code: FDCErrorCode
+  readonly retryable: boolean
+
+  constructor(message: string, code: FDCErrorCode, retryable: boolean, options?: { cause?: unknown }) {
+    super(message, options)
+    this.name = "FDCError"
+    this.code = code
+    this.retryable = retryable
+  }
+}
+
+export class FDCTimeoutError extends FDCError {
+  constructor(timeoutMs: number) {
+    super(`FDC request timed out after ${timeoutMs} ms`, "fdc_timeout", true)
+    this.name = "FDCTimeoutError"
+  }
+}
+
+export class FDCHttpError extends FDCError {
+  readonly status: number
+  // Seconds the server asked us to wait, if it said
+  readonly retryAfter?: number
+
+  constructor(status: number, retryAfter?: number) {
+    super(
+      `FDC request failed with status ${status}`,
+      status === 429 ? "fdc_rate_limited" : "fdc_http_error",
+      status === 429 || status >= 500,
+    )
+    this.name = "FDCHttpError"
+    this.status = status
+    this.retryAfter = retryAfter
+  }
+}
+
+// Our own hourly budget for the key is spent; retrying won't help until the window slides
+export class FDCQuotaExceededError extends FDCError {
+  readonly retryAfter: number
+
+  constructor(retryAfter: number) {
+    super(`FDC hourly quota exhausted, retry in ${retryAfter} s`, "fdc_quota_exceeded", false)
+    this.name = "FDCQuotaExceededError"
+    this.retryAfter = retryAfter
+  }
+}
+
+export interface FDCClientOptions {
+  apiKey: string
+  // Simultaneous in-flight requests
+  maxConcurrency?: number
+  // FDC allows 1,000 requests per hour per key by default
+  requestsPerHour?: number
+  // Longest we'll queue for a rate-limit slot, or wait out a server's Retry-After, before failing fast
+  maxQueueWaitMs?: number
+  maxRetries?: number
+  baseDelayMs?: number
+  timeoutMs?: number
+  fetch?: typeof fetch
+}
+
+export interface FDCClient {
+  search(query: string): Promise<FDCSearchFood[]>
+  // Requests left in the current hourly window for this key
+  remainingQuota(): number
+}
+
+// Sliding one-hour window of request timestamps, shared by every client using the same key
+interface RateWindow {
+  limit: number
+  timestamps: number[]
+}
+
+const rateWindows = new Map<string, RateWindow>()
+
+function getRateWindow(apiKey: string, limit: number): RateWindow {
+  let window = rateWindows.get(apiKey)
+  if (!window) {
+    window = { limit, timestamps: [] }
+    rateWindows.set(apiKey, window)
+  }
+  return window
+}
+
+function prune(window: RateWindow, now: number) {
+  while (window.timestamps.length > 0 && now - window.timestamps[0] >= HOUR_MS) {
+    window.timestamps.shift()
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Minimal semaphore so a ten-ingredient recipe fans out without flooding FDC
+function createLimiter(maxConcurrency: number) {
+  let active = 0
+  const waiting: (() => void)[] = []
+
+  return async function run<T>(task: () => Promise<T>): Promise<T> {
+    if (active >= maxConcurrency) {
+      await new Promise<void>((resolve) => waiting.push(resolve))
+    }
+    active++
+    try {
+      return await task()
+    } finally {
+      active--
+      waiting.shift()?.()
+    }
+  }
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return seconds
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? undefined : Math.max(0, (date - Date.now()) / 1000)
+}
+
+export function createFDCClient({
+  apiKey,
+  maxConcurrency = 4,
+  requestsPerHour = 1000,
+  maxQueueWaitMs = 5000,
+  maxRetries = 3,
+  baseDelayMs = 500,
+  timeoutMs = 10000,
+  fetch: fetchImpl = fetch,
+}: FDCClientOptions): FDCClient {
+  const limit = createLimiter(maxConcurrency)
+  const window = getRateWindow(apiKey, requestsPerHour)
+
+  // Reserve a slot in the hourly window, waiting briefly if one is about to free up
+  const acquireSlot = async () => {
+    for (;;) {
+      const now = Date.now()
+      prune(window, now)
+      if (window.timestamps.length < window.limit) {
+        window.timestamps.push(now)
+        return
+      }
+
+      const waitMs = HOUR_MS - (now - window.timestamps[0])
+      if (waitMs > maxQueueWaitMs) {
+        throw new FDCQuotaExceededError(Math.ceil(waitMs / 1000))
+      }
+      await sleep(waitMs)
+    }
+  }
+
+  const request = async (query: string): Promise<FDCSearchFood[]> => {
+    await acquireSlot()
+
+    const params = new URLSearchParams({ query, pageSize: "25", api_key: apiKey })
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), timeoutMs)
+
+    let res: Response
+    try {
+      res = await fetchImpl(`${FDC_SEARCH_URL}?${params}`, { signal: controller.signal })
+    } catch (error) {
+      if (controller.signal.aborted) throw new FDCTimeoutError(timeoutMs)
+      throw new FDCError("Could not reach FDC", "fdc_network_error", true, { cause: error })
+    } finally {
+      clearTimeout(timer)
+    }
+
+    // api.data.gov reports the key's real remaining budget; trust it over our own count
+    const remaining = Number(res.headers.get("X-RateLimit-Remaining"))
+    if (res.headers.has("X-RateLimit-Remaining") && Number.isFinite(remaining)) {
+      const used = Math.max(0, window.limit - remaining)
+      while (window.timestamps.length < used) window.timestamps.push(Date.now())
+    }
+
+    if (!res.ok) {
+      throw new FDCHttpError(res.status, parseRetryAfter(res.headers.get("Retry-After")))
+    }
+
+    let data: FDCSearchResponse
+    try {
+      data = (await res.json()) as FDCSearchResponse
+    } catch (error) {
+      throw new FDCError("FDC returned a response that is not valid JSON", "fdc_invalid_response", false, {
+        cause: error,
+      })
+    }
+
+    if (data.foods !== undefined && !Array.isArray(data.foods)) {
+      throw new FDCError("FDC search response has no foods list", "fdc_invalid_response", false)
+    }
+    return data.foods ?? []
+  }
+
+  // Exponential backoff with jitter on 429, 5xx, timeouts and network failures
+  const search = async (query: string) => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await limit(() => request(query))
+      } catch (error) {
+        if (!(error instanceof FDCError) || !error.retryable || attempt >= maxRetries) throw error
+
+        const backoff = baseDelayMs * 2 ** attempt * (1 + Math.random() * 0.25)
+        const retryAfterMs = error instanceof FDCHttpError && error.retryAfter !== undefined ? error.retryAfter * 1000 : 0
+        // A server asking for a longer pause than we'd queue for gets the error passed on instead of a hung request
+        if (retryAfterMs > maxQueueWaitMs) throw error
+        await sleep(Math.max(backoff, retryAfterMs))
+      }
+    }
+  }
+
+  return {
+    search,
+
+    remainingQuota() {
+      prune(window, Date.now())
+      return Math.max(0, window.limit - window.timestamps.length)
+    },
+  }
+}
@@ -0,0 +1,127 @@
+import type { FDCFoodNutrient } from "./nutrients"
+import { isVolumeUnit, normalizeUnit, volumeToMilliliters, type CountUnit } from "./units"
+
+export type FDCDataType = "Foundation" | "SR Legacy" | "Survey (FNDDS)" | "Branded" | "Experimental"
+
+export interface FDCFoodMeasure {
+  disseminationText?: string
+  gramWeight?: number
+  rank?: number
+  measureUnitName?: string
+}
+
+// Subset of a /foods/search result that we rely on
+export interface FDCSearchFood {
+  fdcId: number
+  description: string
+  dataType?: FDCDataType | string
+  brandOwner?: string
+  servingSize?: number
+  servingSizeUnit?: string
+  foodNutrients?: FDCFoodNutrient[]
+  foodMeasures?: FDCFoodMeasure[]
+}
+
+export interface FDCSearchResponse {
+  foods?: FDCSearchFood[]
+}
+
+// Generic reference data beats survey data, which beats branded labels
+const DATA_TYPE_WEIGHT: Record<string, number> = {
+  Foundation: 3,
+  "SR Legacy": 2.5,
+  "Survey (FNDDS)": 1.5,
+  Branded: 0,
+}
+
+// Lowercase words with simple plural endings stripped, so "eggs" matches "Egg, whole"
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    // "es" is only a plural ending after s, x, z, ch, sh and o ("peaches", "tomatoes"); "apples" loses just the s
+    .map((word) => word.replace(/(?<=(?:[sxzo]|ch|sh))es$|(?<!s)s$/, ""))
+}
+
+function scoreFood(query: string, food: FDCSearchFood): number {
+  const queryWords = tokenize(query)
+  const descriptionWords = tokenize(food.description)
+  if (queryWords.length === 0) return 0
+
+  const matched = queryWords.filter((word) => descriptionWords.includes(word)).length
+  const coverage = matched / queryWords.length
+  // FDC descriptions lead with the main ingredient ("Egg, whole, raw")
+  const leads = descriptionWords[0] === queryWords[queryWords.length - 1] ? 1 : 0
+  // Prefer plain foods over long, heavily qualified descriptions
+  const brevity = 1 / (1 + Math.max(0, descriptionWords.length - queryWords.length) * 0.15)
+
+  return coverage * 4 + leads + brevity + (DATA_TYPE_WEIGHT[food.dataType ?? ""] ?? 0)
+}
+
+// Pick the food that best matches the query, preferring Foundation/SR Legacy over Branded
+export function pickBestFood(query: string, foods: FDCSearchFood[]): FDCSearchFood | null {
+  let best: FDCSearchFood | null = null
+  let bestScore = -Infinity
+
+  for (const food of foods) {
+    if (!food.foodNutrients?.length) continue
+
+    const score = scoreFood(query, food)
+    if (score > bestScore) {
+      best = food
+      bestScore = score
+    }
+  }
+
+  return best
+}
+
+function sortedMeasures(food: FDCSearchFood): FDCFoodMeasure[] {
+  return [...(food.foodMeasures ?? [])]
+    .filter((measure) => (measure.gramWeight ?? 0) > 0)
+    .sort((a, b) => (a.rank ?? Infinity) - (b.rank ?? Infinity))
+}
+
+// Grams in one piece, slice or default serving of a food
+export function portionGrams(food: FDCSearchFood, unit: CountUnit): number {
+  const measures = sortedMeasures(food)
+  const text = (measure: FDCFoodMeasure) => measure.disseminationText ?? ""
+
+  if (unit === "slice") {
+    const slice = measures.find((measure) => /\bslice\b/i.test(text(measure)))
+    if (slice) return slice.gramWeight!
+  }
+
+  if (unit === "piece") {
+    const piece =
+      measures.find((measure) => /\b(medium|large|whole|piece|each)\b/i.test(text(measure))) ??
+      measures.find((measure) => !/\b(cup|tbsp|tsp|oz|ounce|slice|serving)\b/i.test(text(measure)))
+    if (piece) return piece.gramWeight!
+  } else if (measures.length > 0) {
+    return measures[0].gramWeight!
+  }
+
+  if (food.servingSize && /^(g|grm|ml|mlt)$/i.test(food.servingSizeUnit ?? "")) {
+    return food.servingSize
+  }
+
+  return 100
+}
+
+// Derive grams per ml from a household measure such as "1 cup, chopped"
+export function gramsPerMl(food: FDCSearchFood): number | null {
+  for (const measure of sortedMeasures(food)) {
+    const match = (measure.disseminationText ?? "").match(/^([\d.\/]+)\s+([a-z. ]+?)(?:,|\(|$)/i)
+    if (!match) continue
+
+    const unit = normalizeUnit(match[2])
+    const [numerator, denominator] = match[1].split("/").map(Number)
+    const amount = denominator ? numerator / denominator : numerator
+    if (unit && isVolumeUnit(unit) && amount > 0) {
+      return measure.gramWeight! / volumeToMilliliters(amount, unit)
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,58 @@
+import { promises as fs } from "fs"
+import path from "path"
+
+import type { NutritionCache } from "./cache"
+
+interface StoredEntry<V> {
+  value: V
+  storedAt: number
+}
+
+const THIRTY_DAYS_MS = 30 * 24 * 60 * 60 * 1000
+
+// Server-only persistent cache kept in a single JSON file
+export function createFileCache<V>(
+  filePath: string,
+  { ttlMs = THIRTY_DAYS_MS }: { ttlMs?: number } = {},
+): NutritionCache<V> {
+  let entries: Promise<Record<string, StoredEntry<V>>> | null = null
+  // Serialize writes so concurrent lookups can't clobber each other
+  let queue: Promise<unknown> = Promise.resolve()
+
+  const load = () => {
+    if (!entries) {
+      entries = fs
+        .readFile(filePath, "utf8")
+        .then((raw) => JSON.parse(raw) as Record<string, StoredEntry<V>>)
+        .catch((error) => {
+          if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+            console.error("Failed to read FDC cache, starting empty:", error)
+          }
+          return {}
+        })
+    }
+    return entries
+  }
+
+  return {
+    async get(key) {
+      const entry = (await load())[key]
+      if (!entry || Date.now() - entry.storedAt > ttlMs) return undefined
+      return entry.value
+    },
+
+    async set(key, value) {
+      const all = await load()
+      all[key] = { value, storedAt: Date.now() }
+
+      const write = queue.then(async () => {
+        await fs.mkdir(path.dirname(filePath), { recursive: true })
+        await fs.writeFile(filePath, JSON.stringify(all), "utf8")
+      })
+      queue = write.catch((error) => {
+        console.error("Failed to write FDC cache:", error)
+      })
+      await queue
+    },
+  }
+}
@@ -0,0 +1,90 @@
+import { gramsPerMl, pickBestFood, portionGrams, type FDCSearchFood } from "./fdc"
+import { normalizeNutrients, scalePanel, type NutrientPanel } from "./nutrients"
+import type { UnresolvedFood } from "./payload"
+import { formatQuantity, type FoodQuantity } from "./quantity"
+import type { FoodSource } from "./sources"
+import { isCountUnit, isVolumeUnit, toGrams } from "./units"
+
+export * from "./cache"
+export * from "./daily-values"
+export * from "./fdc-client"
+export * from "./nutrients"
+export * from "./payload"
+export * from "./quantity"
+export * from "./sources"
+export * from "./units"
+export { createLocalIndex, parseBulkCSV, parseBulkJSON } from "./local-index"
+export { gramsPerMl, pickBestFood, portionGrams, type FDCSearchFood } from "./fdc"
+
+export interface NutritionLookup {
+  // Label for what the user mentioned, e.g. "2 eggs"
+  item: string
+  quantity: FoodQuantity
+  food: {
+    fdcId: number
+    description: string
+    dataType?: string
+  }
+  grams: number
+  // Nutrients for the requested quantity
+  nutrients: NutrientPanel
+  // Nutrients per 100 g, as reported by FDC
+  per100g: NutrientPanel
+}
+
+// Scale a matched FDC food to the quantity the user asked about
+export function buildLookup(quantity: FoodQuantity, food: FDCSearchFood): NutritionLookup {
+  const grams = toGrams(quantity.quantity, quantity.unit, {
+    gramsPerMl: isVolumeUnit(quantity.unit) ? gramsPerMl(food) ?? undefined : undefined,
+    gramsPerCount: isCountUnit(quantity.unit) ? portionGrams(food, quantity.unit) : undefined,
+  })
+
+  const per100g = normalizeNutrients(food.foodNutrients ?? [])
+
+  return {
+    item: formatQuantity(quantity),
+    quantity,
+    food: {
+      fdcId: food.fdcId,
+      description: food.description,
+      dataType: food.dataType,
+    },
+    grams,
+    nutrients: scalePanel(per100g, grams / 100),
+    per100g,
+  }
+}
+
+// Look up a single food mention ("150 g rice") against FDC or a local dataset
+export async function lookupNutrition(quantity: FoodQuantity, source: FoodSource): Promise<NutritionLookup | null> {
+  const query = [quantity.food, quantity.preparation].filter(Boolean).join(" ")
+  const foods = await source.search(query)
+  const food = pickBestFood(query, foods)
+
+  return food ? buildLookup(quantity, food) : null
+}
+
+// Look up several mentions in parallel; failures and misses are reported instead of thrown
+export async function lookupFoods(
+  items: FoodQuantity[],
+  source: FoodSource,
+): Promise<{ results: NutritionLookup[]; unresolved: UnresolvedFood[] }> {
+  const results: NutritionLookup[] = []
+  const unresolved: UnresolvedFood[] = []
+
+  const lookups = await Promise.allSettled(items.map((item) => lookupNutrition(item, source)))
+
+  lookups.forEach((lookup, index) => {
+    const item = formatQuantity(items[index])
+    if (lookup.status === "rejected") {
+      console.error(`FDC lookup failed for "${item}":`, lookup.reason)
+      unresolved.push({ item, reason: "lookup_failed" })
+    } else if (lookup.value) {
+      results.push(lookup.value)
+    } else {
+      unresolved.push({ item, reason: "not_found" })
+    }
+  })
+
+  return { results, unresolved }
+}
@@ -0,0 +1,218 @@
+import { tokenize, type FDCSearchFood } from "./fdc"
+import type { FoodSource } from "./sources"
+
+const MAX_RESULTS = 25
+
+// Searchable in-memory index over an FDC bulk download (Foundation, SR Legacy, FNDDS)
+export function createLocalIndex(foods: FDCSearchFood[]): FoodSource & { size: number } {
+  const postings = new Map<string, number[]>()
+
+  foods.forEach((food, index) => {
+    for (const token of new Set(tokenize(food.description))) {
+      const list = postings.get(token)
+      if (list) list.push(index)
+      else postings.set(token, [index])
+    }
+  })
+
+  return {
+    size: foods.length,
+
+    async search(query) {
+      const matches = new Map<number, number>()
+      for (const token of new Set(tokenize(query))) {
+        for (const index of postings.get(token) ?? []) {
+          matches.set(index, (matches.get(index) ?? 0) + 1)
+        }
+      }
+
+      return [...matches.entries()]
+        .sort(
+          ([a, aHits], [b, bHits]) =>
+            bHits - aHits || foods[a].description.length - foods[b].description.length,
+        )
+        .slice(0, MAX_RESULTS)
+        .map(([index]) => foods[index])
+    },
+  }
+}
+
+// Shapes of the FDC bulk JSON download ("FoundationFoods" / "SRLegacyFoods" / "SurveyFoods")
+interface BulkFoodNutrient {
+  nutrient?: { id?: number; number?: string; name?: string; unitName?: string }
+  amount?: number
+}
+
+interface BulkFoodPortion {
+  amount?: number
+  gramWeight?: number
+  modifier?: string
+  portionDescription?: string
+  sequenceNumber?: number
+  measureUnit?: { name?: string; abbreviation?: string }
+}
+
+interface BulkFood {
+  fdcId: number
+  description: string
+  dataType?: string
+  foodNutrients?: BulkFoodNutrient[]
+  foodPortions?: BulkFoodPortion[]
+}
+
+function portionText(portion: BulkFoodPortion): string {
+  if (portion.portionDescription && portion.portionDescription !== "Quantity not specified") {
+    return portion.portionDescription
+  }
+  const unit = portion.measureUnit?.name && portion.measureUnit.name !== "undetermined" ? portion.measureUnit.name : ""
+  return [portion.amount ?? 1, unit, portion.modifier].filter(Boolean).join(" ")
+}
+
+function fromBulkFood(food: BulkFood): FDCSearchFood {
+  return {
+    fdcId: food.fdcId,
+    description: food.description,
+    dataType: food.dataType,
+    foodNutrients: (food.foodNutrients ?? []).map((entry) => ({
+      nutrientId: entry.nutrient?.id,
+      nutrientName: entry.nutrient?.name,
+      nutrientNumber: entry.nutrient?.number,
+      unitName: entry.nutrient?.unitName,
+      value: entry.amount,
+    })),
+    foodMeasures: (food.foodPortions ?? []).map((portion, index) => ({
+      disseminationText: portionText(portion),
+      gramWeight: portion.gramWeight,
+      rank: portion.sequenceNumber ?? index + 1,
+    })),
+  }
+}
+
+export function parseBulkJSON(raw: string): FDCSearchFood[] {
+  const data = JSON.parse(raw) as Record<string, unknown>
+  const foods: FDCSearchFood[] = []
+
+  for (const key of ["FoundationFoods", "SRLegacyFoods", "SurveyFoods"]) {
+    if (Array.isArray(data[key])) {
+      foods.push(...(data[key] as BulkFood[]).map(fromBulkFood))
+    }
+  }
+
+  return foods
+}
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+// CSV rows as objects keyed by the header row
+function records(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCSV(text)
+  if (!header) return []
+  return rows
+    .filter((row) => row.length === header.length)
+    .map((row) => Object.fromEntries(header.map((name, index) => [name, row[index]])))
+}
+
+const CSV_DATA_TYPES: Record<string, string> = {
+  foundation_food: "Foundation",
+  sr_legacy_food: "SR Legacy",
+  survey_fndds_food: "Survey (FNDDS)",
+}
+
+export interface BulkCSVFiles {
+  food: string
+  nutrient: string
+  foodNutrient: string
+  foodPortion?: string
+  measureUnit?: string
+}
+
+export function parseBulkCSV(files: BulkCSVFiles): FDCSearchFood[] {
+  const nutrients = new Map(records(files.nutrient).map((row) => [row.id, row]))
+  const measureUnits = new Map(records(files.measureUnit ?? "").map((row) => [row.id, row.name]))
+
+  const foods = new Map<string, FDCSearchFood>()
+  for (const row of records(files.food)) {
+    const dataType = CSV_DATA_TYPES[row.data_type]
+    if (!dataType) continue
+    foods.set(row.fdc_id, {
+      fdcId: Number(row.fdc_id),
+      description: row.description,
+      dataType,
+      foodNutrients: [],
+      foodMeasures: [],
+    })
+  }
+
+  for (const row of records(files.foodNutrient)) {
+    const food = foods.get(row.fdc_id)
+    const nutrient = nutrients.get(row.nutrient_id)
+    if (!food || !nutrient || row.amount === "") continue
+
+    food.foodNutrients!.push({
+      nutrientId: Number(row.nutrient_id),
+      nutrientName: nutrient.name,
+      nutrientNumber: nutrient.nutrient_nbr,
+      unitName: nutrient.unit_name,
+      value: Number(row.amount),
+    })
+  }
+
+  for (const row of records(files.foodPortion ?? "")) {
+    const food = foods.get(row.fdc_id)
+    if (!food) continue
+
+    food.foodMeasures!.push({
+      disseminationText: portionText({
+        amount: row.amount ? Number(row.amount) : undefined,
+        modifier: row.modifier,
+        portionDescription: row.portion_description,
+        measureUnit: { name: measureUnits.get(row.measure_unit_id) },
+      }),
+      gramWeight: Number(row.gram_weight),
+      rank: Number(row.seq_num) || undefined,
+    })
+  }
+
+  return [...foods.values()]
+}
@@ -0,0 +1,50 @@
+import { readFileSync } from "fs"
+import { describe, expect, it, vi } from "vitest"
+
+import { createLocalIndex, lookupFoods, parseBulkJSON, type FoodSource } from "."
+
+const dataset = createLocalIndex(parseBulkJSON(readFileSync(process.env.FDC_DATASET_PATH!, "utf8")))
+
+describe("lookupFoods", () => {
+  it("matches foods in the recorded FDC sample and scales them to the amount asked about", async () => {
+    const { results, unresolved } = await lookupFoods(
+      [
+        { food: "egg", quantity: 2, unit: "piece" },
+        { food: "white rice", quantity: 100, unit: "g", preparation: "cooked" },
+      ],
+      dataset,
+    )
+
+    expect(unresolved).toEqual([])
+    expect(results.map((result) => result.food.description)).toEqual([
+      "Egg, whole, raw, fresh",
+      "Rice, white, long-grain, regular, enriched, cooked",
+    ])
+    expect(results[0].item).toBe("2 egg")
+    expect(results[0].grams).toBeGreaterThan(80)
+    expect(results[1].grams).toBe(100)
+    expect(results[1].nutrients.calories).toBeCloseTo(results[1].per100g.calories!, 5)
+  })
+
+  it("reports misses and failed lookups instead of throwing", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {})
+    const flaky: FoodSource = {
+      search: (query) => (query === "kale" ? Promise.reject(new Error("FDC down")) : dataset.search(query)),
+    }
+
+    const { results, unresolved } = await lookupFoods(
+      [
+        { food: "banana", quantity: 1, unit: "piece" },
+        { food: "dragonfruit", quantity: 1, unit: "serving" },
+        { food: "kale", quantity: 1, unit: "cup" },
+      ],
+      flaky,
+    )
+
+    expect(results.map((result) => result.food.description)).toEqual(["Bananas, raw"])
+    expect(unresolved).toEqual([
+      { item: "dragonfruit", reason: "not_found" },
+      { item: "1 cup kale", reason: "lookup_failed" },
+    ])
+  })
+})
@@ -0,0 +1,107 @@
+// Nutrients we normalize FDC panels into. Values are always in the unit listed here.
+export const NUTRIENT_DEFINITIONS = [
+  { key: "calories", label: "Calories", unit: "kcal", ids: [1008, 2047, 2048] },
+  { key: "protein", label: "Protein", unit: "g", ids: [1003] },
+  { key: "fat", label: "Total Fat", unit: "g", ids: [1004] },
+  { key: "saturatedFat", label: "Saturated Fat", unit: "g", ids: [1258] },
+  { key: "transFat", label: "Trans Fat", unit: "g", ids: [1257] },
+  { key: "cholesterol", label: "Cholesterol", unit: "mg", ids: [1253] },
+  { key: "sodium", label: "Sodium", unit: "mg", ids: [1093] },
+  { key: "carbohydrate", label: "Total Carbohydrate", unit: "g", ids: [1005, 1050] },
+  { key: "fiber", label: "Dietary Fiber", unit: "g", ids: [1079] },
+  { key: "sugars", label: "Total Sugars", unit: "g", ids: [2000, 1063] },
+  { key: "addedSugars", label: "Added Sugars", unit: "g", ids: [1235] },
+  { key: "vitaminA", label: "Vitamin A", unit: "µg", ids: [1106] },
+  { key: "vitaminC", label: "Vitamin C", unit: "mg", ids: [1162] },
+  { key: "vitaminD", label: "Vitamin D", unit: "µg", ids: [1114] },
+  { key: "vitaminE", label: "Vitamin E", unit: "mg", ids: [1109] },
+  { key: "vitaminK", label: "Vitamin K", unit: "µg", ids: [1185] },
+  { key: "vitaminB6", label: "Vitamin B6", unit: "mg", ids: [1175] },
+  { key: "vitaminB12", label: "Vitamin B12", unit: "µg", ids: [1178] },
+  { key: "folate", label: "Folate", unit: "µg", ids: [1190, 1177] },
+  { key: "calcium", label: "Calcium", unit: "mg", ids: [1087] },
+  { key: "iron", label: "Iron", unit: "mg", ids: [1089] },
+  { key: "magnesium", label: "Magnesium", unit: "mg", ids: [1090] },
+  { key: "potassium", label: "Potassium", unit: "mg", ids: [1092] },
+  { key: "zinc", label: "Zinc", unit: "mg", ids: [1095] },
+] as const
+
+export type NutrientKey = (typeof NUTRIENT_DEFINITIONS)[number]["key"]
+
+// Missing keys mean FDC had no value for that nutrient
+export type NutrientPanel = Partial<Record<NutrientKey, number>>
+
+// Nutrient entry as returned by the FDC /foods/search endpoint
+export interface FDCFoodNutrient {
+  nutrientId?: number
+  nutrientName?: string
+  nutrientNumber?: string
+  unitName?: string
+  value?: number
+}
+
+// FDC reports some micronutrients in a different unit than we display
+function convertUnit(value: number, from: string, to: string): number | null {
+  const source = from.toLowerCase()
+  const target = to.toLowerCase()
+  if (source === target) return value
+
+  const toMg: Record<string, number> = { g: 1000, mg: 1, µg: 0.001, ug: 0.001 }
+  if (source in toMg && target in toMg) {
+    return (value * toMg[source]) / toMg[target]
+  }
+  if (source === "kj" && target === "kcal") return value / 4.184
+
+  return null
+}
+
+// Turn a raw FDC nutrient list (per 100 g) into our typed panel
+export function normalizeNutrients(foodNutrients: FDCFoodNutrient[]): NutrientPanel {
+  const panel: NutrientPanel = {}
+
+  for (const definition of NUTRIENT_DEFINITIONS) {
+    // ids are listed in order of preference, so the first id with a value wins
+    for (const id of definition.ids) {
+      const match = foodNutrients.find(
+        (n) => n.nutrientId === id && typeof n.value === "number" && n.unitName,
+      )
+      if (!match) continue
+
+      const value = convertUnit(match.value!, match.unitName!, definition.unit)
+      if (value !== null) {
+        panel[definition.key] = value
+        break
+      }
+    }
+  }
+
+  return panel
+}
+
+export function scalePanel(panel: NutrientPanel, factor: number): NutrientPanel {
+  const scaled: NutrientPanel = {}
+  for (const [key, value] of Object.entries(panel) as [NutrientKey, number][]) {
+    scaled[key] = value * factor
+  }
+  return scaled
+}
+
+export function sumPanels(panels: NutrientPanel[]): NutrientPanel {
+  const total: NutrientPanel = {}
+  for (const panel of panels) {
+    for (const [key, value] of Object.entries(panel) as [NutrientKey, number][]) {
+      total[key] = (total[key] ?? 0) + value
+    }
+  }
+  return total
+}
+
+function round(value: number): number {
+  return value >= 10 ? Math.round(value) : Math.round(value * 10) / 10
+}
+
+export function formatPanel(panel: NutrientPanel): string {
+  return NUTRIENT_DEFINITIONS.filter((definition) => panel[definition.key] !== undefined)
+    .map((definition) => `${definition.label}: ${round(panel[definition.key]!)} ${definition.unit}`)
+    .join(", ")
+}
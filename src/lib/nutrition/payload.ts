@@ -0,0 +1,61 @@
+import { DAILY_VALUES, percentDailyValues } from "./daily-values"
+import { sumPanels, type NutrientKey, type NutrientPanel } from "./nutrients"
+import type { NutritionLookup } from "./index"
+
+// Annotation types are aliases rather than interfaces so they stay assignable to the AI SDK's JSONValue
+export type NutritionPayloadItem = {
+  item: string
+  food: NutritionLookup["food"]
+  grams: number
+  nutrients: NutrientPanel
+}
+
+// A food we extracted but could not ground in FDC data
+export type UnresolvedFood = {
+  item: string
+  reason: "not_found" | "lookup_failed"
+}
+
+// Machine-readable nutrition attached to an assistant message as a stream annotation
+export type NutritionPayload = {
+  type: "nutrition"
+  items: NutritionPayloadItem[]
+  totals: NutrientPanel
+  // Percent Daily Value of the meal totals
+  dailyValues: Partial<Record<NutrientKey, number>>
+  // Daily calories the percentages assume, when they come from the user's targets
+  calorieTarget?: number
+  unresolved: UnresolvedFood[]
+}
+
+// dailyValues lets a user's personal targets replace the FDA reference values
+export function buildNutritionPayload(
+  lookups: NutritionLookup[],
+  unresolved: UnresolvedFood[] = [],
+  dailyValues: Partial<Record<NutrientKey, number>> = DAILY_VALUES,
+): NutritionPayload {
+  const totals = sumPanels(lookups.map((lookup) => lookup.nutrients))
+
+  return {
+    type: "nutrition",
+    items: lookups.map(({ item, food, grams, nutrients }) => ({ item, food, grams, nutrients })),
+    totals,
+    dailyValues: percentDailyValues(totals, dailyValues),
+    ...(dailyValues.calories ? { calorieTarget: dailyValues.calories } : {}),
+    unresolved,
+  }
+}
+
+function isNutritionPayload(value: unknown): value is NutritionPayload {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { type?: unknown }).type === "nutrition" &&
+    Array.isArray((value as { items?: unknown }).items)
+  )
+}
+
+// Find the nutrition payload among a message's annotations
+export function getNutritionPayload(annotations: unknown[] | undefined): NutritionPayload | null {
+  return annotations?.find(isNutritionPayload) ?? null
+}
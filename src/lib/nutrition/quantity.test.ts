@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest"
+
+import { formatQuantity, parseFoodQuantity, splitPreparation } from "./quantity"
+
+describe("parseFoodQuantity", () => {
+  it("reads counts as pieces", () => {
+    expect(parseFoodQuantity("2 eggs")).toEqual({ food: "eggs", quantity: 2, unit: "piece" })
+    expect(parseFoodQuantity("a banana")).toEqual({ food: "banana", quantity: 1, unit: "piece" })
+    expect(parseFoodQuantity("three apples")).toEqual({ food: "apples", quantity: 3, unit: "piece" })
+  })
+
+  it("reads units, including glued and two-word ones", () => {
+    expect(parseFoodQuantity("150g rice")).toEqual({ food: "rice", quantity: 150, unit: "g" })
+    expect(parseFoodQuantity("2 cups of milk")).toEqual({ food: "milk", quantity: 2, unit: "cup" })
+    expect(parseFoodQuantity("1 fl oz cream").unit).toBe("fl oz")
+  })
+
+  it("reads fractions and mixed numbers", () => {
+    expect(parseFoodQuantity("1 1/2 cups oats")).toMatchObject({ quantity: 1.5, unit: "cup" })
+    expect(parseFoodQuantity("½ cup oats")).toMatchObject({ quantity: 0.5, unit: "cup" })
+    expect(parseFoodQuantity("a half cup oats")).toMatchObject({ quantity: 0.5, unit: "cup" })
+  })
+
+  it("splits out the cooking method", () => {
+    expect(parseFoodQuantity("1 1/2 cups of boiled oatmeal")).toEqual({
+      food: "oatmeal",
+      quantity: 1.5,
+      unit: "cup",
+      preparation: "boiled",
+    })
+  })
+
+  it("falls back to one serving without an amount", () => {
+    expect(parseFoodQuantity("oatmeal.")).toEqual({ food: "oatmeal", quantity: 1, unit: "serving" })
+    // A bare unit isn't mistaken for the food
+    expect(parseFoodQuantity("2 cups")).toEqual({ food: "cups", quantity: 2, unit: "piece" })
+  })
+})
+
+describe("splitPreparation", () => {
+  it("keeps the food when every word is a preparation", () => {
+    expect(splitPreparation("grilled chicken")).toEqual({ food: "chicken", preparation: "grilled" })
+    expect(splitPreparation("raw")).toEqual({ food: "raw" })
+  })
+})
+
+describe("formatQuantity", () => {
+  it("labels amounts the way the chat shows them", () => {
+    expect(formatQuantity({ food: "eggs", quantity: 2, unit: "piece" })).toBe("2 eggs")
+    expect(formatQuantity({ food: "oatmeal", quantity: 1, unit: "serving" })).toBe("oatmeal")
+    expect(formatQuantity({ food: "oatmeal", quantity: 1.333, unit: "cup", preparation: "boiled" })).toBe(
+      "1.33 cup oatmeal (boiled)",
+    )
+  })
+})
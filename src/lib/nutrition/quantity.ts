@@ -0,0 +1,159 @@
+import { normalizeUnit, type Unit } from "./units"
+
+export interface FoodQuantity {
+  food: string
+  quantity: number
+  unit: Unit
+  // Cooking method or state mentioned with the food ("boiled", "raw")
+  preparation?: string
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  dozen: 12,
+  half: 0.5,
+  quarter: 0.25,
+}
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "½": 0.5,
+  "⅓": 1 / 3,
+  "⅔": 2 / 3,
+  "¼": 0.25,
+  "¾": 0.75,
+  "⅛": 0.125,
+}
+
+const PREPARATIONS = [
+  "raw",
+  "cooked",
+  "boiled",
+  "steamed",
+  "grilled",
+  "fried",
+  "deep-fried",
+  "pan-fried",
+  "stir-fried",
+  "baked",
+  "roasted",
+  "broiled",
+  "poached",
+  "scrambled",
+  "sauteed",
+  "sautéed",
+  "mashed",
+  "toasted",
+  "smoked",
+  "dried",
+  "canned",
+  "frozen",
+]
+
+function parseAmount(token: string | undefined): number | null {
+  if (!token) return null
+  const lower = token.toLowerCase()
+  if (lower in NUMBER_WORDS) return NUMBER_WORDS[lower]
+
+  // "1½" or "½"
+  const unicode = lower.match(/^(\d*)([½⅓⅔¼¾⅛])$/)
+  if (unicode) return Number(unicode[1] || 0) + UNICODE_FRACTIONS[unicode[2]]
+
+  const fraction = lower.match(/^(\d+)\/(\d+)$/)
+  if (fraction) {
+    const denominator = Number(fraction[2])
+    return denominator ? Number(fraction[1]) / denominator : null
+  }
+
+  const number = Number(lower)
+  return Number.isFinite(number) && number > 0 ? number : null
+}
+
+// Pull cooking methods out of the food name so FDC search sees them separately
+export function splitPreparation(text: string): { food: string; preparation?: string } {
+  const found: string[] = []
+  const food = text
+    .split(/\s+/)
+    .filter((word) => {
+      const cleaned = word.toLowerCase().replace(/[^a-zé-]/g, "")
+      if (PREPARATIONS.includes(cleaned)) {
+        found.push(cleaned)
+        return false
+      }
+      return true
+    })
+    .join(" ")
+    .replace(/^,\s*|\s*,$/g, "")
+    .trim()
+
+  return found.length > 0 && food ? { food, preparation: found.join(" ") } : { food: text.trim() }
+}
+
+// Parse "2 eggs", "150 g rice", "1 1/2 cups of boiled oatmeal" into an amount and the food name
+export function parseFoodQuantity(text: string): FoodQuantity {
+  const trimmed = text.trim().replace(/[.?!]+$/, "")
+  // Split glued amounts like "150g" into "150 g"
+  const tokens = trimmed.replace(/^(\d+(?:\.\d+)?)([a-z]+)\b/i, "$1 $2").split(/\s+/)
+
+  let index = 0
+  let quantity = parseAmount(tokens[index])
+  if (quantity !== null) {
+    index++
+    // Mixed numbers ("1 1/2") and "a half"
+    const next = parseAmount(tokens[index])
+    if (next !== null && next < 1) {
+      quantity = quantity === 1 && /^an?$/i.test(tokens[0]) ? next : quantity + next
+      index++
+    }
+  }
+
+  let unit: Unit | null = null
+  if (quantity !== null) {
+    const twoWordUnit = normalizeUnit(tokens.slice(index, index + 2).join(" "))
+    const oneWordUnit = normalizeUnit(tokens[index])
+    if (twoWordUnit && tokens.length > index + 2) {
+      unit = twoWordUnit
+      index += 2
+    } else if (oneWordUnit && tokens.length > index + 1) {
+      unit = oneWordUnit
+      index++
+    }
+    if (unit && tokens[index]?.toLowerCase() === "of") index++
+  }
+
+  const rest = tokens.slice(index).join(" ")
+  if (quantity === null || !rest) {
+    return { ...splitPreparation(trimmed), quantity: 1, unit: "serving" }
+  }
+
+  return { ...splitPreparation(rest), quantity, unit: unit ?? "piece" }
+}
+
+function roundQuantity(quantity: number): string {
+  return String(Math.round(quantity * 100) / 100)
+}
+
+// Human-readable label, e.g. "2 cup oatmeal (boiled)"
+export function formatQuantity(quantity: FoodQuantity): string {
+  let amount = `${roundQuantity(quantity.quantity)} ${quantity.unit} `
+  if (quantity.unit === "piece") {
+    amount = `${roundQuantity(quantity.quantity)} `
+  } else if (quantity.unit === "serving" && quantity.quantity === 1) {
+    amount = ""
+  }
+  const preparation = quantity.preparation ? ` (${quantity.preparation})` : ""
+
+  return `${amount}${quantity.food}${preparation}`
+}
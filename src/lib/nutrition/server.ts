@@ -0,0 +1,84 @@
+import { promises as fs } from "fs"
+import path from "path"
+
+import { DATA_DIR } from "@/lib/json-file"
+
+import { createMemoryCache, createTieredCache } from "./cache"
+import type { FDCSearchFood } from "./fdc"
+import { createFileCache } from "./file-cache"
+import { createLocalIndex, parseBulkCSV, parseBulkJSON } from "./local-index"
+import { createCachedSource, createFDCApiSource, type FoodSource } from "./sources"
+
+const DEFAULT_CACHE_PATH = path.join(DATA_DIR, "fdc-cache.json")
+// FDC's default per-key limit
+const REQUESTS_PER_HOUR = 1000
+
+// Load either a bulk JSON file or a directory holding the bulk CSV files
+export async function loadFDCDataset(datasetPath: string): Promise<FDCSearchFood[]> {
+  const stats = await fs.stat(datasetPath)
+  if (!stats.isDirectory()) {
+    return parseBulkJSON(await fs.readFile(datasetPath, "utf8"))
+  }
+
+  const read = (name: string) => fs.readFile(path.join(datasetPath, name), "utf8").catch(() => "")
+  const [food, nutrient, foodNutrient, foodPortion, measureUnit] = await Promise.all([
+    read("food.csv"),
+    read("nutrient.csv"),
+    read("food_nutrient.csv"),
+    read("food_portion.csv"),
+    read("measure_unit.csv"),
+  ])
+
+  if (!food || !nutrient || !foodNutrient) {
+    throw new Error(`FDC dataset at ${datasetPath} is missing food.csv, nutrient.csv or food_nutrient.csv`)
+  }
+
+  return parseBulkCSV({ food, nutrient, foodNutrient, foodPortion, measureUnit })
+}
+
+// What getFoodSource is backed by, for health checks
+export type FoodSourceInfo =
+  | { kind: "dataset"; path: string; size: number }
+  | { kind: "api"; requestsPerHour: number; remainingQuota(): number }
+
+let sourceInfo: FoodSourceInfo | null = null
+
+async function createFoodSource(): Promise<FoodSource | null> {
+  const datasetPath = process.env.FDC_DATASET_PATH
+  if (datasetPath) {
+    const index = createLocalIndex(await loadFDCDataset(datasetPath))
+    console.log(`Loaded ${index.size} foods from local FDC dataset ${datasetPath}`)
+    sourceInfo = { kind: "dataset", path: datasetPath, size: index.size }
+    return index
+  }
+
+  const apiKey = process.env.FDC_API_KEY
+  if (!apiKey) return null
+
+  const cache = createTieredCache(
+    createMemoryCache<FDCSearchFood[]>({ maxEntries: 500 }),
+    createFileCache<FDCSearchFood[]>(process.env.FDC_CACHE_PATH || DEFAULT_CACHE_PATH),
+  )
+  const api = createFDCApiSource({ apiKey, requestsPerHour: REQUESTS_PER_HOUR })
+  sourceInfo = { kind: "api", requestsPerHour: REQUESTS_PER_HOUR, remainingQuota: api.remainingQuota }
+  return createCachedSource(api, cache)
+}
+
+let foodSource: Promise<FoodSource | null> | null = null
+
+// FDC_DATASET_PATH selects the offline index; otherwise the live API behind the cache
+export function getFoodSource(): Promise<FoodSource | null> {
+  if (!foodSource) {
+    foodSource = createFoodSource().catch((error) => {
+      foodSource = null
+      throw error
+    })
+  }
+  return foodSource
+}
+
+// Resolves the source first so a broken dataset surfaces as an error here
+export async function getFoodSourceInfo(): Promise<FoodSourceInfo | null> {
+  await getFoodSource()
+  return sourceInfo
+}
@@ -0,0 +1,29 @@
+import { normalizeQuery, type NutritionCache } from "./cache"
+import type { FDCSearchFood } from "./fdc"
+import { createFDCClient, type FDCClient, type FDCClientOptions } from "./fdc-client"
+
+// Anything that can answer an FDC-style food search: the live API, a local dataset, a cache
+export interface FoodSource {
+  search(query: string): Promise<FDCSearchFood[]>
+}
+
+// Live FDC API through the rate-limited, retrying client
+export function createFDCApiSource(options: FDCClientOptions): FoodSource & Pick<FDCClient, "remainingQuota"> {
+  return createFDCClient(options)
+}
+
+// Memoize search results by normalized query in front of another source
+export function createCachedSource(source: FoodSource, cache: NutritionCache<FDCSearchFood[]>): FoodSource {
+  return {
+    async search(query) {
+      const key = normalizeQuery(query)
+      const cached = await cache.get(key)
+      if (cached) return cached
+
+      const foods = await source.search(query)
+      // Empty results are not cached so a transient FDC hiccup doesn't stick
+      if (foods.length > 0) await cache.set(key, foods)
+      return foods
+    },
+  }
+}
@@ -0,0 +1,153 @@
+export type MassUnit = "g" | "kg" | "mg" | "oz" | "lb"
+export type VolumeUnit = "ml" | "l" | "tsp" | "tbsp" | "fl oz" | "cup" | "pint" | "quart" | "gallon"
+// "serving" means no amount was given, so we fall back to the food's default portion
+export type CountUnit = "piece" | "slice" | "serving"
+
+export type Unit = MassUnit | VolumeUnit | CountUnit
+
+export const UNITS: readonly Unit[] = [
+  "g", "kg", "mg", "oz", "lb",
+  "ml", "l", "tsp", "tbsp", "fl oz", "cup", "pint", "quart", "gallon",
+  "piece", "slice", "serving",
+]
+
+const GRAMS_PER_UNIT: Record<MassUnit, number> = {
+  g: 1,
+  kg: 1000,
+  mg: 0.001,
+  oz: 28.3495,
+  lb: 453.592,
+}
+
+// US customary measures
+const ML_PER_UNIT: Record<VolumeUnit, number> = {
+  ml: 1,
+  l: 1000,
+  tsp: 4.92892,
+  tbsp: 14.7868,
+  "fl oz": 29.5735,
+  cup: 236.588,
+  pint: 473.176,
+  quart: 946.353,
+  gallon: 3785.41,
+}
+
+const UNIT_ALIASES: Record<string, Unit> = {
+  g: "g",
+  gr: "g",
+  gram: "g",
+  grams: "g",
+  kg: "kg",
+  kilo: "kg",
+  kilos: "kg",
+  kilogram: "kg",
+  kilograms: "kg",
+  mg: "mg",
+  milligram: "mg",
+  milligrams: "mg",
+  oz: "oz",
+  ounce: "oz",
+  ounces: "oz",
+  lb: "lb",
+  lbs: "lb",
+  pound: "lb",
+  pounds: "lb",
+  ml: "ml",
+  milliliter: "ml",
+  milliliters: "ml",
+  millilitre: "ml",
+  millilitres: "ml",
+  l: "l",
+  liter: "l",
+  liters: "l",
+  litre: "l",
+  litres: "l",
+  tsp: "tsp",
+  teaspoon: "tsp",
+  teaspoons: "tsp",
+  tbsp: "tbsp",
+  tbs: "tbsp",
+  tablespoon: "tbsp",
+  tablespoons: "tbsp",
+  "fl oz": "fl oz",
+  "fluid ounce": "fl oz",
+  "fluid ounces": "fl oz",
+  cup: "cup",
+  cups: "cup",
+  c: "cup",
+  pint: "pint",
+  pints: "pint",
+  pt: "pint",
+  quart: "quart",
+  quarts: "quart",
+  qt: "quart",
+  gallon: "gallon",
+  gallons: "gallon",
+  gal: "gallon",
+  piece: "piece",
+  pieces: "piece",
+  pc: "piece",
+  pcs: "piece",
+  whole: "piece",
+  each: "piece",
+  item: "piece",
+  items: "piece",
+  slice: "slice",
+  slices: "slice",
+  serving: "serving",
+  servings: "serving",
+  portion: "serving",
+  portions: "serving",
+}
+
+// Map free text ("Tablespoons", "fl. oz") to a known unit
+export function normalizeUnit(raw: string | null | undefined): Unit | null {
+  if (!raw) return null
+  const key = raw.toLowerCase().replace(/\./g, "").replace(/\s+/g, " ").trim()
+  return UNIT_ALIASES[key] ?? null
+}
+
+export function isMassUnit(unit: Unit): unit is MassUnit {
+  return unit in GRAMS_PER_UNIT
+}
+
+export function isVolumeUnit(unit: Unit): unit is VolumeUnit {
+  return unit in ML_PER_UNIT
+}
+
+export function isCountUnit(unit: Unit): unit is CountUnit {
+  return !isMassUnit(unit) && !isVolumeUnit(unit)
+}
+
+export function massToGrams(quantity: number, unit: MassUnit): number {
+  return quantity * GRAMS_PER_UNIT[unit]
+}
+
+export function volumeToMilliliters(quantity: number, unit: VolumeUnit): number {
+  return quantity * ML_PER_UNIT[unit]
+}
+
+// Convert between two units of the same kind; returns null across kinds (cups → grams needs a density)
+export function convertUnit(quantity: number, from: Unit, to: Unit): number | null {
+  if (from === to) return quantity
+  if (isMassUnit(from) && isMassUnit(to)) {
+    return (quantity * GRAMS_PER_UNIT[from]) / GRAMS_PER_UNIT[to]
+  }
+  if (isVolumeUnit(from) && isVolumeUnit(to)) {
+    return (quantity * ML_PER_UNIT[from]) / ML_PER_UNIT[to]
+  }
+  return null
+}
+
+export interface GramConversionOptions {
+  // Density for volume units; defaults to water (1 g/ml)
+  gramsPerMl?: number
+  // Weight of one piece, slice or serving
+  gramsPerCount?: number
+}
+
+export function toGrams(quantity: number, unit: Unit, options: GramConversionOptions = {}): number {
+  if (isMassUnit(unit)) return massToGrams(quantity, unit)
+  if (isVolumeUnit(unit)) return volumeToMilliliters(quantity, unit) * (options.gramsPerMl ?? 1)
+  return quantity * (options.gramsPerCount ?? 100)
+}
@@ -0,0 +1,5 @@
+export * from "./prompt"
+export * from "./storage"
+export * from "./targets"
+export * from "./types"
+export * from "./validate"
@@ -0,0 +1,30 @@
+import type { DailyTargets } from "./targets"
+import { LABELS, type DietaryProfile } from "./types"
+
+// Plain-language summary of the profile for the system prompt
+export function describeProfile(profile: DietaryProfile, targets: DailyTargets): string {
+  const lines: string[] = []
+
+  const body = [
+    profile.age && `${profile.age} years old`,
+    profile.sex && LABELS[profile.sex].toLowerCase(),
+    profile.weightKg && `${profile.weightKg} kg`,
+    profile.heightCm && `${profile.heightCm} cm`,
+  ].filter(Boolean)
+  if (body.length > 0) lines.push(`- About: ${body.join(", ")}`)
+
+  if (profile.activityLevel) lines.push(`- Activity level: ${LABELS[profile.activityLevel]}`)
+  if (profile.goals.length > 0) lines.push(`- Goals: ${profile.goals.map((goal) => LABELS[goal]).join(", ")}`)
+  if (profile.dietType) lines.push(`- Diet: ${LABELS[profile.dietType]}`)
+  if (profile.allergies.length > 0) lines.push(`- Allergies (never suggest these): ${profile.allergies.map((allergen) => LABELS[allergen]).join(", ")}`)
+  if (profile.medicalConstraints.length > 0) {
+    lines.push(`- Medical constraints: ${profile.medicalConstraints.map((constraint) => LABELS[constraint]).join(", ")}`)
+  }
+
+  lines.push(
+    `- Daily targets: ${targets.calories} kcal, ${targets.protein} g protein, ${targets.carbohydrate} g carbohydrate, ` +
+      `${targets.fat} g fat, ${targets.fiber} g fiber, at most ${targets.sodium} mg sodium`,
+  )
+
+  return lines.join("\n")
+}
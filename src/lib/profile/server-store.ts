@@ -0,0 +1,46 @@
+import { createJSONFile, userDataPath } from "@/lib/json-file"
+
+import type { DietaryProfile } from "./types"
+import { parseDietaryProfile } from "./validate"
+
+export interface ProfileStore {
+  get(): Promise<DietaryProfile | null>
+  save(profile: DietaryProfile): Promise<DietaryProfile>
+  clear(): Promise<void>
+}
+
+// Server-only profile, one JSON file per user
+export function createFileProfileStore(filePath: string): ProfileStore {
+  const file = createJSONFile<{ profile: DietaryProfile | null }>(filePath, () => ({ profile: null }))
+
+  return {
+    // Parsed on the way out so files written before allergies were a fixed list still load cleanly
+    async get() {
+      return parseDietaryProfile((await file.read()).profile)
+    },
+
+    save(profile) {
+      return file.mutate((stored) => {
+        stored.profile = profile
+        return profile
+      })
+    },
+
+    clear() {
+      return file.mutate((stored) => {
+        stored.profile = null
+      })
+    },
+  }
+}
+
+const serverStores = new Map<string, ProfileStore>()
+
+export function getServerProfileStore(userId: string): ProfileStore {
+  let store = serverStores.get(userId)
+  if (!store) {
+    store = createFileProfileStore(userDataPath(userId, "profile.json"))
+    serverStores.set(userId, store)
+  }
+  return store
+}
@@ -0,0 +1,33 @@
+import { parseDietaryProfile } from "./validate"
+import type { DietaryProfile } from "./types"
+
+const BASE_URL = "/api/profile"
+
+// Browser wrappers around /api/profile; /api/chat reads the saved profile on the server
+export async function loadProfile(): Promise<DietaryProfile | null> {
+  const res = await fetch(BASE_URL)
+  if (!res.ok) throw new Error(`Profile request failed with status ${res.status}`)
+
+  const body = (await res.json()) as { profile: unknown }
+  return body.profile ? parseDietaryProfile(body.profile) : null
+}
+
+export async function saveProfile(profile: DietaryProfile): Promise<DietaryProfile> {
+  const res = await fetch(BASE_URL, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(profile),
+  })
+
+  if (!res.ok) {
+    const body = await res.json().catch(() => null)
+    throw new Error(body?.error || `Saving profile failed with status ${res.status}`)
+  }
+
+  return ((await res.json()) as { profile: DietaryProfile }).profile
+}
+
+export async function clearProfile() {
+  const res = await fetch(BASE_URL, { method: "DELETE" })
+  if (!res.ok) throw new Error(`Clearing profile failed with status ${res.status}`)
+}
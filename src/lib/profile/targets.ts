@@ -0,0 +1,77 @@
+import { DAILY_VALUES, type NutrientKey } from "@/lib/nutrition"
+
+import type { ActivityLevel, DietaryProfile } from "./types"
+
+const ACTIVITY_FACTORS: Record<ActivityLevel, number> = {
+  sedentary: 1.2,
+  light: 1.375,
+  moderate: 1.55,
+  active: 1.725,
+  very_active: 1.9,
+}
+
+export type DailyTargets = Partial<Record<NutrientKey, number>>
+
+// Mifflin-St Jeor resting energy; needs age, sex, weight and height
+function restingCalories({ age, sex, weightKg, heightCm }: DietaryProfile): number | null {
+  if (!age || !sex || !weightKg || !heightCm) return null
+  return 10 * weightKg + 6.25 * heightCm - 5 * age + (sex === "male" ? 5 : -161)
+}
+
+export function estimateCalories(profile: DietaryProfile): number | null {
+  const resting = restingCalories(profile)
+  if (resting === null) return null
+
+  let calories = resting * ACTIVITY_FACTORS[profile.activityLevel ?? "sedentary"]
+  if (profile.goals.includes("lose_weight")) calories -= 500
+  if (profile.goals.includes("gain_weight")) calories += 300
+  if (profile.goals.includes("build_muscle")) calories += 250
+  if (profile.medicalConstraints.includes("pregnancy")) calories += 300
+
+  return Math.round(Math.max(calories, 1200))
+}
+
+// Daily targets for the profile, falling back to the FDA 2,000 kcal Daily Values
+export function computeDailyTargets(profile: DietaryProfile | null): DailyTargets {
+  const targets: DailyTargets = { ...DAILY_VALUES, calories: 2000 }
+  if (!profile) return targets
+
+  const calories = estimateCalories(profile)
+  if (calories !== null) {
+    targets.calories = calories
+    targets.fat = Math.round((calories * 0.3) / 9)
+    targets.saturatedFat = Math.round((calories * 0.1) / 9)
+    targets.carbohydrate = Math.round((calories * 0.55) / 4)
+    targets.addedSugars = Math.round((calories * 0.1) / 4)
+    targets.fiber = Math.round((calories / 1000) * 14)
+  }
+
+  if (profile.weightKg) {
+    const gramsPerKg = profile.goals.includes("build_muscle") ? 1.6 : profile.goals.includes("lose_weight") ? 1.2 : 0.8
+    targets.protein = Math.round(profile.weightKg * gramsPerKg)
+  }
+
+  if (profile.dietType === "keto") {
+    targets.carbohydrate = 25
+    targets.fat = Math.round((targets.calories! * 0.7) / 9)
+  }
+
+  const constraints = profile.medicalConstraints
+  if (constraints.includes("low_sodium") || constraints.includes("kidney_disease")) targets.sodium = 1500
+  if (constraints.includes("low_sugar") || constraints.includes("diabetes")) {
+    targets.addedSugars = Math.round((targets.calories! * 0.05) / 4)
+  }
+  if (constraints.includes("low_fat")) targets.fat = Math.round((targets.calories! * 0.2) / 9)
+  if (constraints.includes("low_cholesterol")) {
+    targets.cholesterol = 200
+    targets.saturatedFat = Math.round((targets.calories! * 0.06) / 9)
+  }
+  if (constraints.includes("high_fiber")) targets.fiber = Math.max(targets.fiber ?? 28, 35)
+  if (constraints.includes("kidney_disease")) targets.potassium = 2000
+  if (constraints.includes("pregnancy")) {
+    targets.folate = 600
+    targets.iron = 27
+  }
+
+  return targets
+}
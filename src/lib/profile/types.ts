@@ -0,0 +1,109 @@
+export const SEXES = ["female", "male"] as const
+export const ACTIVITY_LEVELS = ["sedentary", "light", "moderate", "active", "very_active"] as const
+export const GOALS = ["lose_weight", "maintain_weight", "gain_weight", "build_muscle", "improve_health"] as const
+export const DIET_TYPES = [
+  "omnivore",
+  "vegetarian",
+  "vegan",
+  "pescatarian",
+  "keto",
+  "paleo",
+  "mediterranean",
+  "halal",
+  "kosher",
+  "gluten_free",
+] as const
+export const MEDICAL_CONSTRAINTS = [
+  "low_sodium",
+  "low_sugar",
+  "low_fat",
+  "low_cholesterol",
+  "high_fiber",
+  "diabetes",
+  "kidney_disease",
+  "pregnancy",
+] as const
+// Match the allergy rule ids in @/lib/safety so the safety check covers every option
+export const ALLERGENS = [
+  "peanut",
+  "tree_nuts",
+  "milk",
+  "egg",
+  "fish",
+  "shellfish",
+  "wheat",
+  "soy",
+  "sesame",
+  "gluten",
+  "lactose",
+] as const
+
+export type Sex = (typeof SEXES)[number]
+export type ActivityLevel = (typeof ACTIVITY_LEVELS)[number]
+export type Goal = (typeof GOALS)[number]
+export type DietType = (typeof DIET_TYPES)[number]
+export type MedicalConstraint = (typeof MEDICAL_CONSTRAINTS)[number]
+export type Allergen = (typeof ALLERGENS)[number]
+
+// Everything is optional so a partially filled profile still personalizes what it can
+export interface DietaryProfile {
+  age?: number
+  sex?: Sex
+  weightKg?: number
+  heightCm?: number
+  activityLevel?: ActivityLevel
+  goals: Goal[]
+  allergies: Allergen[]
+  dietType?: DietType
+  medicalConstraints: MedicalConstraint[]
+}
+
+export const EMPTY_PROFILE: DietaryProfile = {
+  goals: [],
+  allergies: [],
+  medicalConstraints: [],
+}
+
+export const LABELS: Record<ActivityLevel | Goal | DietType | MedicalConstraint | Sex | Allergen, string> = {
+  female: "Female",
+  male: "Male",
+  sedentary: "Sedentary (little or no exercise)",
+  light: "Light (1-3 days a week)",
+  moderate: "Moderate (3-5 days a week)",
+  active: "Active (6-7 days a week)",
+  very_active: "Very active (physical job or twice daily)",
+  lose_weight: "Lose weight",
+  maintain_weight: "Maintain weight",
+  gain_weight: "Gain weight",
+  build_muscle: "Build muscle",
+  improve_health: "Improve overall health",
+  omnivore: "No restriction",
+  vegetarian: "Vegetarian",
+  vegan: "Vegan",
+  pescatarian: "Pescatarian",
+  keto: "Keto",
+  paleo: "Paleo",
+  mediterranean: "Mediterranean",
+  halal: "Halal",
+  kosher: "Kosher",
+  gluten_free: "Gluten-free",
+  low_sodium: "Low sodium",
+  low_sugar: "Low sugar",
+  low_fat: "Low fat",
+  low_cholesterol: "Low cholesterol",
+  high_fiber: "High fiber",
+  diabetes: "Diabetes",
+  kidney_disease: "Kidney disease",
+  pregnancy: "Pregnancy",
+  peanut: "Peanuts",
+  tree_nuts: "Tree nuts",
+  milk: "Milk",
+  egg: "Eggs",
+  fish: "Fish",
+  shellfish: "Shellfish",
+  wheat: "Wheat",
+  soy: "Soy",
+  sesame: "Sesame",
+  gluten: "Gluten (celiac disease)",
+  lactose: "Lactose intolerance",
+}
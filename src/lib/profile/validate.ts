@@ -0,0 +1,126 @@
+import {
+  ACTIVITY_LEVELS,
+  ALLERGENS,
+  DIET_TYPES,
+  GOALS,
+  MEDICAL_CONSTRAINTS,
+  SEXES,
+  type Allergen,
+  type DietaryProfile,
+} from "./types"
+
+// Profiles saved before allergies were a fixed list hold free text ("Peanuts", "dairy allergy")
+const ALLERGEN_ALIASES: Record<string, Allergen[]> = {
+  peanuts: ["peanut"],
+  nut: ["peanut", "tree_nuts"],
+  nuts: ["peanut", "tree_nuts"],
+  "tree nut": ["tree_nuts"],
+  "tree nuts": ["tree_nuts"],
+  dairy: ["milk"],
+  eggs: ["egg"],
+  crustacean: ["shellfish"],
+  crustaceans: ["shellfish"],
+  celiac: ["gluten"],
+  coeliac: ["gluten"],
+  soya: ["soy"],
+  soybean: ["soy"],
+  soybeans: ["soy"],
+}
+
+// Anything outside these is almost certainly a typo
+export const PROFILE_RANGES = {
+  age: [2, 120],
+  weightKg: [10, 400],
+  heightCm: [50, 250],
+} as const
+
+export type ProfileParseResult = { ok: true; value: DietaryProfile } | { ok: false; error: string; field: string }
+
+function oneOf<T extends string>(options: readonly T[], value: unknown): T | undefined {
+  return options.includes(value as T) ? (value as T) : undefined
+}
+
+function manyOf<T extends string>(options: readonly T[], value: unknown): T[] {
+  return Array.isArray(value) ? [...new Set(value.filter((entry): entry is T => options.includes(entry as T)))] : []
+}
+
+function numberIn(value: unknown, min: number, max: number): number | undefined {
+  const number = typeof value === "string" && value.trim() ? Number(value) : value
+  return typeof number === "number" && Number.isFinite(number) && number >= min && number <= max ? number : undefined
+}
+
+// Unknown entries are dropped: allergies reach the system prompt, so only known labels may go there
+function parseAllergies(value: unknown): Allergen[] {
+  if (!Array.isArray(value)) return []
+  const allergens = value.flatMap((entry) => {
+    if (typeof entry !== "string") return []
+    const key = entry.toLowerCase().replace(/\s+allergy$/, "").trim()
+    return ALLERGENS.includes(key as Allergen) ? [key as Allergen] : (ALLERGEN_ALIASES[key] ?? [])
+  })
+  return [...new Set(allergens)]
+}
+
+// Coerce stored or already-checked input into a profile, dropping anything invalid. Profiles saved before
+// allergies were a fixed list are normalized here.
+export function parseDietaryProfile(value: unknown): DietaryProfile | null {
+  if (typeof value !== "object" || value === null) return null
+  const input = value as Record<string, unknown>
+
+  return {
+    age: numberIn(input.age, ...PROFILE_RANGES.age),
+    sex: oneOf(SEXES, input.sex),
+    weightKg: numberIn(input.weightKg, ...PROFILE_RANGES.weightKg),
+    heightCm: numberIn(input.heightCm, ...PROFILE_RANGES.heightCm),
+    activityLevel: oneOf(ACTIVITY_LEVELS, input.activityLevel),
+    goals: manyOf(GOALS, input.goals),
+    allergies: parseAllergies(input.allergies),
+    dietType: oneOf(DIET_TYPES, input.dietType),
+    medicalConstraints: manyOf(MEDICAL_CONSTRAINTS, input.medicalConstraints),
+  }
+}
+
+// PUT /api/profile: unlike parseDietaryProfile, an invalid value fails the whole update and names its field,
+// so the settings page can point at it instead of the value quietly disappearing. Missing or null fields are
+// left unset.
+export function parseProfileUpdate(body: unknown): ProfileParseResult {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { ok: false, error: "Body must be a JSON object.", field: "" }
+  }
+  const input = body as Record<string, unknown>
+  const isSet = (field: string) => input[field] !== undefined && input[field] !== null
+
+  for (const [field, [min, max]] of Object.entries(PROFILE_RANGES)) {
+    if (isSet(field) && (typeof input[field] !== "number" || numberIn(input[field], min, max) === undefined)) {
+      return { ok: false, error: `'${field}' must be a number from ${min} to ${max}.`, field }
+    }
+  }
+
+  const choices: [string, readonly string[]][] = [
+    ["sex", SEXES],
+    ["activityLevel", ACTIVITY_LEVELS],
+    ["dietType", DIET_TYPES],
+  ]
+  for (const [field, options] of choices) {
+    if (isSet(field) && !options.includes(input[field] as string)) {
+      return { ok: false, error: `'${field}' must be one of ${options.join(", ")}.`, field }
+    }
+  }
+
+  const lists: [string, readonly string[]][] = [
+    ["goals", GOALS],
+    ["allergies", ALLERGENS],
+    ["medicalConstraints", MEDICAL_CONSTRAINTS],
+  ]
+  for (const [field, options] of lists) {
+    const value = input[field]
+    if (!isSet(field)) continue
+    if (!Array.isArray(value)) return { ok: false, error: `'${field}' must be an array.`, field }
+    const index = value.findIndex((entry) => !options.includes(entry))
+    if (index !== -1) {
+      const entryField = `${field}[${index}]`
+      return { ok: false, error: `'${entryField}' must be one of ${options.join(", ")}.`, field: entryField }
+    }
+  }
+
+  return { ok: true, value: parseDietaryProfile(input)! }
+}
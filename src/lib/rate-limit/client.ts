@@ -0,0 +1,12 @@
+import type { LimitStatus } from "./limiter"
+
+export interface UsageReport {
+  limits: LimitStatus[]
+}
+
+// Browser helper for the usage counter; /api/usage is answered by the middleware
+export async function fetchUsage(): Promise<UsageReport> {
+  const res = await fetch("/api/usage")
+  if (!res.ok) throw new Error(`Usage request failed with status ${res.status}`)
+  return (await res.json()) as UsageReport
+}
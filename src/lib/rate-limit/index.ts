@@ -0,0 +1,25 @@
+import { consumeLimits, limitsForPath, loadRouteLimits, type LimitResult } from "./limiter"
+import { createMemoryRateLimitStore, createRedisRateLimitStore, type RateLimitStore } from "./store"
+
+export * from "./client"
+export * from "./limiter"
+export * from "./store"
+
+let store: RateLimitStore | null = null
+
+// RATE_LIMIT_REDIS_URL and RATE_LIMIT_REDIS_TOKEN switch from per-process memory to a shared Redis REST store
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    const url = process.env.RATE_LIMIT_REDIS_URL
+    const token = process.env.RATE_LIMIT_REDIS_TOKEN
+    store = url && token ? createRedisRateLimitStore({ url, token }) : createMemoryRateLimitStore()
+  }
+  return store
+}
+
+// Email-scoped rules for an auth route, checked by the route itself once it has read the address
+export async function consumeEmailLimits(pathname: string, email: string): Promise<LimitResult> {
+  const route = limitsForPath(pathname, loadRouteLimits())
+  if (!route) return { allowed: true, statuses: [] }
+  return consumeLimits(getRateLimitStore(), route, { email })
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest"
+
+import { clientIp, consumeLimits, loadTrustedProxyCount, peekLimits, type RouteLimits } from "./limiter"
+import { createMemoryRateLimitStore, createRedisRateLimitStore } from "./store"
+
+const MINUTE = 60_000
+const route: RouteLimits = {
+  path: "/api/test",
+  rules: [
+    { name: "ip-minute", scope: "ip", limit: 3, windowMs: MINUTE },
+    { name: "email-hour", scope: "email", limit: 5, windowMs: 60 * MINUTE },
+  ],
+}
+
+describe("consumeLimits", () => {
+  it("lets exactly the limit through when requests arrive together", async () => {
+    const store = createMemoryRateLimitStore()
+    const results = await Promise.all(
+      Array.from({ length: 10 }, () => consumeLimits(store, route, { ip: "203.0.113.7" }, 1_000)),
+    )
+
+    expect(results.filter((result) => result.allowed)).toHaveLength(3)
+    expect(await peekLimits(store, route, { ip: "203.0.113.7" }, 1_000)).toMatchObject([
+      { name: "ip-minute", used: 3, remaining: 0 },
+    ])
+  })
+
+  it("doesn't count rejected requests, so the window still resets on time", async () => {
+    const store = createMemoryRateLimitStore()
+    for (const now of [0, 1_000, 2_000]) await consumeLimits(store, route, { ip: "203.0.113.7" }, now)
+
+    const rejected = await consumeLimits(store, route, { ip: "203.0.113.7" }, 30_000)
+    expect(rejected).toMatchObject({ allowed: false, retryAfter: 30, exceeded: { name: "ip-minute", used: 3 } })
+    expect((await consumeLimits(store, route, { ip: "203.0.113.7" }, MINUTE + 1)).allowed).toBe(true)
+  })
+
+  it("keys email rules by address and skips them when there is none", async () => {
+    const store = createMemoryRateLimitStore()
+    for (let i = 0; i < 5; i++) {
+      await consumeLimits(store, route, { ip: `198.51.100.${i}`, email: "a@example.com" }, 1_000)
+    }
+
+    const fromNewIp = await consumeLimits(store, route, { ip: "198.51.100.99", email: "a@example.com" }, 2_000)
+    expect(fromNewIp).toMatchObject({ allowed: false, exceeded: { name: "email-hour" } })
+    expect((await consumeLimits(store, route, { ip: "198.51.100.99" }, 2_000)).statuses).toHaveLength(1)
+  })
+
+  it("doesn't pool requests without an IP into one bucket", async () => {
+    const store = createMemoryRateLimitStore()
+    const ip = clientIp(new Headers({ "x-forwarded-for": "203.0.113.7" }), 0)
+    for (let i = 0; i < 10; i++) await consumeLimits(store, route, { ip }, 1_000)
+
+    const other = await consumeLimits(store, route, { ip, email: "b@example.com" }, 1_000)
+    expect(other).toMatchObject({ allowed: true, statuses: [{ name: "email-hour", used: 1 }] })
+  })
+})
+
+describe("createRedisRateLimitStore", () => {
+  it("records and counts a hit in one transaction", async () => {
+    const requests: { url: string; body: unknown[][] }[] = []
+    const store = createRedisRateLimitStore({
+      url: "https://redis.example.com/",
+      token: "token",
+      fetch: async (url, init) => {
+        requests.push({ url: String(url), body: JSON.parse(String(init?.body)) })
+        return Response.json([{ result: 0 }, { result: 1 }, { result: 2 }, { result: ["a", "500"] }, { result: 1 }])
+      },
+    })
+
+    const hit = await store.hit("rl:key", MINUTE, 1_000)
+    expect(hit).toMatchObject({ count: 2, oldest: 500, member: expect.stringMatching(/^1000-/) })
+    expect(requests[0].url).toBe("https://redis.example.com/multi-exec")
+    expect(requests[0].body.map((command) => command[0])).toEqual([
+      "ZREMRANGEBYSCORE",
+      "ZADD",
+      "ZCARD",
+      "ZRANGE",
+      "PEXPIRE",
+    ])
+  })
+})
+
+describe("clientIp", () => {
+  const headers = new Headers({ "x-forwarded-for": "6.6.6.6, 203.0.113.7, 10.0.0.2" })
+
+  it("ignores X-Forwarded-For unless proxies are trusted", () => {
+    expect(clientIp(headers, 0)).toBeUndefined()
+    expect(clientIp(headers, 0, "192.0.2.1")).toBe("192.0.2.1")
+  })
+
+  it("takes the entry added by the outermost trusted proxy", () => {
+    expect(clientIp(headers, 1)).toBe("10.0.0.2")
+    expect(clientIp(headers, 2)).toBe("203.0.113.7")
+    expect(clientIp(headers, 5)).toBe("6.6.6.6")
+  })
+
+  it("reads the proxy count from the environment", () => {
+    expect(loadTrustedProxyCount({ TRUSTED_PROXY_COUNT: "2" })).toBe(2)
+    expect(loadTrustedProxyCount({ TRUSTED_PROXY_COUNT: "yes" })).toBe(0)
+    expect(loadTrustedProxyCount({})).toBe(0)
+  })
+})
@@ -0,0 +1,199 @@
+import type { RateLimitStore } from "./store"
+
+// Email-scoped rules are checked by the auth routes once they have read the body; the middleware skips them
+export type LimitScope = "ip" | "user" | "email"
+
+export interface RateLimitRule {
+  // Stable id, also shown to users in the usage counter
+  name: string
+  scope: LimitScope
+  limit: number
+  windowMs: number
+}
+
+export interface RouteLimits {
+  // Matches the path itself and everything below it
+  path: string
+  rules: RateLimitRule[]
+}
+
+export interface LimitStatus {
+  name: string
+  scope: LimitScope
+  limit: number
+  used: number
+  remaining: number
+  // When the oldest counted request leaves the window (ms since epoch), or null if nothing is counted
+  resetAt: number | null
+}
+
+export interface LimitResult {
+  allowed: boolean
+  statuses: LimitStatus[]
+  // Seconds until the request would be allowed, set when it was rejected
+  retryAfter?: number
+  // The rule that rejected the request
+  exceeded?: LimitStatus
+}
+
+export interface Identity {
+  ip?: string
+  userId?: string
+  email?: string
+}
+
+const MINUTE = 60_000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+function envNumber(value: string | undefined, fallback: number) {
+  const number = Number(value)
+  return value && Number.isFinite(number) && number > 0 ? number : fallback
+}
+
+// Limits per route. Chat requests cost two OpenAI completions plus FDC lookups each, so they get both
+// short-term throttles and a daily per-user quota.
+export function loadRouteLimits(env: Record<string, string | undefined> = process.env): RouteLimits[] {
+  return [
+    {
+      path: "/api/chat",
+      rules: [
+        { name: "ip-minute", scope: "ip", limit: envNumber(env.RATE_LIMIT_IP_PER_MINUTE, 20), windowMs: MINUTE },
+        { name: "user-minute", scope: "user", limit: envNumber(env.RATE_LIMIT_USER_PER_MINUTE, 10), windowMs: MINUTE },
+        { name: "user-daily", scope: "user", limit: envNumber(env.CHAT_DAILY_QUOTA, 200), windowMs: DAY },
+      ],
+    },
+    // Each analysis runs one FDC search per ingredient
+    { path: "/api/recipes", rules: [{ name: "user-minute", scope: "user", limit: 10, windowMs: MINUTE }] },
+    // A plan takes up to three completions and FDC lookups for every meal
+    {
+      path: "/api/meal-plans/generate",
+      rules: [
+        { name: "user-minute", scope: "user", limit: 3, windowMs: MINUTE },
+        { name: "user-daily", scope: "user", limit: 30, windowMs: DAY },
+      ],
+    },
+    // Slows down password guessing and sign-in link spam, including guesses against one account from many IPs
+    {
+      path: "/api/auth/login",
+      rules: [
+        { name: "ip-minute", scope: "ip", limit: 10, windowMs: MINUTE },
+        { name: "email-hour", scope: "email", limit: 20, windowMs: HOUR },
+      ],
+    },
+    {
+      path: "/api/auth/magic-link",
+      rules: [
+        { name: "ip-minute", scope: "ip", limit: 5, windowMs: MINUTE },
+        { name: "email-hour", scope: "email", limit: 5, windowMs: HOUR },
+      ],
+    },
+  ]
+}
+
+export function limitsForPath(pathname: string, routes: RouteLimits[]) {
+  return routes.find((route) => pathname === route.path || pathname.startsWith(`${route.path}/`)) ?? null
+}
+
+function keyFor(route: RouteLimits, rule: RateLimitRule, identity: Identity) {
+  const id = { ip: identity.ip, user: identity.userId, email: identity.email }[rule.scope]
+  return id ? `rl:${route.path}:${rule.name}:${id}` : null
+}
+
+// Rules whose scope the identity doesn't have (user rules for anonymous requests) are skipped
+function keyedRules(route: RouteLimits, identity: Identity) {
+  return route.rules.flatMap((rule) => {
+    const key = keyFor(route, rule, identity)
+    return key ? [{ rule, key }] : []
+  })
+}
+
+function toStatus(rule: RateLimitRule, used: number, oldest: number | null): LimitStatus {
+  return {
+    name: rule.name,
+    scope: rule.scope,
+    limit: rule.limit,
+    used,
+    remaining: Math.max(rule.limit - used, 0),
+    resetAt: oldest === null ? null : oldest + rule.windowMs,
+  }
+}
+
+// Current usage without counting a request
+export async function peekLimits(store: RateLimitStore, route: RouteLimits, identity: Identity, now = Date.now()) {
+  return Promise.all(
+    keyedRules(route, identity).map(async ({ rule, key }) => {
+      const { count, oldest } = await store.count(key, rule.windowMs, now)
+      return toStatus(rule, count, oldest)
+    }),
+  )
+}
+
+// Counts the request against every rule first and decides on the counts that come back. A rejected
+// request is taken back out of every rule, so retrying while limited doesn't push the reset further away.
+export async function consumeLimits(
+  store: RateLimitStore,
+  route: RouteLimits,
+  identity: Identity,
+  now = Date.now(),
+): Promise<LimitResult> {
+  const entries = await Promise.all(
+    keyedRules(route, identity).map(async ({ rule, key }) => ({
+      rule,
+      key,
+      hit: await store.hit(key, rule.windowMs, now),
+    })),
+  )
+
+  const exceeded = entries.find(({ rule, hit }) => hit.count > rule.limit)
+  if (!exceeded) {
+    return { allowed: true, statuses: entries.map(({ rule, hit }) => toStatus(rule, hit.count, hit.oldest)) }
+  }
+
+  await Promise.all(entries.map(({ key, hit }) => store.remove(key, hit.member)))
+  const statuses = entries.map(({ rule, hit }) => toStatus(rule, hit.count - 1, hit.oldest))
+  const resetAt = (exceeded.hit.oldest ?? now) + exceeded.rule.windowMs
+  return {
+    allowed: false,
+    statuses,
+    retryAfter: Math.max(Math.ceil((resetAt - now) / 1000), 1),
+    exceeded: statuses[entries.indexOf(exceeded)],
+  }
+}
+
+// Number of reverse proxies in front of the app that append to X-Forwarded-For. Zero means the header
+// is client-controlled and never trusted.
+export function loadTrustedProxyCount(env: Record<string, string | undefined> = process.env) {
+  const count = Number(env.TRUSTED_PROXY_COUNT)
+  return Number.isInteger(count) && count > 0 ? count : 0
+}
+
+// Each trusted proxy appends the address it received the request from, so the client is the entry added by
+// the outermost one; anything to its left was sent by the client and can be forged.
+// Undefined when there's no trustworthy address, so ip-scoped rules are skipped instead of every such
+// client sharing one bucket; user and email rules still apply.
+export function clientIp(headers: Headers, trustedProxies: number, platformIp?: string): string | undefined {
+  if (trustedProxies > 0) {
+    const forwarded = (headers.get("x-forwarded-for") ?? "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+    const client = forwarded[Math.max(forwarded.length - trustedProxies, 0)]
+    if (client) return client
+  }
+  return platformIp || undefined
+}
+
+// Standard X-RateLimit-* headers describing the rule closest to running out
+export function rateLimitHeaders(statuses: LimitStatus[], now = Date.now()) {
+  const headers = new Headers()
+  const tightest = [...statuses].sort((a, b) => a.remaining - b.remaining)[0]
+  if (!tightest) return headers
+
+  headers.set("X-RateLimit-Limit", String(tightest.limit))
+  headers.set("X-RateLimit-Remaining", String(tightest.remaining))
+  if (tightest.resetAt !== null) {
+    headers.set("X-RateLimit-Reset", String(Math.max(Math.ceil((tightest.resetAt - now) / 1000), 0)))
+  }
+  return headers
+}
@@ -0,0 +1,127 @@
+// Sliding-window-log storage for the rate limiter. Implementations must be edge-safe because
+// the limiter runs in middleware.
+
+export interface WindowState {
+  // Hits inside the window
+  count: number
+  // Timestamp (ms) of the oldest hit still inside the window, or null when empty
+  oldest: number | null
+}
+
+export interface Hit extends WindowState {
+  // Identifies the recorded hit so a rejected request can be taken back out
+  member: string
+}
+
+export interface RateLimitStore {
+  count(key: string, windowMs: number, now: number): Promise<WindowState>
+  // Records a hit and returns the window including it in one atomic step, so concurrent requests can't
+  // all see room under the limit before any of them is counted
+  hit(key: string, windowMs: number, now: number): Promise<Hit>
+  remove(key: string, member: string): Promise<void>
+}
+
+// Sweep idle keys once the map grows past this many entries
+const SWEEP_THRESHOLD = 10_000
+
+// Per-process store; limits reset on restart and aren't shared between instances.
+// Each method updates the map synchronously, which is what keeps hit() atomic.
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const hits = new Map<string, { time: number; member: string }[]>()
+  let longestWindow = 0
+  let sequence = 0
+
+  const prune = (key: string, windowMs: number, now: number) => {
+    const live = (hits.get(key) ?? []).filter((entry) => entry.time > now - windowMs)
+    if (live.length > 0) hits.set(key, live)
+    else hits.delete(key)
+    return live
+  }
+
+  const sweep = (now: number) => {
+    for (const [key, entries] of hits) {
+      if (entries[entries.length - 1].time <= now - longestWindow) hits.delete(key)
+    }
+  }
+
+  return {
+    async count(key, windowMs, now) {
+      const live = prune(key, windowMs, now)
+      return { count: live.length, oldest: live[0]?.time ?? null }
+    },
+
+    async hit(key, windowMs, now) {
+      longestWindow = Math.max(longestWindow, windowMs)
+      const member = String(++sequence)
+      const live = [...prune(key, windowMs, now), { time: now, member }]
+      hits.set(key, live)
+      if (hits.size > SWEEP_THRESHOLD) sweep(now)
+      return { count: live.length, oldest: live[0].time, member }
+    },
+
+    async remove(key, member) {
+      const remaining = (hits.get(key) ?? []).filter((entry) => entry.member !== member)
+      if (remaining.length > 0) hits.set(key, remaining)
+      else hits.delete(key)
+    },
+  }
+}
+
+interface RedisRestOptions {
+  // Upstash-compatible REST endpoint and token
+  url: string
+  token: string
+  fetch?: typeof fetch
+}
+
+// Persistent store on a Redis REST API (e.g. Upstash), one sorted set of hit timestamps per key.
+// Survives restarts and is shared by every instance of the app.
+export function createRedisRateLimitStore({ url, token, fetch: fetchImpl = fetch }: RedisRestOptions): RateLimitStore {
+  // "pipeline" sends commands in one round trip; "multi-exec" also runs them as one transaction
+  const send = async (endpoint: "pipeline" | "multi-exec", commands: (string | number)[][]) => {
+    const res = await fetchImpl(`${url.replace(/\/$/, "")}/${endpoint}`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+      body: JSON.stringify(commands),
+    })
+    if (!res.ok) throw new Error(`Rate limit store request failed with status ${res.status}`)
+
+    const results = (await res.json()) as { result?: unknown; error?: string }[]
+    const failed = results.find((entry) => entry.error)
+    if (failed) throw new Error(`Rate limit store error: ${failed.error}`)
+    return results.map((entry) => entry.result)
+  }
+
+  const windowState = (count: unknown, oldest: unknown): WindowState => {
+    const scores = oldest as string[]
+    return { count: Number(count), oldest: scores.length > 1 ? Number(scores[1]) : null }
+  }
+
+  return {
+    async count(key, windowMs, now) {
+      const [, count, oldest] = await send("pipeline", [
+        ["ZREMRANGEBYSCORE", key, 0, now - windowMs],
+        ["ZCARD", key],
+        ["ZRANGE", key, 0, 0, "WITHSCORES"],
+      ])
+      return windowState(count, oldest)
+    },
+
+    async hit(key, windowMs, now) {
+      // Random suffix keeps simultaneous hits from collapsing into one member
+      const member = `${now}-${Math.random().toString(36).slice(2, 10)}`
+      const [, , count, oldest] = await send("multi-exec", [
+        ["ZREMRANGEBYSCORE", key, 0, now - windowMs],
+        ["ZADD", key, now, member],
+        ["ZCARD", key],
+        ["ZRANGE", key, 0, 0, "WITHSCORES"],
+        ["PEXPIRE", key, windowMs],
+      ])
+      return { ...windowState(count, oldest), member }
+    },
+
+    async remove(key, member) {
+      await send("pipeline", [["ZREM", key, member]])
+    },
+  }
+}
@@ -0,0 +1,76 @@
+import {
+  buildLookup,
+  percentDailyValues,
+  pickBestFood,
+  scalePanel,
+  sumPanels,
+  type FoodSource,
+  type NutrientKey,
+} from "@/lib/nutrition"
+
+import type { FoodCandidate, IngredientAnalysis, Recipe, RecipeAnalysis, RecipeIngredient, RecipeNutrition } from "./types"
+
+// Enough alternatives to fix a bad match without flooding the picker
+const MAX_CANDIDATES = 8
+
+export function ingredientQuery(ingredient: RecipeIngredient) {
+  return ingredient.query ?? [ingredient.quantity.food, ingredient.quantity.preparation].filter(Boolean).join(" ")
+}
+
+// A chosen candidate wins over the automatic pick as long as the search still returns it
+async function analyzeIngredient(ingredient: RecipeIngredient, source: FoodSource): Promise<IngredientAnalysis> {
+  const query = ingredientQuery(ingredient)
+  const foods = (await source.search(query)).filter((food) => food.foodNutrients?.length)
+  const chosen = foods.find((food) => food.fdcId === ingredient.fdcId) ?? pickBestFood(query, foods)
+
+  const candidates: FoodCandidate[] = foods.slice(0, MAX_CANDIDATES).map((food) => ({
+    fdcId: food.fdcId,
+    description: food.description,
+    dataType: food.dataType,
+  }))
+  if (chosen && !candidates.some((candidate) => candidate.fdcId === chosen.fdcId)) {
+    candidates.unshift({ fdcId: chosen.fdcId, description: chosen.description, dataType: chosen.dataType })
+  }
+
+  return {
+    ingredient,
+    query,
+    status: chosen ? "matched" : "not_found",
+    match: chosen ? buildLookup(ingredient.quantity, chosen) : null,
+    candidates,
+  }
+}
+
+// Totals over the matched ingredients, split into servings. Pure, so the UI can rerun it when only servings change.
+export function summarizeRecipe(
+  ingredients: IngredientAnalysis[],
+  servings: number,
+  dailyValues?: Partial<Record<NutrientKey, number>>,
+): RecipeNutrition {
+  const totals = sumPanels(ingredients.flatMap((entry) => (entry.match ? [entry.match.nutrients] : [])))
+  const perServing = scalePanel(totals, 1 / Math.max(servings, 1))
+  return {
+    totals,
+    perServing,
+    dailyValues: percentDailyValues(perServing, dailyValues),
+    ...(dailyValues?.calories ? { calorieTarget: dailyValues.calories } : {}),
+  }
+}
+
+// Looks every ingredient up in parallel; a failed lookup leaves that ingredient out instead of failing the recipe
+export async function analyzeRecipe(
+  recipe: Recipe,
+  source: FoodSource,
+  dailyValues?: Partial<Record<NutrientKey, number>>,
+): Promise<RecipeAnalysis> {
+  const settled = await Promise.allSettled(recipe.ingredients.map((ingredient) => analyzeIngredient(ingredient, source)))
+
+  const ingredients = settled.map((result, index): IngredientAnalysis => {
+    if (result.status === "fulfilled") return result.value
+    const ingredient = recipe.ingredients[index]
+    console.error(`FDC lookup failed for "${ingredient.line}":`, result.reason)
+    return { ingredient, query: ingredientQuery(ingredient), status: "lookup_failed", match: null, candidates: [] }
+  })
+
+  return { recipe, ingredients, ...summarizeRecipe(ingredients, recipe.servings, dailyValues) }
+}
@@ -0,0 +1,30 @@
+import type { Recipe, RecipeAnalysis } from "./types"
+
+const BASE_URL = "/api/recipes/analyze"
+
+// sessionStorage key the chat uses to hand a pasted recipe to the analyzer
+export const RECIPE_DRAFT_KEY = "nic:recipe-draft"
+
+// Failed requests throw the API's JSON body as the message, like useChat, so presentError can read it
+async function analyze(body: { text: string } | { recipe: Recipe }) {
+  const res = await fetch(BASE_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  })
+
+  if (!res.ok) throw new Error(await res.text())
+  return (await res.json()) as RecipeAnalysis
+}
+
+// Browser wrapper around /api/recipes/analyze
+export const recipeClient = {
+  analyzeText(text: string) {
+    return analyze({ text })
+  },
+
+  // Re-analyze after the user corrected servings, search terms or FDC matches
+  analyzeRecipe(recipe: Recipe) {
+    return analyze({ recipe })
+  },
+}
@@ -0,0 +1,5 @@
+export * from "./analyze"
+export * from "./client"
+export * from "./parse"
+export * from "./types"
+export * from "./validate"
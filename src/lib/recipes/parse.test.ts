@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest"
+
+import { extractIngredientLines, parseRecipe } from "./parse"
+
+describe("parseRecipe", () => {
+  const recipe = [
+    "# Roast chicken and potatoes",
+    "Serves 4",
+    "Ingredients:",
+    "- 1 (14 oz) can chickpeas, drained",
+    "- 2 large chicken breasts",
+    "- 500 g boiled potatoes, halved",
+    "- pinch of salt",
+    "- black pepper to taste",
+    "Method:",
+    "1. Heat the oven and roast everything for 40 minutes.",
+    "2. Serve hot.",
+  ].join("\n")
+
+  it("reads the title, servings, method and ingredients", () => {
+    const parsed = parseRecipe(recipe)
+
+    expect(parsed).toMatchObject({ title: "Roast chicken and potatoes", servings: 4, method: "roasted" })
+    expect(parsed.ingredients.map((ingredient) => ingredient.quantity)).toEqual([
+      { food: "chickpeas", quantity: 14, unit: "oz", preparation: "roasted" },
+      { food: "chicken breasts", quantity: 2, unit: "piece", preparation: "roasted" },
+      { food: "potatoes", quantity: 500, unit: "g", preparation: "boiled" },
+      { food: "salt", quantity: 0.3, unit: "g", preparation: "roasted" },
+    ])
+    expect(parsed.skipped).toEqual(["black pepper to taste"])
+  })
+
+  it("falls back to lines that start with an amount when there's no ingredients heading", () => {
+    const parsed = parseRecipe("2 eggs\n1 cup milk\nWhisk and pour into a hot pan.")
+
+    expect(parsed).toMatchObject({ title: undefined, servings: 1, method: undefined, skipped: [] })
+    expect(parsed.ingredients.map((ingredient) => ingredient.line)).toEqual(["2 eggs", "1 cup milk"])
+    expect(parsed.ingredients.every((ingredient) => ingredient.quantity.preparation === undefined)).toBe(true)
+  })
+})
+
+describe("extractIngredientLines", () => {
+  it("takes list items that start with an amount and skips steps, prose and seasoning", () => {
+    const answer = [
+      "Here's an easy overnight oats recipe:",
+      "",
+      "- 1/2 cup **rolled oats**",
+      "* 1 cup `milk`",
+      "- Salt to taste",
+      "1. Stir everything together.",
+      "2. 1 tbsp honey",
+      "Enjoy 2 servings!",
+    ].join("\n")
+
+    expect(extractIngredientLines(answer).map((ingredient) => [ingredient.line, ingredient.quantity])).toEqual([
+      ["1/2 cup rolled oats", { food: "rolled oats", quantity: 0.5, unit: "cup" }],
+      ["1 cup milk", { food: "milk", quantity: 1, unit: "cup" }],
+      ["1 tbsp honey", { food: "honey", quantity: 1, unit: "tbsp" }],
+    ])
+  })
+})
@@ -0,0 +1,156 @@
+import { parseFoodQuantity, splitPreparation } from "@/lib/nutrition"
+
+import type { Recipe, RecipeIngredient } from "./types"
+
+const INGREDIENTS_HEADER = /^ingredients?\s*:?$/i
+const STEPS_HEADER = /^(?:instructions?|directions?|method|steps?|preparation|how to make it)\s*:?$/i
+const SERVINGS = /\b(?:serves|servings?|yields?|makes)\s*:?\s*(?:about\s+)?(\d+)|(\d+)\s+(?:servings?|portions?|people)\b/i
+const BULLET = /^(?:[-*•▢□◦]\s*|\d+[.)]\s+(?=\D))/
+// Starts with an amount: "2", "1/2", "½", "1½", "a", "one"
+const AMOUNT_START =
+  /^(?:\d|[½⅓⅔¼¾⅛]|(?:a|an|one|two|three|four|five|six|seven|eight|nine|ten|twelve|half|dozen)\b)/i
+// Seasoning-level amounts that would otherwise be counted as a full serving
+const NEGLIGIBLE = /\b(?:to taste|as needed|for (?:garnish|serving|dusting|greasing)|optional)\b/i
+const PINCH = /^(\d+\s+)?(?:pinch|dash|sprinkle)(?:es)?\s+(?:of\s+)?/i
+const PINCH_GRAMS = 0.3
+// "1 (14 oz) can tomatoes" → "14 oz tomatoes"
+const PACKAGED =
+  /^(\d+(?:\.\d+)?)?\s*\((\d+(?:\.\d+)?)[\s-]*(oz|ounces?|g|grams?|ml|lbs?|pounds?|fl oz)\.?\)\s*(?:cans?|packages?|pkgs?\.?|jars?|bags?|boxes?|bottles?|containers?|cartons?|tins?)?\s+(.+)$/i
+
+// Verbs in the instructions mapped to the preparation FDC uses
+const METHODS: [RegExp, string][] = [
+  [/\bbak(?:e|ed|ing)\b/i, "baked"],
+  [/\broast(?:ed|ing)?\b/i, "roasted"],
+  [/\bgrill(?:ed|ing)?\b/i, "grilled"],
+  [/\bdeep[- ]fr(?:y|ied|ying)\b/i, "deep-fried"],
+  [/\bfr(?:y|ied|ying)\b/i, "fried"],
+  [/\bsaut[eé](?:ed|ing)?\b/i, "sauteed"],
+  [/\bbroil(?:ed|ing)?\b/i, "broiled"],
+  [/\bpoach(?:ed|ing)?\b/i, "poached"],
+  [/\bsteam(?:ed|ing)?\b/i, "steamed"],
+  [/\b(?:boil(?:ed|ing)?|simmer(?:ed|ing)?)\b/i, "boiled"],
+]
+
+export const MAX_RECIPE_INGREDIENTS = 60
+
+// Heuristic used by the chat to offer the recipe analyzer for pasted recipes
+export function looksLikeRecipe(text: string) {
+  const lines = text.split("\n").map((line) => line.trim().replace(BULLET, ""))
+  const amounts = lines.filter((line) => AMOUNT_START.test(line)).length
+  return amounts >= 3 && (lines.some((line) => INGREDIENTS_HEADER.test(line)) || amounts >= 5)
+}
+
+function findMethod(steps: string[]) {
+  const text = steps.join(" ")
+  let best: { method: string; index: number } | null = null
+  for (const [pattern, method] of METHODS) {
+    const index = text.search(pattern)
+    if (index !== -1 && (!best || index < best.index)) best = { method, index }
+  }
+  return best?.method
+}
+
+// Turns one ingredient line into a quantity, keeping cooking terms and dropping notes like "finely chopped"
+export function parseIngredientLine(raw: string): RecipeIngredient | null {
+  const line = raw.replace(BULLET, "").trim()
+  if (!line) return null
+
+  const [main, ...notes] = line.split(",")
+  let text = main.replace(/\s+/g, " ").trim()
+
+  const packaged = text.match(PACKAGED)
+  if (packaged) {
+    const count = Number(packaged[1] ?? 1)
+    text = `${count * Number(packaged[2])} ${packaged[3]} ${packaged[4]}`
+  }
+
+  const pinch = text.match(PINCH)
+  if (pinch) text = `${Number(pinch[1] ?? 1) * PINCH_GRAMS} g ${text.slice(pinch[0].length)}`
+
+  // Size words and remaining parentheticals don't help the FDC search
+  text = text
+    .replace(/\([^)]*\)/g, " ")
+    .replace(/\b(?:large|medium|small|heaping|level|packed|fresh)\b/gi, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+
+  const quantity = parseFoodQuantity(text)
+  const notePreparation = splitPreparation(notes.join(" ")).preparation
+  if (!quantity.preparation && notePreparation) quantity.preparation = notePreparation
+  if (!/[a-z]/i.test(quantity.food)) return null
+
+  return { line, quantity }
+}
+
+const LIST_ITEM = /^(?:[-*+•]|\d+[.)])\s+/
+
+// Ingredient-like list items in free text such as an assistant's answer ("- 2 cups **rolled oats**"), for the
+// grocery list. Steps and prose are skipped because they don't start with an amount.
+export function extractIngredientLines(text: string): RecipeIngredient[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => LIST_ITEM.test(line))
+    .map((line) => line.replace(LIST_ITEM, "").replace(/\*\*|__|`/g, "").trim())
+    .filter((line) => AMOUNT_START.test(line) && !NEGLIGIBLE.test(line))
+    .flatMap((line) => parseIngredientLine(line) ?? [])
+    .slice(0, MAX_RECIPE_INGREDIENTS)
+}
+
+// Splits a pasted recipe into title, servings, ingredients and method. Recipes with an "Ingredients"
+// heading use the lines under it; otherwise any line that starts with an amount counts.
+export function parseRecipe(text: string): Recipe {
+  const lines = text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+
+  const servingsMatch = text.match(SERVINGS)
+  const servings = Number(servingsMatch?.[1] ?? servingsMatch?.[2] ?? 1)
+
+  const ingredientsStart = lines.findIndex((line) => INGREDIENTS_HEADER.test(line))
+  const stepsStart = lines.findIndex((line) => STEPS_HEADER.test(line))
+  const steps = stepsStart === -1 ? [] : lines.slice(stepsStart + 1)
+
+  let candidates: string[]
+  if (ingredientsStart !== -1) {
+    const end = stepsStart > ingredientsStart ? stepsStart : lines.length
+    candidates = lines.slice(ingredientsStart + 1, end).filter((line) => !SERVINGS.test(line))
+  } else {
+    const end = stepsStart === -1 ? lines.length : stepsStart
+    candidates = lines.slice(0, end).filter((line) => AMOUNT_START.test(line.replace(BULLET, "")))
+  }
+
+  const ingredients: RecipeIngredient[] = []
+  const skipped: string[] = []
+  for (const line of candidates) {
+    const ingredient = NEGLIGIBLE.test(line) ? null : parseIngredientLine(line)
+    if (ingredient && ingredients.length < MAX_RECIPE_INGREDIENTS) ingredients.push(ingredient)
+    else skipped.push(line.replace(BULLET, ""))
+  }
+
+  // A first line that isn't an ingredient or a heading is usually the title
+  const first = lines[0]
+  const title =
+    first &&
+    !INGREDIENTS_HEADER.test(first) &&
+    !STEPS_HEADER.test(first) &&
+    !AMOUNT_START.test(first.replace(BULLET, "")) &&
+    !candidates.includes(first)
+      ? first.replace(/^#+\s*/, "").slice(0, 120)
+      : undefined
+
+  // Ingredients without a preparation of their own are searched as cooked the recipe's way
+  const method = findMethod(steps.length > 0 ? steps : lines)
+  if (method) {
+    for (const ingredient of ingredients) ingredient.quantity.preparation ??= method
+  }
+
+  return {
+    title,
+    servings: Number.isFinite(servings) && servings > 0 ? Math.min(servings, 100) : 1,
+    method,
+    ingredients,
+    skipped,
+  }
+}
@@ -0,0 +1,52 @@
+import type { FoodQuantity, NutrientKey, NutrientPanel, NutritionLookup } from "@/lib/nutrition"
+
+export interface RecipeIngredient {
+  // The line as written, e.g. "2 cups all-purpose flour, sifted"
+  line: string
+  quantity: FoodQuantity
+  // Corrections from the UI: a different FDC search term, and/or one of the candidates to use
+  query?: string
+  fdcId?: number
+}
+
+export interface Recipe {
+  title?: string
+  servings: number
+  // Main cooking method found in the instructions, e.g. "baked"
+  method?: string
+  ingredients: RecipeIngredient[]
+  // Lines left out of the totals, such as "salt to taste"
+  skipped: string[]
+}
+
+export interface FoodCandidate {
+  fdcId: number
+  description: string
+  dataType?: string
+}
+
+export type IngredientStatus = "matched" | "not_found" | "lookup_failed"
+
+export interface IngredientAnalysis {
+  ingredient: RecipeIngredient
+  // The search term actually sent to FDC
+  query: string
+  status: IngredientStatus
+  match: NutritionLookup | null
+  // Other foods the search returned, for correcting the match
+  candidates: FoodCandidate[]
+}
+
+export interface RecipeNutrition {
+  totals: NutrientPanel
+  perServing: NutrientPanel
+  // Percent of the daily targets per serving
+  dailyValues: Partial<Record<NutrientKey, number>>
+  // Daily calories the percentages assume, when they come from the user's targets
+  calorieTarget?: number
+}
+
+export interface RecipeAnalysis extends RecipeNutrition {
+  recipe: Recipe
+  ingredients: IngredientAnalysis[]
+}
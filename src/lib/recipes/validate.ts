@@ -0,0 +1,105 @@
+import { UNITS, type FoodQuantity, type Unit } from "@/lib/nutrition"
+
+import { MAX_RECIPE_INGREDIENTS, parseRecipe } from "./parse"
+import type { Recipe, RecipeIngredient } from "./types"
+
+export const MAX_RECIPE_CHARS = 10000
+const MAX_SERVINGS = 100
+const MAX_QUERY_CHARS = 100
+
+// Same shape as the chat's: field names the offending value for precise 400s
+export type RecipeParseResult = { ok: true; value: Recipe } | { ok: false; error: string; field: string }
+
+function isText(value: unknown, max: number): value is string {
+  return typeof value === "string" && value.trim().length > 0 && value.length <= max
+}
+
+function parseQuantity(value: unknown): FoodQuantity | null {
+  if (typeof value !== "object" || value === null) return null
+  const input = value as Record<string, unknown>
+
+  if (!isText(input.food, MAX_QUERY_CHARS)) return null
+  if (typeof input.quantity !== "number" || !Number.isFinite(input.quantity) || input.quantity <= 0) return null
+  if (!UNITS.includes(input.unit as Unit)) return null
+
+  return {
+    food: input.food.trim(),
+    quantity: input.quantity,
+    unit: input.unit as Unit,
+    ...(isText(input.preparation, MAX_QUERY_CHARS) ? { preparation: input.preparation.trim() } : {}),
+  }
+}
+
+function parseIngredient(value: unknown, field: string): RecipeIngredient | { error: string } {
+  if (typeof value !== "object" || value === null) return { error: `'${field}' must be an object.` }
+  const input = value as Record<string, unknown>
+
+  if (!isText(input.line, 300)) return { error: `'${field}.line' must be a non-empty string.` }
+  const quantity = parseQuantity(input.quantity)
+  if (!quantity) return { error: `'${field}.quantity' must include food, a positive quantity and a known unit.` }
+  if (input.query !== undefined && !isText(input.query, MAX_QUERY_CHARS)) {
+    return { error: `'${field}.query' must be a non-empty string of at most ${MAX_QUERY_CHARS} characters.` }
+  }
+  if (input.fdcId !== undefined && !Number.isInteger(input.fdcId)) return { error: `'${field}.fdcId' must be an integer.` }
+
+  return {
+    line: input.line.trim(),
+    quantity,
+    ...(typeof input.query === "string" ? { query: input.query.trim() } : {}),
+    ...(typeof input.fdcId === "number" ? { fdcId: input.fdcId } : {}),
+  }
+}
+
+// Accepts either pasted text, which is parsed here, or a recipe the UI already parsed and corrected
+export function parseRecipeRequest(body: unknown): RecipeParseResult {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { ok: false, error: "Body must be a JSON object.", field: "" }
+  }
+  const input = body as Record<string, unknown>
+
+  if (input.text !== undefined) {
+    if (!isText(input.text, MAX_RECIPE_CHARS)) {
+      return { ok: false, error: `'text' must be a non-empty string of at most ${MAX_RECIPE_CHARS} characters.`, field: "text" }
+    }
+    const recipe = parseRecipe(input.text)
+    if (recipe.ingredients.length === 0) {
+      return { ok: false, error: "No ingredient lines with quantities were found in the recipe.", field: "text" }
+    }
+    return { ok: true, value: recipe }
+  }
+
+  const recipe = input.recipe as Record<string, unknown> | undefined
+  if (typeof recipe !== "object" || recipe === null) {
+    return { ok: false, error: "Provide the recipe as 'text' or a parsed 'recipe'.", field: "" }
+  }
+  if (typeof recipe.servings !== "number" || !Number.isInteger(recipe.servings) || recipe.servings < 1 || recipe.servings > MAX_SERVINGS) {
+    return { ok: false, error: `'recipe.servings' must be a whole number from 1 to ${MAX_SERVINGS}.`, field: "recipe.servings" }
+  }
+  if (!Array.isArray(recipe.ingredients) || recipe.ingredients.length === 0) {
+    return { ok: false, error: "'recipe.ingredients' must be a non-empty array.", field: "recipe.ingredients" }
+  }
+  if (recipe.ingredients.length > MAX_RECIPE_INGREDIENTS) {
+    return { ok: false, error: `Too many ingredients. Limit to ${MAX_RECIPE_INGREDIENTS}.`, field: "recipe.ingredients" }
+  }
+
+  const ingredients: RecipeIngredient[] = []
+  for (const [index, entry] of recipe.ingredients.entries()) {
+    const field = `recipe.ingredients[${index}]`
+    const ingredient = parseIngredient(entry, field)
+    if ("error" in ingredient) return { ok: false, error: ingredient.error, field }
+    ingredients.push(ingredient)
+  }
+
+  return {
+    ok: true,
+    value: {
+      ...(isText(recipe.title, 120) ? { title: recipe.title.trim() } : {}),
+      servings: recipe.servings,
+      ...(isText(recipe.method, 40) ? { method: recipe.method.trim() } : {}),
+      ingredients,
+      skipped: Array.isArray(recipe.skipped)
+        ? recipe.skipped.filter((line): line is string => isText(line, 300)).slice(0, MAX_RECIPE_INGREDIENTS)
+        : [],
+    },
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest"
+
+import { checkFoods, checkResponse, findViolations, getSafetyReports } from "./check"
+import { rulesForProfile } from "./rules"
+
+const peanut = rulesForProfile(["peanut"])
+const milk = rulesForProfile(["milk"])
+
+describe("rulesForProfile", () => {
+  it("maps profile allergens and the diet type to rules", () => {
+    expect(rulesForProfile(["peanut", "tree_nuts", "gluten"], "vegan").map((rule) => rule.id)).toEqual([
+      "peanut",
+      "tree_nuts",
+      "gluten",
+      "vegan",
+    ])
+    expect(rulesForProfile([], "gluten_free").map((rule) => rule.id)).toEqual(["gluten"])
+  })
+
+  it("ignores anything that isn't a known allergen", () => {
+    expect(rulesForProfile(["kiwi", "vegan", "Peanuts"])).toEqual([])
+  })
+})
+
+describe("findViolations", () => {
+  it("finds terms and their plurals", () => {
+    expect(findViolations("Top it with crushed peanuts.", peanut)).toMatchObject([
+      { ruleId: "peanut", kind: "allergy", term: "peanut", context: "Top it with crushed peanuts." },
+    ])
+  })
+
+  it("skips safe exceptions and free-from mentions", () => {
+    expect(findViolations("Use almond milk and peanut butter.", milk)).toEqual([])
+    expect(findViolations("Pick a milk-free spread.", rulesForProfile(["milk"]))).toEqual([])
+  })
+
+  it("skips mentions that warn against the term", () => {
+    expect(findViolations("Make it without peanuts.", peanut)).toEqual([])
+    expect(findViolations("Avoid satay sauce at restaurants.", peanut)).toEqual([])
+    expect(findViolations("Use sunflower seed butter instead of peanut butter.", peanut)).toEqual([])
+  })
+
+  it("only treats a cue right before the term as negation", () => {
+    expect(findViolations("It's not hard to make: blend 2 tbsp peanut butter", peanut)).toMatchObject([
+      { ruleId: "peanut", term: "peanut" },
+    ])
+    expect(findViolations("Given your allergy, I suggest a satay peanut sauce", peanut)).toMatchObject([
+      { ruleId: "peanut", term: "peanut" },
+    ])
+    expect(findViolations("No time? Toss in some peanuts.", peanut)).toHaveLength(1)
+  })
+
+  it("reports each rule once", () => {
+    expect(findViolations("Peanut butter on toast, then peanuts.", peanut)).toHaveLength(1)
+  })
+})
+
+describe("checkFoods", () => {
+  it("always warns about foods the user asked about", () => {
+    const report = checkFoods([{ food: "peanut butter", quantity: 2, unit: "tbsp" }], peanut)
+    expect(report).toMatchObject({ stage: "request", blocked: false })
+    expect(report.violations[0].context).toBe("2 tbsp peanut butter")
+  })
+})
+
+describe("checkResponse", () => {
+  it("blocks allergy hits and only warns about diet hits", () => {
+    expect(checkResponse("Add a spoon of peanut butter.", peanut).blocked).toBe(true)
+
+    const vegan = checkResponse("Grill some chicken.", rulesForProfile([], "vegan"))
+    expect(vegan.violations).toHaveLength(1)
+    expect(vegan.blocked).toBe(false)
+  })
+
+  it("is found again among a message's annotations", () => {
+    const report = checkResponse("Add peanuts.", peanut)
+    expect(getSafetyReports([{ type: "nutrition", items: [] }, report])).toEqual([report])
+  })
+})
@@ -0,0 +1,124 @@
+import { formatQuantity, type FoodQuantity } from "@/lib/nutrition"
+
+import type { RestrictionKind, RestrictionRule } from "./rules"
+
+// An alias rather than an interface so reports stay assignable to the AI SDK's JSONValue
+export type SafetyViolation = {
+  ruleId: string
+  label: string
+  kind: RestrictionKind
+  // The word that triggered the rule, e.g. "peanut butter" → "peanut"
+  term: string
+  // The food or sentence it was found in
+  context: string
+}
+
+// Attached to the assistant message as a stream annotation
+export type SafetyReport = {
+  type: "safety"
+  // "request": foods the user asked about; "response": what the model suggested
+  stage: "request" | "response"
+  violations: SafetyViolation[]
+  // Response-stage allergy hits; the server sends withheldNotice instead of the answer
+  blocked: boolean
+}
+
+// Cues right before the term ("without peanuts", "avoid crushed peanuts") mean it's being warned against.
+// Cues further back in the sentence don't count: "not hard to make: blend peanut butter" is a suggestion.
+const NEGATION =
+  /\b(no|without|free of|avoid|avoiding|instead of|substitute for|replace|replacing|omit|skip|allergic to|contains? no)\s+(?:[\w'-]+\s+){0,2}$/i
+
+function escape(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+function termPattern(term: string): RegExp {
+  const plural = term.endsWith("y") ? `${escape(term.slice(0, -1))}(?:y|ies)` : `${escape(term)}(?:s|es)?`
+  return new RegExp(`\\b${plural}\\b`, "gi")
+}
+
+function maskExceptions(text: string, exceptions: string[] = []): string {
+  return exceptions.reduce(
+    // Keep string length so match positions still line up with the original text
+    (masked, exception) => masked.replace(new RegExp(escape(exception), "gi"), (match) => " ".repeat(match.length)),
+    text,
+  )
+}
+
+function sentenceAround(text: string, index: number): string {
+  const start = Math.max(text.lastIndexOf(".", index), text.lastIndexOf("\n", index)) + 1
+  const endMatch = text.slice(index).search(/[.\n]/)
+  const end = endMatch === -1 ? text.length : index + endMatch + 1
+  return text.slice(start, end).trim().slice(0, 200)
+}
+
+// Find rule terms in free text, skipping safe exceptions and negated mentions
+export function findViolations(text: string, rules: RestrictionRule[], { ignoreNegated = true } = {}): SafetyViolation[] {
+  const violations: SafetyViolation[] = []
+
+  for (const rule of rules) {
+    const masked = maskExceptions(text, rule.exceptions)
+
+    for (const term of rule.terms) {
+      for (const match of masked.matchAll(termPattern(term))) {
+        const index = match.index ?? 0
+        const after = masked.slice(index + match[0].length, index + match[0].length + 6)
+        if (/^-?\s?free\b/i.test(after)) continue
+
+        if (ignoreNegated && NEGATION.test(masked.slice(Math.max(0, index - 60), index))) continue
+
+        violations.push({ ruleId: rule.id, label: rule.label, kind: rule.kind, term, context: sentenceAround(text, index) })
+        break
+      }
+      if (violations.some((violation) => violation.ruleId === rule.id)) break
+    }
+  }
+
+  return violations
+}
+
+// Foods the user mentioned; always a warning, since the user asked about them deliberately
+export function checkFoods(foods: FoodQuantity[], rules: RestrictionRule[]): SafetyReport {
+  const violations = foods.flatMap((food) =>
+    findViolations(formatQuantity(food), rules, { ignoreNegated: false }).map((violation) => ({
+      ...violation,
+      context: formatQuantity(food),
+    })),
+  )
+
+  return { type: "safety", stage: "request", violations, blocked: false }
+}
+
+// The generated answer; allergy hits block it, diet hits only warn
+export function checkResponse(response: string, rules: RestrictionRule[]): SafetyReport {
+  const violations = findViolations(response, rules)
+  return {
+    type: "safety",
+    stage: "response",
+    violations,
+    blocked: violations.some((violation) => violation.kind === "allergy"),
+  }
+}
+
+// Sent in place of a blocked answer, so the unsafe text is never shown or saved
+export function withheldNotice(report: SafetyReport): string {
+  const allergies = report.violations.filter((violation) => violation.kind === "allergy")
+  const labels = [...new Set(allergies.map((violation) => violation.label))]
+  return (
+    `This answer was withheld because it suggested foods that conflict with your ${labels.join(" and ")}. ` +
+    "Ask again for a version without them."
+  )
+}
+
+function isSafetyReport(value: unknown): value is SafetyReport {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { type?: unknown }).type === "safety" &&
+    Array.isArray((value as { violations?: unknown }).violations)
+  )
+}
+
+export function getSafetyReports(annotations: unknown[] | undefined): SafetyReport[] {
+  return annotations?.filter(isSafetyReport) ?? []
+}
@@ -0,0 +1,96 @@
+export type RestrictionKind = "allergy" | "diet"
+
+export interface RestrictionRule {
+  id: string
+  label: string
+  kind: RestrictionKind
+  // Whole words or phrases; plurals are matched automatically
+  terms: string[]
+  // Phrases that contain a term but are safe ("almond milk" for a milk allergy)
+  exceptions?: string[]
+}
+
+const MEAT = ["beef", "pork", "chicken", "turkey", "lamb", "veal", "duck", "goose", "venison", "bacon", "ham", "sausage", "salami", "pepperoni", "prosciutto", "chorizo", "steak", "meatball", "meat", "jerky", "hot dog", "gelatin", "lard"]
+const FISH = ["fish", "salmon", "tuna", "cod", "tilapia", "trout", "halibut", "sardine", "anchovy", "anchovies", "mackerel", "herring", "haddock", "catfish", "bass", "snapper", "swordfish", "fish sauce"]
+const SHELLFISH = ["shellfish", "shrimp", "prawn", "crab", "lobster", "crayfish", "crawfish", "scallop", "clam", "mussel", "oyster", "squid", "calamari", "octopus"]
+const DAIRY = ["milk", "cheese", "butter", "cream", "yogurt", "yoghurt", "whey", "casein", "ghee", "kefir", "custard", "ice cream", "mozzarella", "parmesan", "cheddar", "ricotta", "paneer", "buttermilk"]
+const DAIRY_EXCEPTIONS = ["coconut milk", "almond milk", "oat milk", "soy milk", "rice milk", "cashew milk", "peanut butter", "almond butter", "cashew butter", "nut butter", "seed butter", "sunflower butter", "soy butter", "vegan butter", "cocoa butter", "shea butter", "apple butter", "cream of tartar", "coconut cream", "vegan cheese", "dairy-free", "lactose-free"]
+const EGGS = ["egg", "mayonnaise", "mayo", "meringue", "albumen", "aioli", "omelet", "omelette", "frittata", "quiche"]
+const WHEAT = ["wheat", "flour", "bread", "pasta", "spaghetti", "noodle", "couscous", "semolina", "bulgur", "farro", "spelt", "seitan", "cracker", "tortilla", "bagel", "croissant", "pancake", "waffle", "breadcrumb", "panko"]
+const WHEAT_EXCEPTIONS = ["buckwheat", "rice flour", "almond flour", "coconut flour", "corn tortilla", "rice noodle", "gluten-free", "chickpea flour", "oat flour"]
+
+// FDA major allergens plus common intolerances and diets
+export const RESTRICTION_RULES: RestrictionRule[] = [
+  { id: "peanut", label: "peanut allergy", kind: "allergy", terms: ["peanut", "groundnut", "arachis", "satay"] },
+  {
+    id: "tree_nuts",
+    label: "tree nut allergy",
+    kind: "allergy",
+    terms: ["almond", "cashew", "walnut", "pecan", "pistachio", "hazelnut", "macadamia", "brazil nut", "pine nut", "praline", "marzipan", "nutella", "pesto"],
+  },
+  { id: "milk", label: "milk allergy", kind: "allergy", terms: DAIRY, exceptions: DAIRY_EXCEPTIONS },
+  { id: "egg", label: "egg allergy", kind: "allergy", terms: EGGS, exceptions: ["eggplant", "egg-free", "egg substitute"] },
+  { id: "fish", label: "fish allergy", kind: "allergy", terms: FISH },
+  { id: "shellfish", label: "shellfish allergy", kind: "allergy", terms: SHELLFISH },
+  { id: "wheat", label: "wheat allergy", kind: "allergy", terms: WHEAT, exceptions: WHEAT_EXCEPTIONS },
+  { id: "soy", label: "soy allergy", kind: "allergy", terms: ["soy", "soya", "soybean", "tofu", "tempeh", "edamame", "miso", "soy sauce", "tamari"] },
+  { id: "sesame", label: "sesame allergy", kind: "allergy", terms: ["sesame", "tahini", "hummus", "halva", "benne"] },
+  {
+    id: "gluten",
+    label: "gluten-free diet",
+    kind: "allergy",
+    terms: [...WHEAT, "barley", "rye", "malt", "beer", "triticale"],
+    exceptions: WHEAT_EXCEPTIONS,
+  },
+  { id: "lactose", label: "lactose intolerance", kind: "allergy", terms: DAIRY, exceptions: DAIRY_EXCEPTIONS },
+  {
+    id: "vegan",
+    label: "vegan diet",
+    kind: "diet",
+    terms: [...MEAT, ...FISH, ...SHELLFISH, ...DAIRY, ...EGGS, "honey"],
+    exceptions: [...DAIRY_EXCEPTIONS, "eggplant", "vegan"],
+  },
+  {
+    id: "vegetarian",
+    label: "vegetarian diet",
+    kind: "diet",
+    terms: [...MEAT, ...FISH, ...SHELLFISH],
+    exceptions: ["veggie burger", "vegetarian sausage", "plant-based"],
+  },
+  { id: "pescatarian", label: "pescatarian diet", kind: "diet", terms: MEAT, exceptions: ["plant-based"] },
+  {
+    id: "halal",
+    label: "halal diet",
+    kind: "diet",
+    terms: ["pork", "bacon", "ham", "lard", "prosciutto", "pepperoni", "salami", "chorizo", "gelatin", "wine", "beer", "rum", "vodka", "whiskey", "liqueur"],
+    exceptions: ["halal gelatin", "turkey bacon", "beef bacon"],
+  },
+  {
+    id: "kosher",
+    label: "kosher diet",
+    kind: "diet",
+    terms: ["pork", "bacon", "ham", "lard", "prosciutto", "pepperoni", ...SHELLFISH],
+    exceptions: ["turkey bacon", "beef bacon", "kosher"],
+  },
+]
+
+const DIET_RULES: Record<string, string> = {
+  vegan: "vegan",
+  vegetarian: "vegetarian",
+  pescatarian: "pescatarian",
+  halal: "halal",
+  kosher: "kosher",
+  gluten_free: "gluten",
+}
+
+// Profile allergens share the allergy rule ids; anything else is ignored
+export function rulesForProfile(allergies: readonly string[], dietType?: string): RestrictionRule[] {
+  const rules = RESTRICTION_RULES.filter((rule) => rule.kind === "allergy" && allergies.includes(rule.id))
+
+  const dietRule = dietType ? DIET_RULES[dietType] : undefined
+  if (dietRule && !rules.some((rule) => rule.id === dietRule)) {
+    rules.push(RESTRICTION_RULES.find((rule) => rule.id === dietRule)!)
+  }
+
+  return rules
+}
@@ -0,0 +1,56 @@
+import { normalizeOrigin, serializeCSP, type SecurityPolicy } from "./policy"
+
+export interface CorsDecision {
+  allowed: boolean
+  // The caller's Origin when it is cross-origin and allowed, echoed back in Access-Control-Allow-Origin
+  allowOrigin: string | null
+}
+
+export function isPreflight(req: Request) {
+  return req.method === "OPTIONS" && req.headers.has("access-control-request-method")
+}
+
+// Requests without an Origin header (curl, server-to-server) aren't browser cross-origin calls and pass through;
+// they still need a session cookie to reach anything
+export function evaluateCors(policy: SecurityPolicy, origin: string | null, ownOrigins: string[]): CorsDecision {
+  if (!origin) return { allowed: true, allowOrigin: null }
+
+  const normalized = normalizeOrigin(origin)
+  if (normalized && ownOrigins.includes(normalized)) return { allowed: true, allowOrigin: null }
+  if (normalized && policy.allowedOrigins.includes(normalized)) return { allowed: true, allowOrigin: normalized }
+
+  return { allowed: false, allowOrigin: null }
+}
+
+export function corsHeaders(policy: SecurityPolicy, decision: CorsDecision, preflight: boolean) {
+  const headers = new Headers({ Vary: "Origin" })
+  if (!decision.allowOrigin) return headers
+
+  headers.set("Access-Control-Allow-Origin", decision.allowOrigin)
+  if (policy.allowCredentials) headers.set("Access-Control-Allow-Credentials", "true")
+
+  if (preflight) {
+    headers.set("Access-Control-Allow-Methods", policy.allowedMethods.join(", "))
+    headers.set("Access-Control-Allow-Headers", policy.allowedHeaders.join(", "))
+    headers.set("Access-Control-Max-Age", String(policy.preflightMaxAge))
+  }
+  return headers
+}
+
+export function securityHeaders(policy: SecurityPolicy) {
+  const headers = new Headers({
+    "X-Content-Type-Options": "nosniff",
+    "Referrer-Policy": "strict-origin-when-cross-origin",
+  })
+
+  if (policy.contentSecurityPolicy) headers.set("Content-Security-Policy", serializeCSP(policy.contentSecurityPolicy))
+  if (policy.frameOptions) headers.set("X-Frame-Options", policy.frameOptions)
+  return headers
+}
+
+export function applyHeaders<T extends Response>(response: T, ...sources: Headers[]): T {
+  for (const source of sources) {
+    source.forEach((value, key) => response.headers.set(key, value))
+  }
+  return response
+}
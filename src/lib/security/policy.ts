@@ -0,0 +1,117 @@
+// Cross-origin and browser security policy applied by the middleware. Edge-safe: no Node imports.
+
+export type CSPDirectives = Record<string, string[]>
+
+export interface SecurityPolicy {
+  // Extra origins allowed to call the API cross-origin; same-origin requests are always allowed
+  allowedOrigins: string[]
+  allowedMethods: string[]
+  allowedHeaders: string[]
+  allowCredentials: boolean
+  // Seconds a browser may cache a preflight answer
+  preflightMaxAge: number
+  // null sends no Content-Security-Policy header
+  contentSecurityPolicy: CSPDirectives | null
+  // null sends no X-Frame-Options header
+  frameOptions: "DENY" | "SAMEORIGIN" | null
+}
+
+export interface RouteOverride {
+  // Matches the path itself and everything below it
+  path: string
+  policy: Partial<SecurityPolicy>
+}
+
+const isDev = process.env.NODE_ENV === "development"
+
+// Next injects inline bootstrap scripts and inline styles, and dev mode needs eval plus the HMR socket
+const DEFAULT_CSP: CSPDirectives = {
+  "default-src": ["'self'"],
+  "script-src": ["'self'", "'unsafe-inline'", ...(isDev ? ["'unsafe-eval'"] : [])],
+  "style-src": ["'self'", "'unsafe-inline'"],
+  "img-src": ["'self'", "data:", "blob:"],
+  "font-src": ["'self'", "data:"],
+  "connect-src": ["'self'", ...(isDev ? ["ws:"] : [])],
+  "object-src": ["'none'"],
+  "base-uri": ["'self'"],
+  "form-action": ["'self'"],
+  "frame-ancestors": ["'none'"],
+}
+
+export const DEFAULT_POLICY: SecurityPolicy = {
+  allowedOrigins: [],
+  allowedMethods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
+  allowedHeaders: ["Content-Type", "Authorization"],
+  allowCredentials: false,
+  preflightMaxAge: 600,
+  contentSecurityPolicy: DEFAULT_CSP,
+  frameOptions: "DENY",
+}
+
+// Most specific path wins
+export const ROUTE_OVERRIDES: RouteOverride[] = [
+  // Sign-in only ever happens from our own pages
+  { path: "/api/auth", policy: { allowedOrigins: [] } },
+  { path: "/api/chat", policy: { allowedMethods: ["POST", "OPTIONS"] } },
+]
+
+function splitList(value: string | undefined) {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+}
+
+// Origins are compared exactly, so drop trailing slashes and paths people paste in
+export function normalizeOrigin(value: string) {
+  try {
+    return new URL(value).origin
+  } catch {
+    return null
+  }
+}
+
+// CORS_ALLOWED_ORIGINS is a comma-separated list of origins; CONTENT_SECURITY_POLICY replaces the default CSP
+// ("off" disables it)
+export function loadPolicyFromEnv(env: Record<string, string | undefined> = process.env): SecurityPolicy {
+  const allowedOrigins = splitList(env.CORS_ALLOWED_ORIGINS)
+    .map(normalizeOrigin)
+    .filter((origin): origin is string => origin !== null)
+
+  let contentSecurityPolicy = DEFAULT_POLICY.contentSecurityPolicy
+  if (env.CONTENT_SECURITY_POLICY === "off") contentSecurityPolicy = null
+  else if (env.CONTENT_SECURITY_POLICY) contentSecurityPolicy = parseCSP(env.CONTENT_SECURITY_POLICY)
+
+  return { ...DEFAULT_POLICY, allowedOrigins, contentSecurityPolicy }
+}
+
+export function parseCSP(value: string): CSPDirectives {
+  const directives: CSPDirectives = {}
+  for (const part of value.split(";")) {
+    const [name, ...sources] = part.trim().split(/\s+/)
+    if (name) directives[name.toLowerCase()] = sources
+  }
+  return directives
+}
+
+export function serializeCSP(directives: CSPDirectives) {
+  return Object.entries(directives)
+    .map(([name, sources]) => [name, ...sources].join(" "))
+    .join("; ")
+}
+
+function matchesPath(pathname: string, path: string) {
+  return pathname === path || pathname.startsWith(`${path}/`)
+}
+
+export function resolvePolicy(
+  pathname: string,
+  base: SecurityPolicy = loadPolicyFromEnv(),
+  overrides: RouteOverride[] = ROUTE_OVERRIDES,
+): SecurityPolicy {
+  const match = overrides
+    .filter((override) => matchesPath(pathname, override.path))
+    .sort((a, b) => b.path.length - a.path.length)[0]
+
+  return match ? { ...base, ...match.policy } : base
+}
@@ -0,0 +1,152 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { AuthConfigError, SESSION_COOKIE, verifySessionToken, type SessionUser } from '@/lib/auth/session'
+import { AppError, QuotaExceededError, toErrorBody } from '@/lib/errors'
+import {
+  clientIp,
+  consumeLimits,
+  getRateLimitStore,
+  limitsForPath,
+  loadRouteLimits,
+  loadTrustedProxyCount,
+  peekLimits,
+  rateLimitHeaders,
+} from '@/lib/rate-limit'
+import {
+  applyHeaders,
+  corsHeaders,
+  evaluateCors,
+  isPreflight,
+  loadPolicyFromEnv,
+  normalizeOrigin,
+  resolvePolicy,
+  securityHeaders,
+} from '@/lib/security'
+
+// Reachable without a session; the probes are for load balancers and orchestrators
+const PUBLIC_PATHS = ['/login', '/api/auth', '/api/health/live', '/api/health/ready']
+
+const basePolicy = loadPolicyFromEnv()
+const routeLimits = loadRouteLimits()
+const trustedProxies = loadTrustedProxyCount()
+
+function isPublic(pathname: string) {
+  return PUBLIC_PATHS.some((path) => pathname === path || pathname.startsWith(`${path}/`))
+}
+
+// Returns the signed-in user, or the response to send instead when the path needs one
+async function authenticate(
+  request: NextRequest,
+  isApi: boolean,
+): Promise<{ user: SessionUser | null; rejection?: NextResponse }> {
+  const { pathname, search } = request.nextUrl
+
+  let user
+  try {
+    user = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value)
+  } catch (error) {
+    if (!(error instanceof AuthConfigError)) throw error
+    console.error(error.message)
+    return {
+      user: null,
+      rejection: NextResponse.json(toErrorBody(new AppError('not_configured')), { status: 500 }),
+    }
+  }
+
+  if (user || isPublic(pathname)) return { user }
+  if (isApi) {
+    return { user, rejection: NextResponse.json(toErrorBody(new AppError('unauthenticated')), { status: 401 }) }
+  }
+
+  const login = new URL('/login', request.url)
+  if (pathname !== '/') login.searchParams.set('next', `${pathname}${search}`)
+  return { user, rejection: NextResponse.redirect(login) }
+}
+
+interface RateLimitOutcome {
+  headers: Headers
+  // Set when the middleware answers the request itself
+  response?: NextResponse
+}
+
+// Enforces the route's rate limits and answers GET /api/usage for the chat counter in the UI
+async function applyRateLimits(request: NextRequest, user: SessionUser | null): Promise<RateLimitOutcome> {
+  const { pathname } = request.nextUrl
+  // Next 15 dropped request.ip from its types, but some hosting adapters still set it
+  const platformIp = (request as NextRequest & { ip?: string }).ip
+  const identity = { ip: clientIp(request.headers, trustedProxies, platformIp), userId: user?.id }
+  const store = getRateLimitStore()
+
+  if (pathname === '/api/usage') {
+    const chat = limitsForPath('/api/chat', routeLimits)
+    const limits = chat ? await peekLimits(store, chat, identity) : []
+    return { response: NextResponse.json({ limits }), headers: new Headers() }
+  }
+
+  const route = limitsForPath(pathname, routeLimits)
+  if (!route) return { headers: new Headers() }
+
+  const result = await consumeLimits(store, route, identity)
+  const headers = rateLimitHeaders(result.statuses)
+  if (result.allowed) return { headers }
+
+  headers.set('Retry-After', String(result.retryAfter))
+  const body = toErrorBody(new QuotaExceededError({ retryAfter: result.retryAfter }))
+  return {
+    headers,
+    response: NextResponse.json({ ...body, limit: result.exceeded?.name }, { status: 429 }),
+  }
+}
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl
+  const isApi = pathname.startsWith('/api/')
+  const policy = resolvePolicy(pathname, basePolicy)
+  const security = securityHeaders(policy)
+
+  if (!isApi) {
+    const { rejection } = await authenticate(request, false)
+    return applyHeaders(rejection ?? NextResponse.next(), security)
+  }
+
+  // Our own pages may be served from APP_URL behind a proxy as well as the origin Next sees
+  const ownOrigins = [request.nextUrl.origin, normalizeOrigin(process.env.APP_URL ?? '')].filter(
+    (origin): origin is string => origin !== null,
+  )
+  const decision = evaluateCors(policy, request.headers.get('origin'), ownOrigins)
+
+  // Preflights carry no cookies, so answer them before authentication
+  if (isPreflight(request)) {
+    const method = request.headers.get('access-control-request-method')?.toUpperCase() ?? ''
+    const allowed = decision.allowed && policy.allowedMethods.includes(method)
+    return applyHeaders(
+      new NextResponse(null, { status: allowed ? 204 : 403 }),
+      allowed ? corsHeaders(policy, decision, true) : new Headers({ Vary: 'Origin' }),
+      security,
+    )
+  }
+
+  const cors = corsHeaders(policy, decision, false)
+  if (!decision.allowed) {
+    const body = toErrorBody(new AppError('forbidden', { message: 'Origin not allowed' }))
+    return applyHeaders(NextResponse.json(body, { status: 403 }), cors, security)
+  }
+
+  const { user, rejection } = await authenticate(request, true)
+  if (rejection) return applyHeaders(rejection, cors, security)
+
+  let limited: RateLimitOutcome = { headers: new Headers() }
+  try {
+    limited = await applyRateLimits(request, user)
+  } catch (error) {
+    // A broken persistent store shouldn't take the app down; let the request through
+    console.error('Rate limiting failed:', error)
+  }
+
+  return applyHeaders(limited.response ?? NextResponse.next(), limited.headers, cors, security)
+}
+
+export const config = {
+  // Everything except Next's own assets and files served from /public
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)'],
+}
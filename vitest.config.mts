@@ -0,0 +1,22 @@
+import { dirname, resolve } from "path";
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": resolve(__dirname, "src") },
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+    // Every test runs offline against the recorded fixtures
+    env: {
+      LLM_PROVIDER: "mock",
+      LLM_FIXTURES_PATH: resolve(__dirname, "fixtures/llm-replies.json"),
+      FDC_DATASET_PATH: resolve(__dirname, "fixtures/fdc-sample.json"),
+    },
+  },
+});